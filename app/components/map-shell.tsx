@@ -1,26 +1,198 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import type { Feature, FeatureCollection, Polygon } from "geojson";
 import mapboxgl from "mapbox-gl";
-import { Sidebar, Map } from "@/components/map-shell";
+import {
+  Sidebar,
+  Map,
+  type FireworkProperties,
+  type OutlineEntry,
+  type PlanLoadErrors,
+  type UnsavedSessionPreview,
+} from "@/components/map-shell";
 import { usePdfGenerator } from "@/components/pdf-generator";
 import { feetToMeters, metersToFeet } from "@/components/pdf-generator/utils";
+import {
+  AUTOSAVE_DELAY_MS,
+  clearAutosave,
+  readAutosave,
+  writeAutosave,
+} from "@/lib/autosave";
+import {
+  DEFAULT_CATALOG,
+  DEFAULT_PRODUCT_COLOR,
+  findLegacyProduct,
+  loadCatalog,
+  mergeCatalog,
+  productDeviceKind,
+  RESERVED_PRODUCT_IDS,
+  saveCatalog,
+  type CatalogProduct,
+} from "@/lib/catalog";
+import { downloadFile } from "@/lib/download";
+import {
+  findClearanceViolations,
+  measureClearances,
+  type ClearanceArea,
+  type ClearanceViolation,
+  type ClearanceZone,
+} from "@/lib/clearance";
+import {
+  DEFAULT_WIND_SETTINGS,
+  computeFalloutEllipse,
+  createFalloutFeature,
+  describeAim,
+  falloutRing,
+  isAngled,
+  parseMortarAim,
+  parseWindSettings,
+  type MortarAim,
+  type WindSettings,
+} from "@/lib/fallout";
+import {
+  DEFAULT_RULE_SET,
+  getFalloutRadiusFeet,
+  parseRuleSet,
+  type DeviceKind,
+  type SafetyRuleSet,
+} from "@/lib/safety-rules";
+import {
+  MIN_POLYGON_VERTICES,
+  edgeMidpoints,
+  formatArea,
+  formatLandArea,
+  parsePolygon,
+  polygonAreaSqMeters,
+  polygonCentroid,
+  bearingDeg,
+  rectangleCorners,
+  rectangleFromCorners,
+  rectangleSizeMeters,
+  rectangleTopPoint,
+  resizeRectangleFromCorner,
+  type AreaShape,
+  type OrientedRect,
+} from "@/lib/polygon";
+import { fromLocalMeters } from "@/lib/local-meters";
+import {
+  MIN_MEASUREMENT_POINTS,
+  nearestSegmentIndex,
+  parsePolyline,
+  polylineLengthMeters,
+  polylineMidpoint,
+  runningTotalsMeters,
+  segmentLengthsMeters,
+  haversineMeters,
+  segmentMidpoints,
+} from "@/lib/measurement";
+import {
+  describeSnap,
+  findSnap,
+  parseSnapAttachments,
+  reindexSnap,
+  resolveSnap,
+  type SnapAttachment,
+  type SnapResult,
+  type SnapTarget,
+  type VertexChange,
+} from "@/lib/snap";
+import {
+  createHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type History,
+} from "@/lib/history";
+import {
+  rotateGeometry,
+  selectionCentroid,
+  translateGeometry,
+  type SelectionGeometry,
+} from "@/lib/selection";
+import {
+  CURRENT_PLAN_VERSION,
+  migratePlanState,
+  type MigrationResult,
+} from "@/lib/plan-migrations";
+import type {
+  SerializedAreaMeasurement,
+  SerializedAudience,
+  SerializedCustom,
+  SerializedFirework,
+  SerializedMeasurement,
+  SerializedRestricted,
+  SerializedState,
+} from "@/lib/plan-state";
+import {
+  type AnnotationCollection,
+  createProjectFile,
+  formatProjectFile,
+  isValidAnnotation,
+  parseProjectFile,
+  PROJECT_FILE_EXTENSION,
+  projectFileName,
+} from "@/lib/project-file";
+import {
+  createProjectId,
+  deleteProject,
+  duplicateProject,
+  isSameArea,
+  loadProjectState,
+  loadProjects,
+  renameProject,
+  saveProject,
+  UNTITLED_PROJECT,
+  updateProject,
+  type ProjectSummary,
+} from "@/lib/projects";
+import { decodePlanBinary, encodePlanBinary } from "@/lib/share-codec";
+import {
+  decryptShareData,
+  encryptShareData,
+  shareCryptoAvailable,
+} from "@/lib/share-crypto";
+import { captureThumbnail } from "@/lib/thumbnail";
 // Removed slider; we switch whole styles for performance
 
 mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN ?? "";
 
-type AnnotationItem = {
-  key: string;
-  label: string;
-  inches: number;
-  color: string;
+const VIOLATION_COLOR = "#FACC15";
+const MEASUREMENT_COLOR = "#00AA00";
+const SNAP_COLOR = "#F59E0B";
+const SNAP_TOLERANCE_PX = 12;
+const SELECTION_COLOR = "#2563EB";
+const CLIPBOARD_TYPE = "annotations";
+const DUPLICATE_OFFSET_FEET = 30;
+// First byte of a b= share link
+const SHARE_RAW = 0;
+const SHARE_DEFLATED = 1;
+const DAMAGED_LINK_ERROR =
+  "This link is damaged or incomplete. Ask for it to be sent again.";
+const LOCKED_LINKS_UNAVAILABLE_ERROR =
+  "This browser cannot open protected plans on this page. Open the link over HTTPS, or in an up-to-date browser.";
+const AUTO_DIMENSION_SOURCE = "__auto-dim-src";
+// Areas farther than this multiple of the required distance get no line
+const AUTO_DIMENSION_RANGE = 2;
+
+type AreaKind = "audience" | "restricted";
+// Area measurements are editable polygons too, but play no part in clearance
+type PolygonKind = AreaKind | "area";
+
+const AREA_STYLES: Record<
+  PolygonKind,
+  { title: string; idPrefix: string; color: string }
+> = {
+  audience: { title: "Audience", idPrefix: "aud", color: "#3B82F6" },
+  restricted: { title: "Restricted", idPrefix: "rest", color: "#EF4444" },
+  area: { title: "Area", idPrefix: "area", color: "#A855F7" },
 };
 
 type AnnotationType =
   | "firework"
   | "audience"
   | "measurement"
+  | "area"
   | "restricted"
   | "custom";
 
@@ -31,6 +203,14 @@ export interface AnnotationRecord {
   inches: number;
   label: string;
   color: string;
+  deviceKind?: DeviceKind;
+  // Angled mortar: tilt from vertical and aim bearing (fireworks only)
+  tiltDeg?: number;
+  azimuthDeg?: number;
+  notes?: string;
+  quantity?: number; // identical devices fired from this position
+  productId?: string; // catalog product the firework was placed from
+  falloutFeet?: number; // product override of the rule set radius
   marker: mapboxgl.Marker;
   sourceId: string;
   fillLayerId: string;
@@ -46,35 +226,72 @@ interface AudienceRecord {
   type: AnnotationType;
   number: number;
   id: string;
+  label?: string; // set by renaming in the outline
   sourceId: string;
   fillLayerId: string;
   lineLayerId: string;
   labelMarker: mapboxgl.Marker;
   cornerMarkers: mapboxgl.Marker[];
   corners: [number, number][];
+  // Polygons keep one vertex marker per corner; extra edit handles are
+  // polygon edge midpoints or the rectangle rotation handle
+  shape?: AreaShape;
+  rotationDeg?: number;
+  handleMarkers?: mapboxgl.Marker[];
+  setCorners?: (corners: [number, number][], rotationDeg?: number) => void;
 }
 
 interface MeasurementRecord {
   type: AnnotationType;
   number: number;
   id: string;
+  label?: string;
   sourceId: string;
   lineLayerId: string;
   labelMarker: mapboxgl.Marker;
   pointMarkers: mapboxgl.Marker[];
   points: [number, number][];
+  // Per-segment length labels, only shown once there is more than one segment
+  segmentMarkers: mapboxgl.Marker[];
+  // One entry per point: the annotation geometry it is snapped to, if any
+  snaps: (SnapAttachment | null)[];
+  insertPoint?: (point: [number, number]) => void;
+  syncPoints?: () => void; // re-render after snapped targets move
+}
+
+interface AreaMeasurementRecord {
+  type: AnnotationType;
+  number: number;
+  id: string;
+  label?: string;
+  sourceId: string;
+  fillLayerId: string;
+  lineLayerId: string;
+  labelMarker: mapboxgl.Marker;
+  cornerMarkers: mapboxgl.Marker[];
+  corners: [number, number][];
+  shape?: AreaShape; // always "polygon"
+  handleMarkers?: mapboxgl.Marker[];
+  setCorners?: (corners: [number, number][]) => void;
 }
 
 interface RestrictedRecord {
   type: AnnotationType;
   number: number;
   id: string;
+  label?: string;
   sourceId: string;
   fillLayerId: string;
   lineLayerId: string;
   labelMarker: mapboxgl.Marker;
   cornerMarkers: mapboxgl.Marker[];
   corners: [number, number][];
+  // Polygons keep one vertex marker per corner; extra edit handles are
+  // polygon edge midpoints or the rectangle rotation handle
+  shape?: AreaShape;
+  rotationDeg?: number;
+  handleMarkers?: mapboxgl.Marker[];
+  setCorners?: (corners: [number, number][], rotationDeg?: number) => void;
 }
 
 export function MapShell() {
@@ -91,16 +308,26 @@ export function MapShell() {
   const annotationsRef = useRef<Record<string, AnnotationRecord>>({});
   const audienceAreasRef = useRef<Record<string, AudienceRecord>>({});
   const measurementsRef = useRef<Record<string, MeasurementRecord>>({});
+  const areaMeasurementsRef = useRef<Record<string, AreaMeasurementRecord>>({});
   const restrictedAreasRef = useRef<Record<string, RestrictedRecord>>({});
   const fireworkCounterRef = useRef<number>(0);
   const audienceCounterRef = useRef<number>(0);
   const measurementCounterRef = useRef<number>(0);
+  const areaCounterRef = useRef<number>(0);
   const restrictedCounterRef = useRef<number>(0);
   // Reset dialog is controlled by Radix internally via Dialog primitives
   const [showHeight, setShowHeight] = useState(false);
+  const [showAutoDimensions, setShowAutoDimensions] = useState(false);
+  const showAutoDimensionsRef = useRef(false);
   // PDF generation is now handled by the usePdfGenerator hook
   const [shareOpen, setShareOpen] = useState(false);
   const [shareUrl, setShareUrl] = useState("");
+  // A passphrase-protected link waiting to be unlocked
+  const [lockedLink, setLockedLink] = useState<{
+    sealed: string;
+    view: boolean;
+  } | null>(null);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [disclaimerOpen, setDisclaimerOpen] = useState(false);
   const [helpOpen, setHelpOpen] = useState(false);
@@ -112,36 +339,112 @@ export function MapShell() {
   type MeasurementUnit = "feet" | "meters";
   const [measurementUnit, setMeasurementUnit] =
     useState<MeasurementUnit>("feet");
-  const [safetyDistance, setSafetyDistance] = useState<70 | 100>(70);
-  const safetyDistanceRef = useRef<70 | 100>(70);
+  const [safetyRuleSet, setSafetyRuleSet] =
+    useState<SafetyRuleSet>(DEFAULT_RULE_SET);
+  const safetyRuleSetRef = useRef<SafetyRuleSet>(DEFAULT_RULE_SET);
+
+  const [windSettings, setWindSettings] = useState<WindSettings>(
+    DEFAULT_WIND_SETTINGS
+  );
+  const windSettingsRef = useRef<WindSettings>(DEFAULT_WIND_SETTINGS);
+  const measurementUnitRef = useRef<MeasurementUnit>("feet");
 
-  // Keep ref in sync with state
+  // Keep refs in sync with state
   useEffect(() => {
-    safetyDistanceRef.current = safetyDistance;
-  }, [safetyDistance]);
+    safetyRuleSetRef.current = safetyRuleSet;
+  }, [safetyRuleSet]);
+  useEffect(() => {
+    windSettingsRef.current = windSettings;
+  }, [windSettings]);
+  useEffect(() => {
+    measurementUnitRef.current = measurementUnit;
+  }, [measurementUnit]);
 
   // Settings form state
   const [projectName, setProjectName] = useState("");
   const [formProjectName, setFormProjectName] = useState("");
   const [formMeasurementUnit, setFormMeasurementUnit] =
     useState<MeasurementUnit>("feet");
-  const [formSafetyDistance, setFormSafetyDistance] = useState<70 | 100>(70);
+  const [formSafetyRuleSet, setFormSafetyRuleSet] =
+    useState<SafetyRuleSet>(DEFAULT_RULE_SET);
+  const [formWindSettings, setFormWindSettings] = useState<WindSettings>(
+    DEFAULT_WIND_SETTINGS
+  );
   const [hasFormChanges, setHasFormChanges] = useState(false);
 
   // Custom annotation form state
   const [customLabel, setCustomLabel] = useState("");
   const [customColor, setCustomColor] = useState("#FF5126");
 
+  // Polygon area drawing mode
+  const [drawingArea, setDrawingArea] = useState<AreaKind | null>(null);
+  const drawingAreaRef = useRef<AreaKind | null>(null);
+  // Opened from a mode=view link: the plan can be looked at but not changed
+  const [viewOnly, setViewOnly] = useState(false);
+  const viewOnlyRef = useRef(false);
+  const drawVerticesRef = useRef<[number, number][]>([]);
+
+  // Firework properties form state (editing a placed firework)
+  const [fireworkPropertiesOpen, setFireworkPropertiesOpen] = useState(false);
+  const [editingFirework, setEditingFirework] = useState<string | null>(null);
+  const [fireworkProperties, setFireworkProperties] =
+    useState<FireworkProperties>({
+      inches: 0,
+      label: "",
+      color: "#FF5126",
+      notes: "",
+      quantity: 1,
+    });
+  const [mortarTilt, setMortarTilt] = useState(0);
+  const [mortarAzimuth, setMortarAzimuth] = useState(0);
+
+  // Clearance violations between fallout circles and audience/restricted areas
+  const [clearanceViolations, setClearanceViolations] = useState<
+    ClearanceViolation[]
+  >([]);
+  const annotationSyncFrameRef = useRef<number | null>(null);
+  const snapIndicatorRef = useRef<mapboxgl.Marker | null>(null);
+
+  // Undo/redo: JSON snapshots of the annotations after each committed edit
+  const historyRef = useRef<History<string>>(createHistory());
+  const historyTimerRef = useRef<number | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Multi-selection (ids across all annotation kinds)
+  const selectionRef = useRef<Set<string>>(new Set());
+  const [selectionCount, setSelectionCount] = useState(0);
+  // Last cursor position over the map, where Ctrl+V pastes
+  const pasteTargetRef = useRef<[number, number] | null>(null);
+
+  // Sidebar outline; hidden annotations stay in the plan and its checks
+  const [outline, setOutline] = useState<OutlineEntry[]>([]);
+  const outlineKeyRef = useRef("");
+  const hiddenIdsRef = useRef<Set<string>>(new Set());
+  const hoveredIdRef = useRef<string | null>(null);
+
+  // Autosave to IndexedDB, paused until the unsaved plan from the last visit
+  // (if any) has been restored or discarded
+  const [autosaveEnabled, setAutosaveEnabled] = useState(false);
+  const [autosaveRevision, setAutosaveRevision] = useState(0);
+  const autosaveCheckedRef = useRef(false);
+  const unsavedStateRef = useRef<SerializedState | null>(null);
+  const unsavedProjectIdRef = useRef<string | undefined>(undefined);
+  const [unsavedSession, setUnsavedSession] =
+    useState<UnsavedSessionPreview | null>(null);
+
   // PDF Generator hook
   const { isGenerating, generateSitePlanPdf } = usePdfGenerator({
     mapRef,
     annotationsRef,
     audienceAreasRef,
     measurementsRef,
+    areaMeasurementsRef,
     restrictedAreasRef,
     projectName,
     measurementUnit,
-    safetyDistance,
+    safetyRuleSet,
+    windSettings,
   });
 
   // Handle form field changes
@@ -153,7 +456,8 @@ export function MapShell() {
   const handleSaveSettings = () => {
     setProjectName(formProjectName);
     setMeasurementUnit(formMeasurementUnit);
-    setSafetyDistance(formSafetyDistance);
+    setSafetyRuleSet(formSafetyRuleSet);
+    setWindSettings(formWindSettings);
     setHasFormChanges(false);
     setSettingsOpen(false);
 
@@ -165,7 +469,8 @@ export function MapShell() {
   const handleCancelSettings = () => {
     setFormProjectName(projectName);
     setFormMeasurementUnit(measurementUnit);
-    setFormSafetyDistance(safetyDistance);
+    setFormSafetyRuleSet(safetyRuleSet);
+    setFormWindSettings(windSettings);
     setHasFormChanges(false);
     setSettingsOpen(false);
   };
@@ -212,6 +517,7 @@ export function MapShell() {
 
   // Custom annotation handlers
   const handleCustomAnnotationClick = (annotationId: string) => {
+    if (viewOnlyRef.current) return;
     const annotation = annotationsRef.current[annotationId];
     if (annotation && annotation.type === "custom") {
       setCustomLabel(annotation.label);
@@ -241,7 +547,7 @@ export function MapShell() {
           // Create new marker with updated color
           const newMarker = new mapboxgl.Marker({
             color: customColor,
-            draggable: true,
+            draggable: !viewOnlyRef.current,
             clickTolerance: 5,
           })
             .setLngLat(position)
@@ -259,6 +565,7 @@ export function MapShell() {
           });
           newMarker.setPopup(recreatedClickProxy);
           newMarker.getElement().addEventListener("contextmenu", (evt) => {
+            if (viewOnlyRef.current) return;
             evt.preventDefault();
             removeCustomAnnotation(annotation.id);
           });
@@ -282,7 +589,7 @@ export function MapShell() {
                       coordinates: [pos.lng, pos.lat],
                     },
                     properties: {
-                      text: customLabel,
+                      text: annotation.label,
                     },
                   },
                 ],
@@ -291,9 +598,11 @@ export function MapShell() {
           };
           newMarker.on("drag", updateCustomText);
           newMarker.on("dragend", updateCustomText);
+          newMarker.on("dragend", recordHistory);
 
           // Update annotation record
           annotation.marker = newMarker;
+          watchSelection(newMarker, annotation.id);
 
           // Update markers array
           const markerIndex = annotationMarkersRef.current.indexOf(oldMarker);
@@ -327,6 +636,7 @@ export function MapShell() {
             } as FeatureCollection);
           }
         }
+        recordHistory();
       }
     }
     setCustomAnnotationOpen(false);
@@ -342,62 +652,244 @@ export function MapShell() {
     setCustomColor("#FF5126");
   };
 
+  // Firework properties handlers
+  const handleFireworkClick = (annotationId: string) => {
+    if (viewOnlyRef.current) return;
+    const annotation = annotationsRef.current[annotationId];
+    if (annotation && annotation.type === "firework") {
+      setFireworkProperties({
+        inches: annotation.inches,
+        deviceKind: annotation.deviceKind,
+        label: annotation.label,
+        color: annotation.color,
+        notes: annotation.notes ?? "",
+        quantity: annotation.quantity ?? 1,
+        productId: annotation.productId,
+        falloutFeet: annotation.falloutFeet,
+      });
+      setMortarTilt(annotation.tiltDeg ?? 0);
+      setMortarAzimuth(annotation.azimuthDeg ?? 0);
+      setEditingFirework(annotationId);
+      setFireworkPropertiesOpen(true);
+    }
+  };
+
+  const handleSaveFireworkProperties = () => {
+    const annotation = editingFirework
+      ? annotationsRef.current[editingFirework]
+      : undefined;
+    const map = mapRef.current;
+    if (annotation && map) {
+      const aim = parseMortarAim({
+        tiltDeg: mortarTilt,
+        azimuthDeg: mortarAzimuth,
+      });
+      annotation.tiltDeg = aim?.tiltDeg;
+      annotation.azimuthDeg = aim?.azimuthDeg;
+      annotation.inches = fireworkProperties.inches;
+      annotation.deviceKind = fireworkProperties.deviceKind;
+      annotation.productId = fireworkProperties.productId;
+      annotation.falloutFeet = fireworkProperties.falloutFeet;
+      annotation.label =
+        fireworkProperties.label.trim() || `${fireworkProperties.inches}"`;
+      annotation.color = fireworkProperties.color;
+      annotation.notes = fireworkProperties.notes.trim() || undefined;
+      annotation.quantity =
+        fireworkProperties.quantity > 1
+          ? fireworkProperties.quantity
+          : undefined;
+      const title = annotation.marker.getElement().firstElementChild;
+      if (title) title.textContent = annotation.label;
+      try {
+        map.setPaintProperty(
+          annotation.fillLayerId,
+          "fill-color",
+          annotation.color
+        );
+        map.setPaintProperty(
+          annotation.lineLayerId,
+          "line-color",
+          annotation.color
+        );
+      } catch {}
+      // Extrusion height follows the caliber, so rebuild it
+      if (annotation.extrusionLayerId) {
+        removeExtrusionForAnnotation(annotation);
+        addExtrusionForAnnotation(annotation);
+      }
+      renderAimGlyph(annotation);
+      // Redraws the fallout zone and radius label, then rechecks clearance
+      refreshAllMeasurementTexts();
+      recordHistory();
+    }
+    setFireworkPropertiesOpen(false);
+    setEditingFirework(null);
+  };
+
+  const handleCancelFireworkProperties = () => {
+    setFireworkPropertiesOpen(false);
+    setEditingFirework(null);
+  };
+
+  // Use native Mapbox popup open as the click signal (it is not fired for drags)
+  function attachFireworkClick(marker: mapboxgl.Marker, annotationId: string) {
+    const clickProxy = new mapboxgl.Popup({
+      closeButton: false,
+      closeOnClick: true,
+      maxWidth: "0px",
+    });
+    clickProxy.on("open", () => {
+      handleFireworkClick(annotationId);
+      clickProxy.remove();
+    });
+    marker.setPopup(clickProxy);
+  }
+
+  // Required fallout radius under the active rule set, unless the product
+  // overrides it (reads the ref so marker drag closures see the current rules)
+  function falloutRadiusFeet(
+    inches: number,
+    deviceKind?: DeviceKind,
+    overrideFeet?: number
+  ) {
+    return (
+      overrideFeet ??
+      getFalloutRadiusFeet(safetyRuleSetRef.current, inches, deviceKind)
+    );
+  }
+
+  function falloutRadiusText(
+    inches: number,
+    deviceKind?: DeviceKind,
+    overrideFeet?: number
+  ) {
+    const radiusFeet = Math.round(
+      falloutRadiusFeet(inches, deviceKind, overrideFeet)
+    );
+    return measurementUnitRef.current === "feet"
+      ? `${radiusFeet} ft`
+      : `${Math.round(feetToMeters(radiusFeet))} m`;
+  }
+
+  // Fallout footprint for a launch position, shifted toward the burst point
+  // of an angled mortar and stretched by the current wind
+  function falloutEllipseAt(
+    lng: number,
+    lat: number,
+    inches: number,
+    deviceKind?: DeviceKind,
+    aim?: Partial<MortarAim> & { falloutFeet?: number }
+  ) {
+    return computeFalloutEllipse(
+      [lng, lat],
+      feetToMeters(falloutRadiusFeet(inches, deviceKind, aim?.falloutFeet)),
+      windSettingsRef.current,
+      {
+        inches,
+        tiltDeg: aim?.tiltDeg ?? 0,
+        azimuthDeg: aim?.azimuthDeg ?? 0,
+      }
+    );
+  }
+
+  function updateFalloutZone(rec: AnnotationRecord) {
+    const map = mapRef.current;
+    if (!map) return;
+    const pos = rec.marker.getLngLat();
+    const feature = createFalloutFeature(
+      falloutEllipseAt(pos.lng, pos.lat, rec.inches, rec.deviceKind, rec)
+    );
+    const source = map.getSource(rec.sourceId) as mapboxgl.GeoJSONSource;
+    if (source) {
+      source.setData({
+        type: "FeatureCollection",
+        features: [feature],
+      } as FeatureCollection);
+    }
+  }
+
+  // Arrow on the firework label pointing where an angled mortar is aimed.
+  // Marker elements stay screen-aligned, so the map bearing is subtracted.
+  function renderAimGlyph(rec: AnnotationRecord) {
+    const el = rec.marker.getElement();
+    let glyph = el.querySelector('[data-role="aim"]') as HTMLDivElement | null;
+    if (!isAngled(rec)) {
+      glyph?.remove();
+      return;
+    }
+    if (!glyph) {
+      glyph = document.createElement("div");
+      glyph.setAttribute("data-role", "aim");
+      glyph.className =
+        "absolute -top-2 -right-2 flex h-4 w-4 items-center justify-center rounded-full border border-border bg-background text-[10px] leading-none shadow";
+      glyph.textContent = "↑";
+      el.appendChild(glyph);
+    }
+    const bearing = mapRef.current?.getBearing() ?? 0;
+    glyph.style.transform = `rotate(${(rec.azimuthDeg ?? 0) - bearing}deg)`;
+    glyph.title = `Angled ${describeAim(rec)}`;
+  }
+
+  function updateAimGlyphs() {
+    for (const rec of Object.values(annotationsRef.current)) {
+      if (rec.type === "firework") renderAimGlyph(rec);
+    }
+  }
+
   function formatDistanceWithSpace(meters: number): string {
-    if (measurementUnit === "feet") {
+    if (measurementUnitRef.current === "feet") {
       return `${Math.round(metersToFeet(meters))} ft`;
     }
     return `${Math.round(meters)} m`;
   }
 
   function formatLengthNoSpace(meters: number): string {
-    if (measurementUnit === "feet") {
+    if (measurementUnitRef.current === "feet") {
       return `${Math.round(metersToFeet(meters))}ft`;
     }
     return `${Math.round(meters)}m`;
   }
 
+  // Reads the unit ref so polygon drag closures stay in the current unit
+  function rectangleDimsText(corners: [number, number][]): string {
+    const { widthMeters, heightMeters } = rectangleSizeMeters(corners);
+    return `${formatLengthNoSpace(widthMeters)} × ${formatLengthNoSpace(
+      heightMeters
+    )}`;
+  }
+
+  function polygonDimsText(ring: [number, number][]): string {
+    return `${formatArea(
+      polygonAreaSqMeters(ring),
+      measurementUnitRef.current
+    )} · ${ring.length} pts`;
+  }
+
+  function areaMeasurementText(ring: [number, number][]): string {
+    return formatLandArea(
+      polygonAreaSqMeters(ring),
+      measurementUnitRef.current
+    );
+  }
+
   function refreshAllMeasurementTexts() {
     const map = mapRef.current;
     if (!map) return;
     // Measurements
-    for (const key of Object.keys(measurementsRef.current)) {
-      const rec = measurementsRef.current[key]!;
-      const pts = rec.points;
-      const lat1 = (pts[0][1] * Math.PI) / 180;
-      const lat2 = (pts[1][1] * Math.PI) / 180;
-      const deltaLat = ((pts[1][1] - pts[0][1]) * Math.PI) / 180;
-      const deltaLng = ((pts[1][0] - pts[0][0]) * Math.PI) / 180;
-      const a =
-        Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-        Math.cos(lat1) *
-          Math.cos(lat2) *
-          Math.sin(deltaLng / 2) *
-          Math.sin(deltaLng / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      const distanceMeters = 6371000 * c;
-      const el = rec.labelMarker.getElement();
-      let distanceDiv = el.querySelector(
-        '[data-role="distance"]'
-      ) as HTMLDivElement | null;
-      if (!distanceDiv) {
-        distanceDiv = el.querySelector(
-          "div:nth-child(2)"
-        ) as HTMLDivElement | null;
-        if (distanceDiv) distanceDiv.setAttribute("data-role", "distance");
-      }
-      if (distanceDiv)
-        distanceDiv.textContent = formatDistanceWithSpace(distanceMeters);
+    for (const rec of Object.values(measurementsRef.current)) {
+      updateMeasurementLabels(rec);
+    }
+    // Area measurements
+    for (const rec of Object.values(areaMeasurementsRef.current)) {
+      const div = rec.labelMarker
+        .getElement()
+        .querySelector('[data-role="dims"]') as HTMLDivElement | null;
+      if (div) div.textContent = areaMeasurementText(rec.corners);
     }
     // Audience areas
     for (const key of Object.keys(audienceAreasRef.current)) {
       const rec = audienceAreasRef.current[key]!;
       const c = rec.corners;
-      const centerLat = (c[0][1] + c[2][1]) / 2;
-      const metersW =
-        Math.abs(c[1][0] - c[0][0]) *
-        111320 *
-        Math.cos((centerLat * Math.PI) / 180);
-      const metersH = Math.abs(c[3][1] - c[0][1]) * 110540;
       const root = rec.labelMarker.getElement();
       let div = root.querySelector(
         '[data-role="dims"]'
@@ -406,21 +898,14 @@ export function MapShell() {
         div = root.querySelector("div:nth-child(2)") as HTMLDivElement | null;
         if (div) div.setAttribute("data-role", "dims");
       }
-      if (div)
-        div.textContent = `${formatLengthNoSpace(
-          metersW
-        )} × ${formatLengthNoSpace(metersH)}`;
+      if (!div) continue;
+      div.textContent =
+        rec.shape === "polygon" ? polygonDimsText(c) : rectangleDimsText(c);
     }
     // Restricted areas
     for (const key of Object.keys(restrictedAreasRef.current)) {
       const rec = restrictedAreasRef.current[key]!;
       const c = rec.corners;
-      const centerLat = (c[0][1] + c[2][1]) / 2;
-      const metersW =
-        Math.abs(c[1][0] - c[0][0]) *
-        111320 *
-        Math.cos((centerLat * Math.PI) / 180);
-      const metersH = Math.abs(c[3][1] - c[0][1]) * 110540;
       const root = rec.labelMarker.getElement();
       let div = root.querySelector(
         '[data-role="dims"]'
@@ -429,10 +914,9 @@ export function MapShell() {
         div = root.querySelector("div:nth-child(2)") as HTMLDivElement | null;
         if (div) div.setAttribute("data-role", "dims");
       }
-      if (div)
-        div.textContent = `${formatLengthNoSpace(
-          metersW
-        )} × ${formatLengthNoSpace(metersH)}`;
+      if (!div) continue;
+      div.textContent =
+        rec.shape === "polygon" ? polygonDimsText(c) : rectangleDimsText(c);
     }
     // Firework radius labels and circles
     for (const key of Object.keys(annotationsRef.current)) {
@@ -443,514 +927,1686 @@ export function MapShell() {
         "div:nth-child(2)"
       ) as HTMLDivElement | null;
       if (!second) continue;
-      const radiusFeet = Math.round(rec.inches * safetyDistance);
+      const radiusFeet = Math.round(
+        falloutRadiusFeet(rec.inches, rec.deviceKind, rec.falloutFeet)
+      );
       const text =
         measurementUnit === "feet"
           ? `${radiusFeet} ft radius`
           : `${Math.round(feetToMeters(radiusFeet))} m radius`;
       second.textContent = text;
 
-      // Update circle geometry with new safety distance
-      const pos = rec.marker.getLngLat();
-      const radiusMeters = feetToMeters(rec.inches * safetyDistance);
-      const updatedCircle = createCircleFeature(pos.lng, pos.lat, radiusMeters);
-      const source = map.getSource(rec.sourceId) as mapboxgl.GeoJSONSource;
-      if (source) {
-        source.setData({
-          type: "FeatureCollection",
-          features: [updatedCircle],
-        } as FeatureCollection);
-      }
+      // Update fallout geometry with new safety distance and wind
+      updateFalloutZone(rec);
     }
+    notifyAnnotationsChanged();
   }
 
-  useEffect(() => {
-    // Recompute and rewrite all visible annotation label texts when unit or safety distance changes
-    if (!isMapReady) return;
-    try {
-      refreshAllMeasurementTexts();
-    } catch {}
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [measurementUnit, safetyDistance, isMapReady]);
+  // Coalesce edits (drags fire many events) into one recheck per frame
+  function notifyAnnotationsChanged() {
+    if (annotationSyncFrameRef.current !== null) return;
+    annotationSyncFrameRef.current = requestAnimationFrame(() => {
+      annotationSyncFrameRef.current = null;
+      syncSnappedMeasurements();
+      updateClearance();
+      refreshOutline();
+    });
+  }
 
-  const annotationPalette = useMemo<AnnotationItem[]>(
-    () => [
-      { key: "bore-1", label: '1" Bore', inches: 1, color: "#FF5126" },
-      { key: "bore-1-2", label: '1.2" Bore', inches: 1.2, color: "#FF5126" },
-      { key: "bore-1-5", label: '1.5" Bore', inches: 1.5, color: "#FF5126" },
-      {
-        key: "shell-1-75",
-        label: '1.75" Shells',
-        inches: 1.75,
-        color: "#FF5126",
-      },
-      { key: "shell-2", label: '2" Shells', inches: 2, color: "#FF5126" },
-      { key: "shell-2-5", label: '2.5" Shells', inches: 2.5, color: "#FF5126" },
-      { key: "shell-3", label: '3" Shells', inches: 3, color: "#FF5126" },
-      { key: "shell-4", label: '4" Shells', inches: 4, color: "#FF5126" },
-      { key: "shell-5", label: '5" Shells', inches: 5, color: "#FF5126" },
-      { key: "shell-6", label: '6" Shells', inches: 6, color: "#FF5126" },
-      { key: "shell-7", label: '7" Shells', inches: 7, color: "#FF5126" },
-      { key: "shell-8", label: '8" Shells', inches: 8, color: "#FF5126" },
-      { key: "shell-10", label: '10" Shells', inches: 10, color: "#FF5126" },
-      { key: "shell-12", label: '12" Shells', inches: 12, color: "#FF5126" },
-      { key: "shell-16", label: '16" Shells', inches: 16, color: "#FF5126" },
-      { key: "audience", label: "Audience", inches: 0, color: "#0077FF" },
-      { key: "measurement", label: "Measurement", inches: 0, color: "#00AA00" },
-      { key: "restricted", label: "Restricted", inches: 0, color: "#FF0000" },
-      { key: "custom", label: "Custom", inches: 0, color: "#FF5126" },
-    ],
-    []
-  );
+  function watchAnnotationMarker(marker: mapboxgl.Marker) {
+    marker.on("drag", notifyAnnotationsChanged);
+    marker.on("dragend", notifyAnnotationsChanged);
+    marker.on("dragend", recordHistory);
+  }
 
-  useEffect(() => {
-    if (!mapContainerRef.current || mapRef.current) return;
+  function setHistory(history: History<string>) {
+    historyRef.current = history;
+    setCanUndo(history.past.length > 0);
+    setCanRedo(history.future.length > 0);
+    setAutosaveRevision((r) => r + 1);
+  }
 
-    const map = new mapboxgl.Map({
-      container: mapContainerRef.current,
-      style: "mapbox://styles/mapbox/satellite-streets-v12",
-      center: [-98.5795, 39.8283],
-      zoom: 3,
-      pitch: 20,
-      bearing: 0,
-      antialias: true,
-      preserveDrawingBuffer: true,
-      attributionControl: false,
-    });
+  // Deferred so callers can record before finishing their edit; several
+  // calls in one task collapse into a single entry
+  function recordHistory() {
+    if (historyTimerRef.current !== null) return;
+    historyTimerRef.current = window.setTimeout(() => {
+      historyTimerRef.current = null;
+      const next = pushHistory(
+        historyRef.current,
+        JSON.stringify(serializeAnnotations())
+      );
+      if (next !== historyRef.current) setHistory(next);
+      // Not every edit goes through notifyAnnotationsChanged
+      refreshOutline();
+    }, 0);
+  }
 
-    mapRef.current = map;
+  function resetHistory() {
+    setHistory(createHistory(JSON.stringify(serializeAnnotations())));
+  }
 
-    map.on("load", () => {
-      try {
-        map.setFog({
-          color: "#0b1220",
-          "high-color": "#0b1220",
-          "space-color": "#000010",
-          "horizon-blend": 0.2,
-          "star-intensity": 0,
-        } as mapboxgl.FogSpecification);
-      } catch {}
-      setIsMapReady(true);
+  // Restores the annotations only, keeping the current camera and settings
+  function applyHistory(history: History<string> | null) {
+    const state = serializeState();
+    if (!history || history.present === null || !state) return;
+    restoreFromState({
+      ...state,
+      ...(JSON.parse(history.present) as AnnotationSnapshot),
     });
+    setHistory(history);
+  }
 
-    return () => {
-      map.remove();
-      mapRef.current = null;
-    };
-  }, []);
+  function undo() {
+    applyHistory(undoHistory(historyRef.current));
+  }
 
-  useEffect(() => {
-    if (!isMapReady || !mapRef.current) return;
-    // If a shared state hash is present, skip geolocation to avoid overriding the saved camera
+  function redo() {
+    applyHistory(redoHistory(historyRef.current));
+  }
+
+  // --- Multi-selection. Everything below only reads refs, so it is safe to
+  // call from marker handlers and map listeners.
+
+  function selectableIds(): string[] {
+    return [
+      ...Object.keys(annotationsRef.current),
+      ...Object.keys(audienceAreasRef.current),
+      ...Object.keys(restrictedAreasRef.current),
+      ...Object.keys(areaMeasurementsRef.current),
+      ...Object.keys(measurementsRef.current),
+    ];
+  }
+
+  // The marker dragged to move an annotation; it also carries the highlight
+  function selectionMarker(id: string): mapboxgl.Marker | undefined {
+    return (
+      annotationsRef.current[id]?.marker ??
+      (
+        audienceAreasRef.current[id] ??
+        restrictedAreasRef.current[id] ??
+        areaMeasurementsRef.current[id] ??
+        measurementsRef.current[id]
+      )?.labelMarker
+    );
+  }
+
+  // Solid outline when selected, dashed while hovered in the outline panel
+  function styleSelected(id: string) {
+    const selected = selectionRef.current.has(id);
+    const highlighted = selected || hoveredIdRef.current === id;
+    const el = selectionMarker(id)?.getElement();
+    if (el) {
+      el.style.outline = highlighted
+        ? `2px ${selected ? "solid" : "dashed"} ${SELECTION_COLOR}`
+        : "";
+      el.style.outlineOffset = highlighted ? "2px" : "";
+    }
+    const area =
+      audienceAreasRef.current[id] ??
+      restrictedAreasRef.current[id] ??
+      areaMeasurementsRef.current[id];
+    const map = mapRef.current;
     try {
-      const hasShared = new URLSearchParams(
-        (window.location.hash || "").replace(/^#?/, "")
-      ).has("s");
-      if (hasShared) return;
+      if (area && map?.getLayer(area.fillLayerId))
+        map.setPaintProperty(
+          area.fillLayerId,
+          "fill-opacity",
+          highlighted ? 0.3 : 0.1
+        );
     } catch {}
-    if (!("geolocation" in navigator)) return;
+  }
 
-    navigator.geolocation.getCurrentPosition(
-      (pos) => {
-        const { latitude, longitude } = pos.coords;
-        mapRef.current!.flyTo({
-          center: [longitude, latitude],
-          zoom: 16,
-          pitch: 30,
-          bearing: 0,
-          essential: true,
-        });
-      },
-      () => {},
-      { enableHighAccuracy: true, timeout: 10000 }
-    );
-  }, [isMapReady]);
+  function setSelection(ids: Iterable<string>) {
+    const previous = selectionRef.current;
+    selectionRef.current = new Set(ids);
+    for (const id of new Set([...previous, ...selectionRef.current]))
+      styleSelected(id);
+    setSelectionCount(selectionRef.current.size);
+  }
 
-  // Satellite-only: no style switching; Mapbox default fog/effects are used
+  function toggleSelection(id: string) {
+    const next = new Set(selectionRef.current);
+    if (!next.delete(id)) next.add(id);
+    setSelection(next);
+  }
 
-  useEffect(() => {
-    const controller = new AbortController();
-    const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
-    const query = searchQuery.trim();
-    if (!token || query.length < 2) {
-      setSuggestions([]);
-      setActiveIndex(-1);
-      return () => controller.abort();
-    }
+  function clearSelection() {
+    if (selectionRef.current.size > 0) setSelection([]);
+  }
 
-    if (!sessionTokenRef.current) {
-      sessionTokenRef.current = crypto.randomUUID();
+  function deselect(id: string) {
+    if (!selectionRef.current.has(id)) return;
+    setSelection([...selectionRef.current].filter((other) => other !== id));
+  }
+
+  function getSelectionGeometry(id: string): SelectionGeometry | null {
+    const rec = annotationsRef.current[id];
+    if (rec) {
+      const pos = rec.marker.getLngLat();
+      return {
+        id,
+        points: [[pos.lng, pos.lat]],
+        ...(isAngled(rec) ? { azimuthDeg: rec.azimuthDeg ?? 0 } : {}),
+      };
     }
+    const area = audienceAreasRef.current[id] ?? restrictedAreasRef.current[id];
+    if (area)
+      return {
+        id,
+        points: [...area.corners],
+        ...(area.shape === "polygon"
+          ? {}
+          : { rotationDeg: area.rotationDeg ?? 0 }),
+      };
+    const areaMeasurement = areaMeasurementsRef.current[id];
+    if (areaMeasurement) return { id, points: [...areaMeasurement.corners] };
+    const measurement = measurementsRef.current[id];
+    if (measurement) return { id, points: [...measurement.points] };
+    return null;
+  }
 
-    const run = async () => {
-      const sbUrl = new URL(
-        "https://api.mapbox.com/search/searchbox/v1/suggest"
+  function applySelectionGeometry(item: SelectionGeometry) {
+    const rec = annotationsRef.current[item.id];
+    if (rec) {
+      const position = item.points[0];
+      if (!position) return;
+      rec.marker.setLngLat(position);
+      if (rec.type === "firework") {
+        if (item.azimuthDeg !== undefined) {
+          rec.azimuthDeg = item.azimuthDeg;
+          renderAimGlyph(rec);
+        }
+        updateFalloutZone(rec);
+      } else {
+        syncCustomText(rec);
+      }
+      return;
+    }
+    const area =
+      audienceAreasRef.current[item.id] ??
+      restrictedAreasRef.current[item.id] ??
+      areaMeasurementsRef.current[item.id];
+    if (area) {
+      area.setCorners?.(item.points, item.rotationDeg);
+      return;
+    }
+    const measurement = measurementsRef.current[item.id];
+    if (measurement) {
+      measurement.points = item.points;
+      // Points only stay snapped to targets that move with them
+      measurement.snaps = measurement.snaps.map((snap) =>
+        snap && selectionRef.current.has(snap.id) ? snap : null
       );
-      sbUrl.searchParams.set("q", query);
-      sbUrl.searchParams.set("language", "en");
-      sbUrl.searchParams.set("limit", "5");
-      sbUrl.searchParams.set("session_token", sessionTokenRef.current!);
-      sbUrl.searchParams.set("access_token", token);
+      measurement.syncPoints?.();
+    }
+  }
 
-      try {
-        const res = await fetch(sbUrl.toString(), {
-          signal: controller.signal,
-        });
-        if (!res.ok) throw new Error("suggest failed");
-        const data = (await res.json()) as {
-          suggestions?: Array<{
-            mapbox_id: string;
-            name: string;
-            place_formatted?: string;
-          }>;
-        };
-        const items = (data.suggestions ?? []).map((s) => ({
-          id: s.mapbox_id,
-          text: s.place_formatted ? `${s.name} — ${s.place_formatted}` : s.name,
-        }));
-        setSuggestions(items);
-        setActiveIndex(items.length > 0 ? 0 : -1);
-        return;
-      } catch {}
+  function syncCustomText(rec: AnnotationRecord) {
+    const src = rec.textSourceId
+      ? (mapRef.current?.getSource(rec.textSourceId) as
+          | mapboxgl.GeoJSONSource
+          | undefined)
+      : undefined;
+    const pos = rec.marker.getLngLat();
+    src?.setData({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature" as const,
+          geometry: {
+            type: "Point" as const,
+            coordinates: [pos.lng, pos.lat],
+          },
+          properties: { text: rec.label },
+        },
+      ],
+    } as FeatureCollection);
+  }
 
-      const geoUrl = new URL(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(
-          query
-        )}.json`
+  // Shift-click toggles the annotation; dragging it while selected drags the
+  // rest of the selection along
+  function watchSelection(marker: mapboxgl.Marker, id: string) {
+    marker.getElement().addEventListener("click", (evt) => {
+      if (!evt.shiftKey) return;
+      // Keeps the click away from the map, so no edit dialog opens
+      evt.preventDefault();
+      evt.stopPropagation();
+      toggleSelection(id);
+    });
+    let group: { start: mapboxgl.LngLat; items: SelectionGeometry[] } | null =
+      null;
+    marker.on("dragstart", () => {
+      group = selectionRef.current.has(id)
+        ? {
+            start: marker.getLngLat(),
+            items: [...selectionRef.current]
+              .filter((other) => other !== id)
+              .map(getSelectionGeometry)
+              .filter((item): item is SelectionGeometry => item !== null),
+          }
+        : null;
+    });
+    marker.on("drag", () => {
+      if (!group) return;
+      const cur = marker.getLngLat();
+      const dLng = cur.lng - group.start.lng;
+      const dLat = cur.lat - group.start.lat;
+      group.items.forEach((item) =>
+        applySelectionGeometry(translateGeometry(item, dLng, dLat))
       );
-      geoUrl.searchParams.set("autocomplete", "true");
-      geoUrl.searchParams.set("language", "en");
-      geoUrl.searchParams.set("limit", "5");
-      geoUrl.searchParams.set(
-        "types",
-        "poi,address,place,locality,neighborhood"
-      );
-      geoUrl.searchParams.set("access_token", token);
-      try {
-        const res = await fetch(geoUrl.toString(), {
-          signal: controller.signal,
-        });
-        if (!res.ok) return;
-        const data = (await res.json()) as {
-          features?: Array<{
-            id: string;
-            place_name: string;
-            center: [number, number];
-          }>;
-        };
-        const items = (data.features ?? []).map((f) => ({
-          id: f.id,
-          text: f.place_name,
-          center: f.center,
-        }));
-        setSuggestions(items);
-        setActiveIndex(items.length > 0 ? 0 : -1);
-      } catch {}
-    };
+      notifyAnnotationsChanged();
+    });
+    marker.on("dragend", () => {
+      group = null;
+    });
+    styleSelected(id);
+  }
 
-    const id = setTimeout(() => void run(), 200);
-    return () => {
-      controller.abort();
-      clearTimeout(id);
-    };
-  }, [searchQuery]);
+  // Clockwise about the centre of the selected items
+  function rotateSelection(deg: number) {
+    const items = [...selectionRef.current]
+      .map(getSelectionGeometry)
+      .filter((item): item is SelectionGeometry => item !== null);
+    if (items.length === 0 || !deg) return;
+    const center = selectionCentroid(items);
+    items.forEach((item) =>
+      applySelectionGeometry(rotateGeometry(item, center, deg))
+    );
+    notifyAnnotationsChanged();
+    recordHistory();
+  }
 
-  async function handleSubmitOrSelect(idOrQuery?: string) {
-    const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
-    const query =
-      typeof idOrQuery === "string" ? idOrQuery : searchQuery.trim();
-    if (!token || !query) return;
+  function deleteSelection() {
+    const ids = [...selectionRef.current];
+    clearSelection();
+    ids.forEach(removeAnnotation);
+  }
 
-    let lngLat: [number, number] | null = null;
+  function removeAnnotation(id: string) {
+    const rec = annotationsRef.current[id];
+    if (rec?.type === "firework") removeFireworkAnnotation(id);
+    else if (rec) removeCustomAnnotation(id);
+    else if (audienceAreasRef.current[id]) removeAudienceArea(id);
+    else if (restrictedAreasRef.current[id]) removeRestrictedArea(id);
+    else if (areaMeasurementsRef.current[id]) removeAreaMeasurement(id);
+    else if (measurementsRef.current[id]) removeMeasurement(id);
+  }
 
-    const fromSuggestion = suggestions.find((s) => s.id === idOrQuery);
-    if (fromSuggestion) {
-      if (!fromSuggestion.center && sessionTokenRef.current) {
-        try {
-          const rUrl = new URL(
-            `https://api.mapbox.com/search/searchbox/v1/retrieve/${fromSuggestion.id}`
-          );
-          rUrl.searchParams.set("session_token", sessionTokenRef.current);
-          rUrl.searchParams.set("access_token", token);
-          const res = await fetch(rUrl.toString());
-          if (res.ok) {
-            const data = (await res.json()) as {
-              features?: Array<{
-                geometry?: { coordinates?: [number, number] };
-              }>;
-            };
-            const coords = data.features?.[0]?.geometry?.coordinates;
-            if (coords) lngLat = coords;
-          }
-        } catch {}
+  // --- Outline panel
+
+  function buildOutline(): OutlineEntry[] {
+    const hidden = hiddenIdsRef.current;
+    const entries: OutlineEntry[] = [];
+    for (const rec of Object.values(annotationsRef.current)) {
+      if (rec.type === "firework") {
+        const radius = falloutRadiusText(
+          rec.inches,
+          rec.deviceKind,
+          rec.falloutFeet
+        );
+        const quantity = rec.quantity ? ` ×${rec.quantity}` : "";
+        entries.push({
+          id: rec.id,
+          kind: "firework",
+          number: rec.number,
+          label: rec.label,
+          detail: `${rec.inches}"${quantity} · ${radius} radius`,
+          color: rec.color,
+          hidden: hidden.has(rec.id),
+        });
+      } else {
+        entries.push({
+          id: rec.id,
+          kind: "custom",
+          number: rec.number,
+          label: rec.label || "Custom",
+          detail: rec.description,
+          color: rec.color,
+          hidden: hidden.has(rec.id),
+        });
       }
-      if (!lngLat && fromSuggestion.center) {
-        lngLat = fromSuggestion.center;
+    }
+    for (const kind of ["audience", "restricted"] as const) {
+      const areasRef =
+        kind === "audience" ? audienceAreasRef : restrictedAreasRef;
+      for (const rec of Object.values(areasRef.current)) {
+        entries.push({
+          id: rec.id,
+          kind,
+          number: rec.number,
+          label: rec.label || AREA_STYLES[kind].title,
+          detail:
+            rec.shape === "polygon"
+              ? polygonDimsText(rec.corners)
+              : rectangleDimsText(rec.corners),
+          color: AREA_STYLES[kind].color,
+          hidden: hidden.has(rec.id),
+        });
       }
     }
-
-    if (!lngLat) {
-      const url = new URL(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(
-          query
-        )}.json`
-      );
-      url.searchParams.set("access_token", token);
-      url.searchParams.set("limit", "1");
-      try {
-        const res = await fetch(url.toString());
-        if (res.ok) {
-          const data = (await res.json()) as {
-            features?: Array<{ center?: [number, number] }>;
-          };
-          const center = data.features?.[0]?.center;
-          if (center) lngLat = center as [number, number];
-        }
-      } catch {}
+    for (const rec of Object.values(measurementsRef.current)) {
+      entries.push({
+        id: rec.id,
+        kind: "measurement",
+        number: rec.number,
+        label: rec.label || "Measurement",
+        detail: formatDistanceWithSpace(polylineLengthMeters(rec.points)),
+        color: MEASUREMENT_COLOR,
+        hidden: hidden.has(rec.id),
+      });
     }
-
-    if (lngLat && mapRef.current) {
-      mapRef.current.flyTo({
-        center: lngLat,
-        zoom: 16,
-        pitch: 30,
-        bearing: 0,
-        essential: true,
+    for (const rec of Object.values(areaMeasurementsRef.current)) {
+      entries.push({
+        id: rec.id,
+        kind: "area",
+        number: rec.number,
+        label: rec.label || AREA_STYLES.area.title,
+        detail: areaMeasurementText(rec.corners),
+        color: AREA_STYLES.area.color,
+        hidden: hidden.has(rec.id),
       });
-      // do not leave a pin for search results
-      sessionTokenRef.current = crypto.randomUUID();
-      setSuggestions([]);
-      setActiveIndex(-1);
-      setSearchQuery("");
     }
+    return entries;
   }
 
-  // --- Share/Load helpers ---
-  interface SerializedFirework {
-    id: string;
-    number: number;
-    inches: number;
-    label: string;
-    color: string;
-    position: [number, number]; // [lng, lat]
+  // Only re-renders the sidebar when a listed value changed, not on every
+  // drag frame
+  function refreshOutline() {
+    const entries = buildOutline();
+    const key = JSON.stringify(entries);
+    if (key === outlineKeyRef.current) return;
+    outlineKeyRef.current = key;
+    setOutline(entries);
   }
 
-  interface SerializedCustom {
-    id: string;
-    number: number;
-    label: string;
-    color: string;
-    position: [number, number]; // [lng, lat]
-    emoji?: string;
-    description?: string;
+  function focusAnnotation(id: string) {
+    const map = mapRef.current;
+    const item = getSelectionGeometry(id);
+    if (!map || !item) return;
+    map.flyTo({
+      center: selectionCentroid([item]),
+      zoom: Math.max(map.getZoom(), 17),
+      essential: true,
+    });
   }
 
-  interface SerializedAudience {
-    id: string;
-    number: number;
-    corners: [number, number][]; // 4 corners [lng, lat]
+  function highlightAnnotation(id: string | null) {
+    const previous = hoveredIdRef.current;
+    hoveredIdRef.current = id;
+    if (previous) styleSelected(previous);
+    if (id) styleSelected(id);
   }
 
-  interface SerializedMeasurement {
-    id: string;
-    number: number;
-    points: [number, number][]; // 2 points [lng, lat]
+  // Firework and custom names are required; areas and measurements fall back
+  // to their default title when cleared
+  function renameAnnotation(id: string, label: string) {
+    const rec = annotationsRef.current[id];
+    if (rec) {
+      if (!label || label === rec.label) return;
+      rec.label = label;
+      if (rec.type === "firework") {
+        const title = rec.marker.getElement().firstElementChild;
+        if (title) title.textContent = label;
+      } else {
+        syncCustomText(rec);
+      }
+    } else {
+      const other =
+        audienceAreasRef.current[id] ??
+        restrictedAreasRef.current[id] ??
+        areaMeasurementsRef.current[id] ??
+        measurementsRef.current[id];
+      if (!other || (other.label ?? "") === label) return;
+      other.label = label || undefined;
+      const title = other.labelMarker
+        .getElement()
+        .querySelector('[data-role="title"]');
+      if (title)
+        title.textContent =
+          label ||
+          (other.type === "measurement"
+            ? "Measurement"
+            : AREA_STYLES[other.type as PolygonKind].title);
+    }
+    refreshOutline();
+    recordHistory();
   }
 
-  interface SerializedRestricted {
-    id: string;
-    number: number;
-    corners: [number, number][]; // 4 corners [lng, lat]
+  // Hides the annotation on the map only; it is still saved and checked
+  function setAnnotationHidden(id: string, hidden: boolean) {
+    if (hidden) hiddenIdsRef.current.add(id);
+    else hiddenIdsRef.current.delete(id);
+    applyVisibility(id);
+    refreshOutline();
   }
 
-  interface SerializedState {
-    camera: {
-      center: [number, number];
-      zoom: number;
-      bearing: number;
-      pitch: number;
-    };
-    fireworks: SerializedFirework[];
-    custom: SerializedCustom[];
-    audiences: SerializedAudience[];
-    measurements: SerializedMeasurement[];
-    restricted: SerializedRestricted[];
-    showHeight: boolean;
-    measurementUnit?: "feet" | "meters";
-    projectName?: string;
-    safetyDistance?: 70 | 100;
-    v: 1;
+  function applyVisibility(id: string) {
+    const map = mapRef.current;
+    if (!map) return;
+    const hidden = hiddenIdsRef.current.has(id);
+    const markers: mapboxgl.Marker[] = [];
+    const layers: string[] = [];
+    const rec = annotationsRef.current[id];
+    if (rec) {
+      markers.push(rec.marker);
+      layers.push(rec.fillLayerId, rec.lineLayerId);
+      if (rec.extrusionLayerId) layers.push(rec.extrusionLayerId);
+    }
+    const area =
+      audienceAreasRef.current[id] ??
+      restrictedAreasRef.current[id] ??
+      areaMeasurementsRef.current[id];
+    if (area) {
+      markers.push(
+        area.labelMarker,
+        ...area.cornerMarkers,
+        ...(area.handleMarkers ?? [])
+      );
+      layers.push(area.fillLayerId, area.lineLayerId);
+    }
+    const measurement = measurementsRef.current[id];
+    if (measurement) {
+      markers.push(
+        measurement.labelMarker,
+        ...measurement.pointMarkers,
+        ...measurement.segmentMarkers
+      );
+      layers.push(measurement.lineLayerId);
+    }
+    markers.forEach(
+      (m) => (m.getElement().style.display = hidden ? "none" : "")
+    );
+    try {
+      for (const layer of new Set(layers)) {
+        if (map.getLayer(layer))
+          map.setLayoutProperty(
+            layer,
+            "visibility",
+            hidden ? "none" : "visible"
+          );
+      }
+    } catch {}
   }
 
-  function base64UrlEncode(bytes: Uint8Array) {
-    let binary = "";
-    for (let i = 0; i < bytes.length; i++)
-      binary += String.fromCharCode(bytes[i]!);
-    const b64 = btoa(binary);
-    return b64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+  // --- Copy, paste and duplicate. Copies travel through the system
+  // clipboard as JSON, so they can be pasted into another tab.
+
+  function selectedAnnotations(): AnnotationSnapshot {
+    const selected = selectionRef.current;
+    const all = serializeAnnotations();
+    return {
+      fireworks: all.fireworks.filter((fw) => selected.has(fw.id)),
+      custom: all.custom.filter((c) => selected.has(c.id)),
+      audiences: all.audiences.filter((a) => selected.has(a.id)),
+      measurements: all.measurements.filter((m) => selected.has(m.id)),
+      areas: (all.areas ?? []).filter((a) => selected.has(a.id)),
+      restricted: all.restricted.filter((r) => selected.has(r.id)),
+    };
   }
 
-  function base64UrlDecode(input: string): Uint8Array {
-    const b64 =
-      input.replace(/-/g, "+").replace(/_/g, "/") +
-      "===".slice((input.length + 3) % 4);
-    const binary = atob(b64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-    return bytes;
+  function annotationsToClipboardText(snapshot: AnnotationSnapshot) {
+    return JSON.stringify({ pyroplot: CLIPBOARD_TYPE, ...snapshot });
   }
 
-  async function gzipCompress(data: Uint8Array): Promise<Uint8Array> {
-    if ("CompressionStream" in window) {
-      const cs = new CompressionStream("gzip");
-      const ab = data.buffer.slice(
-        data.byteOffset,
-        data.byteOffset + data.byteLength
-      ) as ArrayBuffer;
-      const stream = new Response(new Blob([ab])).body as ReadableStream;
-      const writer = stream.pipeThrough(cs).getReader();
-      const chunks: Uint8Array[] = [];
-      // Collect all chunks
-      while (true) {
-        const { value, done } = await writer.read();
-        if (done) break;
-        if (value) chunks.push(value);
-      }
-      const total = chunks.reduce((n, c) => n + c.length, 0);
-      const out = new Uint8Array(total);
-      let off = 0;
-      for (const c of chunks) {
-        out.set(c, off);
-        off += c.length;
-      }
-      return out;
+  // Null for anything that is not a Pyro Plot copy
+  function annotationsFromClipboardText(
+    text: string
+  ): AnnotationSnapshot | null {
+    let data: Partial<AnnotationSnapshot> & { pyroplot?: unknown };
+    try {
+      data = JSON.parse(text) as typeof data;
+    } catch {
+      return null;
     }
-    return data; // Fallback: no compression
+    if (!data || data.pyroplot !== CLIPBOARD_TYPE) return null;
+    // Clipboards from other versions, or edited by hand, get the same
+    // checks as a project file; items that fail them are left out
+    const list = <T,>(collection: AnnotationCollection) => {
+      const value: unknown = data[collection];
+      return (Array.isArray(value) ? value : []).filter((item) =>
+        isValidAnnotation(collection, item)
+      ) as T[];
+    };
+    return {
+      fireworks: list("fireworks"),
+      custom: list("custom"),
+      audiences: list("audiences"),
+      measurements: list("measurements"),
+      areas: list("areas"),
+      restricted: list("restricted"),
+    };
   }
 
-  async function gzipDecompress(data: Uint8Array): Promise<Uint8Array> {
-    if ("DecompressionStream" in window) {
-      const ds = new DecompressionStream("gzip");
-      const ab = data.buffer.slice(
-        data.byteOffset,
-        data.byteOffset + data.byteLength
-      ) as ArrayBuffer;
-      const stream = new Response(new Blob([ab])).body as ReadableStream;
-      const writer = stream.pipeThrough(ds).getReader();
-      const chunks: Uint8Array[] = [];
-      while (true) {
-        const { value, done } = await writer.read();
-        if (done) break;
-        if (value) chunks.push(value);
-      }
-      const total = chunks.reduce((n, c) => n + c.length, 0);
-      const out = new Uint8Array(total);
-      let off = 0;
-      for (const c of chunks) {
-        out.set(c, off);
-        off += c.length;
-      }
-      return out;
-    }
-    return data; // Fallback: already plain
+  function snapshotGeometry(snapshot: AnnotationSnapshot): SelectionGeometry[] {
+    return [
+      ...snapshot.fireworks.map((fw) => ({ id: fw.id, points: [fw.position] })),
+      ...snapshot.custom.map((c) => ({ id: c.id, points: [c.position] })),
+      ...snapshot.audiences.map((a) => ({ id: a.id, points: a.corners })),
+      ...snapshot.measurements.map((m) => ({ id: m.id, points: m.points })),
+      ...(snapshot.areas ?? []).map((a) => ({ id: a.id, points: a.vertices })),
+      ...snapshot.restricted.map((r) => ({ id: r.id, points: r.corners })),
+    ];
   }
 
-  async function encodeStateToHash(): Promise<string> {
-    if (!mapRef.current) return "";
-    const map = mapRef.current;
-    const camera = {
-      center: [map.getCenter().lng, map.getCenter().lat] as [number, number],
-      zoom: map.getZoom(),
-      bearing: map.getBearing(),
-      pitch: map.getPitch(),
+  // Adds copies with fresh ids and numbers, moved by an offset, and selects
+  // them. Measurement snaps follow copied targets and are dropped otherwise.
+  function insertAnnotationCopies(
+    snapshot: AnnotationSnapshot,
+    dLng: number,
+    dLat: number
+  ) {
+    const newIds: Record<string, string> = {};
+    const fresh = (id: string, prefix: string) =>
+      (newIds[id] = `${prefix}-${Date.now()}-${Math.random()
+        .toString(36)
+        .slice(2)}`);
+    const move = ([lng, lat]: [number, number]): [number, number] => [
+      lng + dLng,
+      lat + dLat,
+    ];
+    // Fireworks and custom markers share numbering and fill gaps first
+    const used = new Set(
+      Object.values(annotationsRef.current).map((rec) => rec.number)
+    );
+    const nextNumber = () => {
+      let n = 1;
+      while (used.has(n)) n++;
+      used.add(n);
+      return n;
     };
-    const fireworks: SerializedFirework[] = Object.values(
-      annotationsRef.current
-    )
-      .filter((rec) => rec.type === "firework")
-      .map((rec) => {
-        const pos = rec.marker.getLngLat();
-        return {
-          id: rec.id,
-          number: rec.number,
-          inches: rec.inches,
-          label: rec.label,
-          color: rec.color,
-          position: [pos.lng, pos.lat],
-        };
+    const copies: AnnotationSnapshot = {
+      fireworks: snapshot.fireworks.map((fw) => ({
+        ...fw,
+        id: fresh(fw.id, "circle"),
+        number: nextNumber(),
+        position: move(fw.position),
+      })),
+      custom: snapshot.custom.map((c) => ({
+        ...c,
+        id: fresh(c.id, "custom"),
+        number: nextNumber(),
+        position: move(c.position),
+      })),
+      audiences: snapshot.audiences.map((a) => ({
+        ...a,
+        id: fresh(a.id, AREA_STYLES.audience.idPrefix),
+        number: ++audienceCounterRef.current,
+        corners: a.corners.map(move),
+      })),
+      areas: (snapshot.areas ?? []).map((a) => ({
+        ...a,
+        id: fresh(a.id, AREA_STYLES.area.idPrefix),
+        number: ++areaCounterRef.current,
+        vertices: a.vertices.map(move),
+      })),
+      restricted: snapshot.restricted.map((r) => ({
+        ...r,
+        id: fresh(r.id, AREA_STYLES.restricted.idPrefix),
+        number: ++restrictedCounterRef.current,
+        corners: r.corners.map(move),
+      })),
+      measurements: [],
+    };
+    copies.measurements = snapshot.measurements.map((m) => {
+      const snaps = m.snaps?.map((snap) => {
+        const id = snap ? newIds[snap.id] : undefined;
+        return snap && id ? { ...snap, id } : null;
       });
+      return {
+        ...m,
+        id: fresh(m.id, "meas"),
+        number: ++measurementCounterRef.current,
+        points: m.points.map(move),
+        snaps: snaps?.some(Boolean) ? snaps : undefined,
+      };
+    });
+    addAnnotations(copies, showHeight);
+    setSelection(Object.values(newIds));
+    notifyAnnotationsChanged();
+    recordHistory();
+  }
 
-    const custom: SerializedCustom[] = Object.values(annotationsRef.current)
-      .filter((rec) => rec.type === "custom")
+  // Pastes centred on the cursor, or on the map centre when it is elsewhere
+  function pasteAnnotations(snapshot: AnnotationSnapshot) {
+    const map = mapRef.current;
+    const items = snapshotGeometry(snapshot);
+    if (!map || items.length === 0) return;
+    const center = selectionCentroid(items);
+    const target = pasteTargetRef.current ?? [
+      map.getCenter().lng,
+      map.getCenter().lat,
+    ];
+    insertAnnotationCopies(
+      snapshot,
+      target[0] - center[0],
+      target[1] - center[1]
+    );
+  }
+
+  // Copies land 30ft south-east of the originals
+  function duplicateSelection() {
+    const snapshot = selectedAnnotations();
+    const items = snapshotGeometry(snapshot);
+    if (items.length === 0) return;
+    const centroid = selectionCentroid(items);
+    const offset = feetToMeters(DUPLICATE_OFFSET_FEET);
+    const [lng, lat] = fromLocalMeters(centroid, offset, -offset);
+    insertAnnotationCopies(snapshot, lng - centroid[0], lat - centroid[1]);
+  }
+
+  function copySelection() {
+    const snapshot = selectedAnnotations();
+    if (snapshotGeometry(snapshot).length === 0) return;
+    void navigator.clipboard
+      ?.writeText(annotationsToClipboardText(snapshot))
+      .catch(() => {});
+  }
+
+  // Only reads refs so it stays correct when called from stale marker closures
+  function updateClearance() {
+    const map = mapRef.current;
+    if (!map) return;
+    const zones: ClearanceZone[] = Object.values(annotationsRef.current)
+      .filter((rec) => rec.type === "firework")
       .map((rec) => {
         const pos = rec.marker.getLngLat();
+        const ellipse = falloutEllipseAt(
+          pos.lng,
+          pos.lat,
+          rec.inches,
+          rec.deviceKind,
+          rec
+        );
         return {
           id: rec.id,
           number: rec.number,
           label: rec.label,
-          color: rec.color,
-          position: [pos.lng, pos.lat],
-          emoji: rec.emoji,
-          description: rec.description,
+          center: [pos.lng, pos.lat],
+          radiusMeters: ellipse.radiusMeters,
+          ring: falloutRing(ellipse),
         };
       });
-    const audiences: SerializedAudience[] = Object.values(
-      audienceAreasRef.current
-    ).map((rec) => ({
-      id: rec.id,
-      number: rec.number,
-      corners: rec.corners,
-    }));
-    const measurements: SerializedMeasurement[] = Object.values(
-      measurementsRef.current
-    ).map((rec) => ({
-      id: rec.id,
-      number: rec.number,
-      points: rec.points,
-    }));
-    const restricted: SerializedRestricted[] = Object.values(
-      restrictedAreasRef.current
-    ).map((rec) => ({
-      id: rec.id,
-      number: rec.number,
-      corners: rec.corners,
-    }));
-    const state: SerializedState = {
-      camera,
-      fireworks,
-      custom,
-      audiences,
-      measurements,
-      restricted,
-      showHeight,
-      measurementUnit,
-      projectName,
-      safetyDistance,
-      v: 1,
-    };
-    const json = JSON.stringify(state);
-    const raw = new TextEncoder().encode(json);
-    const gz = await gzipCompress(raw);
-    const data = base64UrlEncode(gz);
-    return `s=${data}`;
-  }
+    const areas: ClearanceArea[] = [
+      ...Object.values(audienceAreasRef.current).map((rec) => ({
+        id: rec.id,
+        number: rec.number,
+        kind: "audience" as const,
+        corners: rec.corners,
+      })),
+      ...Object.values(restrictedAreasRef.current).map((rec) => ({
+        id: rec.id,
+        number: rec.number,
+        kind: "restricted" as const,
+        corners: rec.corners,
+      })),
+    ];
+    updateAutoDimensions(zones, areas);
+    const violations = findClearanceViolations(zones, areas);
+    const offending = new Set<string>();
+    for (const v of violations) {
+      offending.add(v.fireworkId);
+      offending.add(v.areaId);
+    }
 
-  async function decodeStateFromHash(
-    hash: string
-  ): Promise<SerializedState | null> {
+    // Highlight offending fallout circles and areas
     try {
-      const params = new URLSearchParams(hash.replace(/^#?/, ""));
-      const enc = params.get("s");
-      if (!enc) return null;
-      const gz = base64UrlDecode(enc);
-      const raw = await gzipDecompress(gz);
-      const json = new TextDecoder().decode(raw);
-      const parsed = JSON.parse(json) as SerializedState;
-      if (!parsed || parsed.v !== 1) return null;
-      return parsed;
-    } catch {
-      return null;
+      for (const rec of Object.values(annotationsRef.current)) {
+        if (rec.type !== "firework" || !map.getLayer(rec.lineLayerId)) continue;
+        const hit = offending.has(rec.id);
+        map.setPaintProperty(
+          rec.lineLayerId,
+          "line-color",
+          hit ? VIOLATION_COLOR : rec.color
+        );
+        map.setPaintProperty(rec.lineLayerId, "line-width", hit ? 4 : 2);
+      }
+      for (const rec of [
+        ...Object.values(audienceAreasRef.current),
+        ...Object.values(restrictedAreasRef.current),
+      ]) {
+        if (!map.getLayer(rec.lineLayerId)) continue;
+        const hit = offending.has(rec.id);
+        map.setPaintProperty(rec.lineLayerId, "line-width", hit ? 4 : 2);
+        map.setPaintProperty(
+          rec.lineLayerId,
+          "line-dasharray",
+          hit ? [2, 1] : undefined
+        );
+      }
+    } catch {}
+    setClearanceViolations(violations);
+  }
+
+  // Dimension lines from each fallout edge to the closest point of nearby
+  // audience/restricted areas, labelled with the margin (negative = conflict)
+  function updateAutoDimensions(
+    zones: ClearanceZone[],
+    areas: ClearanceArea[]
+  ) {
+    const src = mapRef.current?.getSource(AUTO_DIMENSION_SOURCE) as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    if (!src) return;
+    const features: Feature[] = [];
+    if (showAutoDimensionsRef.current) {
+      for (const m of measureClearances(zones, areas)) {
+        if (!m.areaPoint || !m.edgePoint) continue;
+        if (m.actualMeters > m.requiredMeters * AUTO_DIMENSION_RANGE) continue;
+        const margin = m.actualMeters - m.requiredMeters;
+        features.push({
+          type: "Feature",
+          geometry: {
+            type: "LineString",
+            coordinates: [m.edgePoint, m.areaPoint],
+          },
+          properties: {
+            passes: m.passes,
+            text: `${margin < 0 ? "−" : "+"}${formatDistanceWithSpace(
+              Math.abs(margin)
+            )}`,
+          },
+        } as Feature);
+      }
     }
+    src.setData({ type: "FeatureCollection", features });
+  }
+
+  function focusClearanceViolation(violation: ClearanceViolation) {
+    const rec = annotationsRef.current[violation.fireworkId];
+    if (!rec || !mapRef.current) return;
+    const pos = rec.marker.getLngLat();
+    mapRef.current.flyTo({
+      center: [pos.lng, pos.lat],
+      zoom: Math.max(mapRef.current.getZoom(), 17),
+      essential: true,
+    });
+  }
+
+  useEffect(() => {
+    // Recompute and rewrite all visible annotation label texts when unit or safety distance changes
+    if (!isMapReady) return;
+    try {
+      refreshAllMeasurementTexts();
+    } catch {}
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [measurementUnit, safetyRuleSet, windSettings, isMapReady]);
+
+  // Product catalog behind the palette; loaded after mount so the server
+  // render matches the first client render
+  const [catalog, setCatalog] = useState<CatalogProduct[]>(DEFAULT_CATALOG);
+  const [catalogOpen, setCatalogOpen] = useState(false);
+  useEffect(() => {
+    setCatalog(loadCatalog());
+  }, []);
+
+  const handleSaveCatalog = (products: CatalogProduct[]) => {
+    setCatalog(products);
+    saveCatalog(products);
+    setCatalogOpen(false);
+  };
+
+  // Saved projects in local storage; the open one is saved with each autosave
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectsOpen, setProjectsOpen] = useState(false);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [projectsError, setProjectsError] = useState<string | null>(null);
+  const [planLoadErrors, setPlanLoadErrors] = useState<PlanLoadErrors | null>(
+    null
+  );
+  useEffect(() => {
+    setProjects(loadProjects());
+  }, []);
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    const map = new mapboxgl.Map({
+      container: mapContainerRef.current,
+      style: "mapbox://styles/mapbox/satellite-streets-v12",
+      center: [-98.5795, 39.8283],
+      zoom: 3,
+      pitch: 20,
+      bearing: 0,
+      antialias: true,
+      preserveDrawingBuffer: true,
+      attributionControl: false,
+    });
+
+    mapRef.current = map;
+
+    map.on("load", () => {
+      try {
+        map.setFog({
+          color: "#0b1220",
+          "high-color": "#0b1220",
+          "space-color": "#000010",
+          "horizon-blend": 0.2,
+          "star-intensity": 0,
+        } as mapboxgl.FogSpecification);
+      } catch {}
+      setIsMapReady(true);
+    });
+    // Aim arrows are drawn in screen space
+    map.on("rotate", () => updateAimGlyphs());
+    // Autosave keeps the view too
+    map.on("moveend", () => setAutosaveRevision((r) => r + 1));
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+    // updateAimGlyphs only reads refs, so the first render's copy is fine
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!isMapReady || !mapRef.current) return;
+    // If a shared state hash is present, skip geolocation to avoid overriding the saved camera
+    try {
+      const hasShared = new URLSearchParams(
+        (window.location.hash || "").replace(/^#?/, "")
+      ).has("s");
+      if (hasShared) return;
+    } catch {}
+    if (!("geolocation" in navigator)) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        const { latitude, longitude } = pos.coords;
+        mapRef.current!.flyTo({
+          center: [longitude, latitude],
+          zoom: 16,
+          pitch: 30,
+          bearing: 0,
+          essential: true,
+        });
+      },
+      () => {},
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }, [isMapReady]);
+
+  // Satellite-only: no style switching; Mapbox default fog/effects are used
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+    const query = searchQuery.trim();
+    if (!token || query.length < 2) {
+      setSuggestions([]);
+      setActiveIndex(-1);
+      return () => controller.abort();
+    }
+
+    if (!sessionTokenRef.current) {
+      sessionTokenRef.current = crypto.randomUUID();
+    }
+
+    const run = async () => {
+      const sbUrl = new URL(
+        "https://api.mapbox.com/search/searchbox/v1/suggest"
+      );
+      sbUrl.searchParams.set("q", query);
+      sbUrl.searchParams.set("language", "en");
+      sbUrl.searchParams.set("limit", "5");
+      sbUrl.searchParams.set("session_token", sessionTokenRef.current!);
+      sbUrl.searchParams.set("access_token", token);
+
+      try {
+        const res = await fetch(sbUrl.toString(), {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error("suggest failed");
+        const data = (await res.json()) as {
+          suggestions?: Array<{
+            mapbox_id: string;
+            name: string;
+            place_formatted?: string;
+          }>;
+        };
+        const items = (data.suggestions ?? []).map((s) => ({
+          id: s.mapbox_id,
+          text: s.place_formatted ? `${s.name} — ${s.place_formatted}` : s.name,
+        }));
+        setSuggestions(items);
+        setActiveIndex(items.length > 0 ? 0 : -1);
+        return;
+      } catch {}
+
+      const geoUrl = new URL(
+        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(
+          query
+        )}.json`
+      );
+      geoUrl.searchParams.set("autocomplete", "true");
+      geoUrl.searchParams.set("language", "en");
+      geoUrl.searchParams.set("limit", "5");
+      geoUrl.searchParams.set(
+        "types",
+        "poi,address,place,locality,neighborhood"
+      );
+      geoUrl.searchParams.set("access_token", token);
+      try {
+        const res = await fetch(geoUrl.toString(), {
+          signal: controller.signal,
+        });
+        if (!res.ok) return;
+        const data = (await res.json()) as {
+          features?: Array<{
+            id: string;
+            place_name: string;
+            center: [number, number];
+          }>;
+        };
+        const items = (data.features ?? []).map((f) => ({
+          id: f.id,
+          text: f.place_name,
+          center: f.center,
+        }));
+        setSuggestions(items);
+        setActiveIndex(items.length > 0 ? 0 : -1);
+      } catch {}
+    };
+
+    const id = setTimeout(() => void run(), 200);
+    return () => {
+      controller.abort();
+      clearTimeout(id);
+    };
+  }, [searchQuery]);
+
+  async function handleSubmitOrSelect(idOrQuery?: string) {
+    const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+    const query =
+      typeof idOrQuery === "string" ? idOrQuery : searchQuery.trim();
+    if (!token || !query) return;
+
+    let lngLat: [number, number] | null = null;
+
+    const fromSuggestion = suggestions.find((s) => s.id === idOrQuery);
+    if (fromSuggestion) {
+      if (!fromSuggestion.center && sessionTokenRef.current) {
+        try {
+          const rUrl = new URL(
+            `https://api.mapbox.com/search/searchbox/v1/retrieve/${fromSuggestion.id}`
+          );
+          rUrl.searchParams.set("session_token", sessionTokenRef.current);
+          rUrl.searchParams.set("access_token", token);
+          const res = await fetch(rUrl.toString());
+          if (res.ok) {
+            const data = (await res.json()) as {
+              features?: Array<{
+                geometry?: { coordinates?: [number, number] };
+              }>;
+            };
+            const coords = data.features?.[0]?.geometry?.coordinates;
+            if (coords) lngLat = coords;
+          }
+        } catch {}
+      }
+      if (!lngLat && fromSuggestion.center) {
+        lngLat = fromSuggestion.center;
+      }
+    }
+
+    if (!lngLat) {
+      const url = new URL(
+        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(
+          query
+        )}.json`
+      );
+      url.searchParams.set("access_token", token);
+      url.searchParams.set("limit", "1");
+      try {
+        const res = await fetch(url.toString());
+        if (res.ok) {
+          const data = (await res.json()) as {
+            features?: Array<{ center?: [number, number] }>;
+          };
+          const center = data.features?.[0]?.center;
+          if (center) lngLat = center as [number, number];
+        }
+      } catch {}
+    }
+
+    if (lngLat && mapRef.current) {
+      mapRef.current.flyTo({
+        center: lngLat,
+        zoom: 16,
+        pitch: 30,
+        bearing: 0,
+        essential: true,
+      });
+      // do not leave a pin for search results
+      sessionTokenRef.current = crypto.randomUUID();
+      setSuggestions([]);
+      setActiveIndex(-1);
+      setSearchQuery("");
+    }
+  }
+
+  // Place name for a saved project, from the same geocoder as search
+  async function reverseGeocode(
+    center: [number, number]
+  ): Promise<string | undefined> {
+    const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+    if (!token) return undefined;
+    const url = new URL(
+      `https://api.mapbox.com/geocoding/v5/mapbox.places/${center[0]},${center[1]}.json`
+    );
+    url.searchParams.set("types", "neighborhood,locality,place");
+    url.searchParams.set("language", "en");
+    url.searchParams.set("access_token", token);
+    try {
+      const res = await fetch(url.toString());
+      if (!res.ok) return undefined;
+      const data = (await res.json()) as {
+        features?: Array<{ place_name: string }>;
+      };
+      return data.features?.[0]?.place_name;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // --- Share/Load helpers ---
+  // What undo/redo restores: annotations, but not camera or settings
+  type AnnotationSnapshot = Pick<
+    SerializedState,
+    | "fireworks"
+    | "custom"
+    | "audiences"
+    | "measurements"
+    | "areas"
+    | "restricted"
+  >;
+
+  function base64UrlEncode(bytes: Uint8Array) {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++)
+      binary += String.fromCharCode(bytes[i]!);
+    const b64 = btoa(binary);
+    return b64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+  }
+
+  function base64UrlDecode(input: string): Uint8Array {
+    const b64 =
+      input.replace(/-/g, "+").replace(/_/g, "/") +
+      "===".slice((input.length + 3) % 4);
+    const binary = atob(b64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  async function pipeBytes(
+    data: Uint8Array,
+    transform: CompressionStream | DecompressionStream
+  ): Promise<Uint8Array> {
+    const ab = data.buffer.slice(
+      data.byteOffset,
+      data.byteOffset + data.byteLength
+    ) as ArrayBuffer;
+    const stream = new Response(new Blob([ab])).body as ReadableStream;
+    const reader = stream.pipeThrough(transform).getReader();
+    const chunks: Uint8Array[] = [];
+    // Collect all chunks
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (value) chunks.push(value);
+    }
+    const total = chunks.reduce((n, c) => n + c.length, 0);
+    const out = new Uint8Array(total);
+    let off = 0;
+    for (const c of chunks) {
+      out.set(c, off);
+      off += c.length;
+    }
+    return out;
+  }
+
+  async function compressBytes(
+    data: Uint8Array,
+    format: CompressionFormat
+  ): Promise<Uint8Array> {
+    if ("CompressionStream" in window)
+      return pipeBytes(data, new CompressionStream(format));
+    return data; // Fallback: no compression
+  }
+
+  async function decompressBytes(
+    data: Uint8Array,
+    format: CompressionFormat
+  ): Promise<Uint8Array> {
+    if ("DecompressionStream" in window)
+      return pipeBytes(data, new DecompressionStream(format));
+    return data; // Fallback: already plain
+  }
+
+  // Annotations only (no camera or settings); reads refs so it is safe to
+  // call from marker handlers
+  function serializeAnnotations(): AnnotationSnapshot {
+    const fireworks: SerializedFirework[] = Object.values(
+      annotationsRef.current
+    )
+      .filter((rec) => rec.type === "firework")
+      .map((rec) => {
+        const pos = rec.marker.getLngLat();
+        return {
+          id: rec.id,
+          number: rec.number,
+          inches: rec.inches,
+          label: rec.label,
+          color: rec.color,
+          position: [pos.lng, pos.lat],
+          deviceKind: rec.deviceKind,
+          ...(isAngled(rec)
+            ? { tiltDeg: rec.tiltDeg, azimuthDeg: rec.azimuthDeg ?? 0 }
+            : {}),
+          ...(rec.notes ? { notes: rec.notes } : {}),
+          ...(rec.quantity ? { quantity: rec.quantity } : {}),
+          ...(rec.productId ? { productId: rec.productId } : {}),
+          ...(rec.falloutFeet ? { falloutFeet: rec.falloutFeet } : {}),
+        };
+      });
+
+    const custom: SerializedCustom[] = Object.values(annotationsRef.current)
+      .filter((rec) => rec.type === "custom")
+      .map((rec) => {
+        const pos = rec.marker.getLngLat();
+        return {
+          id: rec.id,
+          number: rec.number,
+          label: rec.label,
+          color: rec.color,
+          position: [pos.lng, pos.lat],
+          emoji: rec.emoji,
+          description: rec.description,
+        };
+      });
+    const audiences: SerializedAudience[] = Object.values(
+      audienceAreasRef.current
+    ).map((rec) => ({
+      id: rec.id,
+      number: rec.number,
+      ...(rec.label ? { label: rec.label } : {}),
+      corners: rec.corners,
+      ...(rec.shape === "polygon" ? { shape: rec.shape } : {}),
+      ...(rec.rotationDeg ? { rotationDeg: rec.rotationDeg } : {}),
+    }));
+    const measurements: SerializedMeasurement[] = Object.values(
+      measurementsRef.current
+    ).map((rec) => ({
+      id: rec.id,
+      number: rec.number,
+      ...(rec.label ? { label: rec.label } : {}),
+      points: rec.points,
+      ...(rec.snaps.some(Boolean) ? { snaps: rec.snaps } : {}),
+    }));
+    const areas: SerializedAreaMeasurement[] = Object.values(
+      areaMeasurementsRef.current
+    ).map((rec) => ({
+      id: rec.id,
+      number: rec.number,
+      ...(rec.label ? { label: rec.label } : {}),
+      vertices: rec.corners,
+    }));
+    const restricted: SerializedRestricted[] = Object.values(
+      restrictedAreasRef.current
+    ).map((rec) => ({
+      id: rec.id,
+      number: rec.number,
+      ...(rec.label ? { label: rec.label } : {}),
+      corners: rec.corners,
+      ...(rec.shape === "polygon" ? { shape: rec.shape } : {}),
+      ...(rec.rotationDeg ? { rotationDeg: rec.rotationDeg } : {}),
+    }));
+    return { fireworks, custom, audiences, measurements, areas, restricted };
+  }
+
+  function serializeState(): SerializedState | null {
+    if (!mapRef.current) return null;
+    const map = mapRef.current;
+    const camera = {
+      center: [map.getCenter().lng, map.getCenter().lat] as [number, number],
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+    };
+    return {
+      camera,
+      ...serializeAnnotations(),
+      showHeight,
+      ...(showAutoDimensions ? { autoDimensions: true } : {}),
+      measurementUnit,
+      projectName,
+      safetyRuleSet,
+      wind: windSettings,
+      v: CURRENT_PLAN_VERSION,
+    };
+  }
+
+  // The compact binary plan behind one flag byte saying whether it is
+  // deflated; small plans are often shorter left as they are
+  async function encodeSharePayload(): Promise<Uint8Array | null> {
+    const state = serializeState();
+    if (!state) return null;
+    const raw = encodePlanBinary(state);
+    const deflated = await compressBytes(raw, "deflate-raw");
+    const useDeflated = deflated.length < raw.length;
+    const body = useDeflated ? deflated : raw;
+    const data = new Uint8Array(body.length + 1);
+    data[0] = useDeflated ? SHARE_DEFLATED : SHARE_RAW;
+    data.set(body, 1);
+    return data;
+  }
+
+  // Throws when the data is damaged
+  async function decodeSharePayload(data: Uint8Array): Promise<unknown> {
+    const body = data.subarray(1);
+    if (data[0] === SHARE_DEFLATED)
+      return decodePlanBinary(await decompressBytes(body, "deflate-raw"));
+    if (data[0] === SHARE_RAW) return decodePlanBinary(body);
+    throw new Error("Unknown share encoding");
+  }
+
+  async function encodeStateToHash(): Promise<string> {
+    const data = await encodeSharePayload();
+    return data ? `b=${base64UrlEncode(data)}` : "";
+  }
+
+  // e= holds the same data as b=, encrypted with the sender's passphrase
+  async function encryptStateToHash(passphrase: string): Promise<string> {
+    const data = await encodeSharePayload();
+    if (!data) return "";
+    return `e=${base64UrlEncode(await encryptShareData(data, passphrase))}`;
+  }
+
+  // Null when the hash holds no plan; older plans are upgraded on the way.
+  // Reads both b= links and the gzipped JSON s= links shared before them;
+  // passphrase-protected e= links are opened by handleUnlockLink instead.
+  async function decodeStateFromHash(
+    hash: string
+  ): Promise<MigrationResult | null> {
+    const params = new URLSearchParams(hash.replace(/^#?/, ""));
+    const binary = params.get("b");
+    const enc = params.get("s");
+    if (!binary && !enc) return null;
+    let parsed: unknown;
+    try {
+      if (binary) {
+        parsed = await decodeSharePayload(base64UrlDecode(binary));
+      } else {
+        const gz = base64UrlDecode(enc!);
+        const raw = await decompressBytes(gz, "gzip");
+        parsed = JSON.parse(new TextDecoder().decode(raw));
+      }
+    } catch {
+      return { state: null, error: DAMAGED_LINK_ERROR };
+    }
+    return migratePlanState(parsed, "link");
+  }
+
+  // Creates annotations from their serialized form, keeping ids and numbers.
+  // Used by restore and by paste (which hands in fresh ids).
+  function addAnnotations(snapshot: AnnotationSnapshot, showHeight: boolean) {
+    const map = mapRef.current;
+    if (!map) return;
+    // Fireworks
+    let maxFireworkNum = 0;
+    for (const fw of snapshot.fireworks) {
+      const legacy = findLegacyProduct(fw.inches);
+      const color = fw.color || legacy?.color || DEFAULT_PRODUCT_COLOR;
+      const labelText = fw.label || legacy?.name || `${fw.inches}\"`;
+      const deviceKind =
+        fw.deviceKind ?? (legacy ? productDeviceKind(legacy) : undefined);
+      const aim = parseMortarAim(fw);
+      const falloutFeet =
+        typeof fw.falloutFeet === "number" && fw.falloutFeet > 0
+          ? fw.falloutFeet
+          : undefined;
+      const labelEl = document.createElement("div");
+      labelEl.className =
+        "rounded-md bg-background/95 text-foreground shadow-lg border border-border px-2 py-1 text-xs";
+      const radiusFeet = Math.round(
+        falloutRadiusFeet(fw.inches, deviceKind, falloutFeet)
+      );
+      const radiusText =
+        measurementUnit === "feet"
+          ? `${radiusFeet} ft radius`
+          : `${Math.round(feetToMeters(radiusFeet))} m radius`;
+      // Labels come from files, pasted clipboards and the properties dialog
+      const title = document.createElement("div");
+      title.className = "font-medium leading-none";
+      title.textContent = labelText;
+      const radius = document.createElement("div");
+      radius.className = "text-muted-foreground text-[10px]";
+      radius.textContent = radiusText;
+      labelEl.appendChild(title);
+      labelEl.appendChild(radius);
+      const marker = new mapboxgl.Marker({
+        element: labelEl,
+        color,
+        draggable: !viewOnlyRef.current,
+      })
+        .setLngLat(fw.position)
+        .addTo(map);
+      annotationMarkersRef.current.push(marker);
+      const circleId =
+        fw.id || `circle-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      labelEl.addEventListener("contextmenu", (evt) => {
+        if (viewOnlyRef.current) return;
+        evt.preventDefault();
+        removeFireworkAnnotation(circleId);
+      });
+      const sourceId = `${circleId}-src`;
+      const feature = createFalloutFeature(
+        falloutEllipseAt(
+          fw.position[0],
+          fw.position[1],
+          fw.inches,
+          deviceKind,
+          {
+            ...aim,
+            falloutFeet,
+          }
+        )
+      );
+      map.addSource(sourceId, {
+        type: "geojson",
+        data: {
+          type: "FeatureCollection",
+          features: [feature],
+        } as FeatureCollection,
+      });
+      map.addLayer({
+        id: circleId,
+        type: "fill",
+        source: sourceId,
+        paint: { "fill-color": color, "fill-opacity": 0.25 },
+      });
+      const lineId = `${circleId}-line`;
+      map.addLayer({
+        id: lineId,
+        type: "line",
+        source: sourceId,
+        paint: { "line-color": color, "line-opacity": 1, "line-width": 2 },
+      });
+      annotationsRef.current[circleId] = {
+        type: "firework",
+        number: fw.number,
+        id: circleId,
+        inches: fw.inches,
+        label: labelText,
+        color,
+        deviceKind,
+        ...aim,
+        notes: fw.notes || undefined,
+        quantity: fw.quantity && fw.quantity > 1 ? fw.quantity : undefined,
+        productId: fw.productId || undefined,
+        falloutFeet,
+        marker,
+        sourceId,
+        fillLayerId: circleId,
+        lineLayerId: lineId,
+      };
+      renderAimGlyph(annotationsRef.current[circleId]!);
+      attachFireworkClick(marker, circleId);
+      if (showHeight)
+        addExtrusionForAnnotation(annotationsRef.current[circleId]!);
+      const updateCircle = () => {
+        const pos = marker.getLngLat();
+        // Get the annotation record to access current inches value and use the current rule set
+        const annotation = annotationsRef.current[circleId];
+        if (!annotation) return;
+        const updated = createFalloutFeature(
+          falloutEllipseAt(
+            pos.lng,
+            pos.lat,
+            annotation.inches,
+            annotation.deviceKind,
+            annotation
+          )
+        );
+        const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
+        src.setData({
+          type: "FeatureCollection",
+          features: [updated],
+        } as FeatureCollection);
+      };
+      marker.on("drag", updateCircle);
+      marker.on("dragend", updateCircle);
+      watchAnnotationMarker(marker);
+      watchSelection(marker, circleId);
+      maxFireworkNum = Math.max(maxFireworkNum, fw.number || 0);
+    }
+    fireworkCounterRef.current = Math.max(
+      fireworkCounterRef.current,
+      maxFireworkNum
+    );
+
+    // Custom annotations
+    let maxCustomNum = 0;
+    for (const custom of snapshot.custom || []) {
+      const id =
+        custom.id ||
+        `custom-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const number = custom.number;
+
+      // Create default Mapbox marker with custom color
+      const marker = new mapboxgl.Marker({
+        color: custom.color,
+        draggable: !viewOnlyRef.current,
+      })
+        .setLngLat(custom.position)
+        .addTo(map);
+
+      annotationMarkersRef.current.push(marker);
+
+      // Use native Mapbox popup open as the click signal (Mapbox suppresses clicks after drag)
+      const clickProxyPopup = new mapboxgl.Popup({
+        closeButton: false,
+        closeOnClick: true,
+        maxWidth: "0px",
+      });
+      clickProxyPopup.on("open", () => {
+        handleCustomAnnotationClick(id);
+        clickProxyPopup.remove();
+      });
+      marker.setPopup(clickProxyPopup);
+
+      // Add right-click handler to remove
+      marker.getElement().addEventListener("contextmenu", (evt) => {
+        if (viewOnlyRef.current) return;
+        evt.preventDefault();
+        removeCustomAnnotation(id);
+      });
+
+      // Create text element for emoji and label combined
+      const textSourceId = `${id}-text-src`;
+
+      // Combined emoji and label text
+      const textFeature = {
+        type: "Feature" as const,
+        geometry: {
+          type: "Point" as const,
+          coordinates: custom.position,
+        },
+        properties: {
+          text: custom.label,
+        },
+      };
+
+      // Add text source and layer
+      map.addSource(textSourceId, {
+        type: "geojson",
+        data: {
+          type: "FeatureCollection",
+          features: [textFeature],
+        } as FeatureCollection,
+      });
+
+      map.addLayer({
+        id: `${id}-text`,
+        type: "symbol",
+        source: textSourceId,
+        layout: {
+          "text-field": ["get", "text"],
+          "text-font": [
+            "Noto Color Emoji",
+            "Apple Color Emoji",
+            "Segoe UI Emoji",
+            "Open Sans Bold",
+            "Arial Unicode MS Bold",
+          ],
+          "text-size": 14,
+          "text-anchor": "bottom",
+          "text-offset": [0, -2.8],
+        },
+        paint: {
+          "text-color": "#ffffff",
+          "text-halo-color": "#000000",
+          "text-halo-width": 2,
+        },
+      });
+
+      // Store annotation
+      annotationsRef.current[id] = {
+        type: "custom",
+        number,
+        id,
+        inches: 0, // Not applicable for custom
+        label: custom.label,
+        color: custom.color,
+        marker,
+        sourceId: textSourceId, // Store text source ID
+        fillLayerId: `${id}-text`, // Store text layer ID
+        lineLayerId: `${id}-text`, // Store text layer ID (same as fillLayerId)
+        emoji: custom.emoji,
+        description: custom.description,
+        textSourceId, // Store text source ID
+      };
+
+      // Add drag handler to update text position
+      const updateCustomText = () => {
+        const pos = marker.getLngLat();
+
+        // Update text position
+        const textSrc = map.getSource(textSourceId) as mapboxgl.GeoJSONSource;
+        if (textSrc) {
+          textSrc.setData({
+            type: "FeatureCollection",
+            features: [
+              {
+                type: "Feature" as const,
+                geometry: {
+                  type: "Point" as const,
+                  coordinates: [pos.lng, pos.lat],
+                },
+                properties: {
+                  text: annotationsRef.current[id]?.label ?? custom.label,
+                },
+              },
+            ],
+          } as FeatureCollection);
+        }
+      };
+      marker.on("drag", updateCustomText);
+      marker.on("dragend", updateCustomText);
+      marker.on("dragend", recordHistory);
+      watchSelection(marker, id);
+
+      maxCustomNum = Math.max(maxCustomNum, custom.number || 0);
+    }
+    fireworkCounterRef.current = Math.max(
+      fireworkCounterRef.current,
+      maxCustomNum
+    );
+
+    // Audiences
+    let maxAudienceNum = 0;
+    for (const aud of snapshot.audiences) {
+      if (aud.shape === "polygon") {
+        const vertices = parsePolygon(aud.corners);
+        if (vertices)
+          createPolygonArea("audience", vertices, {
+            id: aud.id || undefined,
+            number: aud.number,
+            label: aud.label,
+          });
+        maxAudienceNum = Math.max(maxAudienceNum, aud.number || 0);
+        continue;
+      }
+      createRectangleArea("audience", restoredRectangle(aud), {
+        id: aud.id || undefined,
+        number: aud.number,
+        label: aud.label,
+      });
+      maxAudienceNum = Math.max(maxAudienceNum, aud.number || 0);
+    }
+    audienceCounterRef.current = Math.max(
+      audienceCounterRef.current,
+      maxAudienceNum
+    );
+    // Measurements
+    let maxMeasurementNum = 0;
+    for (const meas of snapshot.measurements) {
+      const points = parsePolyline(meas.points);
+      if (points)
+        createMeasurement(points, {
+          id: meas.id || undefined,
+          number: meas.number,
+          label: meas.label,
+          snaps: parseSnapAttachments(meas.snaps, points.length),
+        });
+      maxMeasurementNum = Math.max(maxMeasurementNum, meas.number || 0);
+    }
+    measurementCounterRef.current = Math.max(
+      measurementCounterRef.current,
+      maxMeasurementNum
+    );
+    // Area measurements (absent from older links)
+    let maxAreaNum = 0;
+    for (const area of snapshot.areas ?? []) {
+      const vertices = parsePolygon(area.vertices);
+      if (vertices)
+        createPolygonArea("area", vertices, {
+          id: area.id || undefined,
+          number: area.number,
+          label: area.label,
+        });
+      maxAreaNum = Math.max(maxAreaNum, area.number || 0);
+    }
+    areaCounterRef.current = Math.max(areaCounterRef.current, maxAreaNum);
+    // Restricted areas
+    let maxRestrictedNum = 0;
+    for (const rest of snapshot.restricted) {
+      if (rest.shape === "polygon") {
+        const vertices = parsePolygon(rest.corners);
+        if (vertices)
+          createPolygonArea("restricted", vertices, {
+            id: rest.id || undefined,
+            number: rest.number,
+            label: rest.label,
+          });
+        maxRestrictedNum = Math.max(maxRestrictedNum, rest.number || 0);
+        continue;
+      }
+      createRectangleArea("restricted", restoredRectangle(rest), {
+        id: rest.id || undefined,
+        number: rest.number,
+        label: rest.label,
+      });
+      maxRestrictedNum = Math.max(maxRestrictedNum, rest.number || 0);
+    }
+    restrictedCounterRef.current = Math.max(
+      restrictedCounterRef.current,
+      maxRestrictedNum
+    );
+    // Undo/redo recreates annotations that were hidden in the outline
+    hiddenIdsRef.current.forEach(applyVisibility);
   }
 
   function restoreFromState(state: SerializedState) {
@@ -977,824 +2633,1708 @@ export function MapShell() {
       setProjectName(state.projectName);
       setFormProjectName(state.projectName);
     }
-    if (state.safetyDistance === 70 || state.safetyDistance === 100) {
-      setSafetyDistance(state.safetyDistance);
-      setFormSafetyDistance(state.safetyDistance);
+    const restoredRuleSet = parseRuleSet(state.safetyRuleSet);
+    if (restoredRuleSet) {
+      // Update the ref now so the circles restored below use the new rules
+      safetyRuleSetRef.current = restoredRuleSet;
+      setSafetyRuleSet(restoredRuleSet);
+      setFormSafetyRuleSet(restoredRuleSet);
     }
-    // Restore fireworks
-    let maxFireworkNum = 0;
-    for (const fw of state.fireworks) {
-      const item: AnnotationItem | undefined = annotationPalette.find(
-        (i) => i.inches === fw.inches && i.key !== "audience"
-      );
-      const color = fw.color || item?.color || "#FF5126";
-      const labelText = fw.label || item?.label || `${fw.inches}\"`;
-      const labelEl = document.createElement("div");
-      labelEl.className =
-        "rounded-md bg-background/95 text-foreground shadow-lg border border-border px-2 py-1 text-xs";
-      const radiusFeet = Math.round(fw.inches * safetyDistance);
-      const radiusText =
-        measurementUnit === "feet"
-          ? `${radiusFeet} ft radius`
-          : `${Math.round(feetToMeters(radiusFeet))} m radius`;
-      labelEl.innerHTML = `<div class="font-medium leading-none">${labelText}</div><div class="text-muted-foreground text-[10px]">${radiusText}</div>`;
-      const marker = new mapboxgl.Marker({
-        element: labelEl,
-        color,
-        draggable: true,
-      })
-        .setLngLat(fw.position)
-        .addTo(map);
-      annotationMarkersRef.current.push(marker);
-      const radiusMeters = feetToMeters(fw.inches * safetyDistance);
-      const circleId =
-        fw.id || `circle-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      labelEl.addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeFireworkAnnotation(circleId);
+    // Links without wind were made in still air
+    const restoredWind = parseWindSettings(state.wind) ?? DEFAULT_WIND_SETTINGS;
+    windSettingsRef.current = restoredWind;
+    setWindSettings(restoredWind);
+    setFormWindSettings(restoredWind);
+    // Numbering continues from the restored annotations
+    fireworkCounterRef.current = 0;
+    audienceCounterRef.current = 0;
+    measurementCounterRef.current = 0;
+    areaCounterRef.current = 0;
+    restrictedCounterRef.current = 0;
+    addAnnotations(state, state.showHeight);
+    setShowHeight(state.showHeight);
+    setShowAutoDimensions(state.autoDimensions === true);
+    notifyAnnotationsChanged();
+    // Re-apply camera once more after layers/markers are added to ensure exact alignment
+    try {
+      map.jumpTo({
+        center: state.camera.center,
+        zoom: state.camera.zoom,
+        bearing: state.camera.bearing,
+        pitch: state.camera.pitch,
       });
-      const sourceId = `${circleId}-src`;
-      const feature = createCircleFeature(
-        fw.position[0],
-        fw.position[1],
-        radiusMeters
+    } catch {}
+  }
+
+  // Offers the plan autosaved on the last visit, unless it is empty or the
+  // same as what just loaded
+  async function offerUnsavedSession() {
+    const record = await readAutosave();
+    const state = record && migratePlanState(record.state).state;
+    if (!record || !state) {
+      setAutosaveEnabled(true);
+      return;
+    }
+    const snapshot: AnnotationSnapshot = {
+      fireworks: state.fireworks ?? [],
+      custom: state.custom ?? [],
+      audiences: state.audiences ?? [],
+      measurements: state.measurements ?? [],
+      areas: state.areas ?? [],
+      restricted: state.restricted ?? [],
+    };
+    const count = (n: number, one: string, many: string) => ({
+      count: n,
+      label: n === 1 ? one : many,
+    });
+    const counts = [
+      count(snapshot.fireworks.length, "firework", "fireworks"),
+      count(snapshot.custom.length, "custom marker", "custom markers"),
+      count(snapshot.audiences.length, "audience area", "audience areas"),
+      count(snapshot.restricted.length, "restricted area", "restricted areas"),
+      count(snapshot.measurements.length, "measurement", "measurements"),
+      count(
+        snapshot.areas?.length ?? 0,
+        "area measurement",
+        "area measurements"
+      ),
+    ];
+    if (JSON.stringify(snapshot) === historyRef.current.present) {
+      // Reloaded onto the same plan, so it stays in its project
+      reattachProject(record.projectId);
+      setAutosaveEnabled(true);
+      return;
+    }
+    if (counts.every((c) => c.count === 0)) {
+      setAutosaveEnabled(true);
+      return;
+    }
+    unsavedStateRef.current = state;
+    unsavedProjectIdRef.current = record.projectId;
+    setUnsavedSession({
+      savedAt: record.savedAt,
+      projectName: state.projectName,
+      thumbnail: record.thumbnail,
+      center: state.camera.center,
+      counts,
+    });
+  }
+
+  // Picks the saved project back up after a reload, if it still exists
+  function reattachProject(id: string | undefined) {
+    if (id && loadProjects().some((p) => p.id === id)) setCurrentProjectId(id);
+  }
+
+  const handleRestoreSession = () => {
+    const state = unsavedStateRef.current;
+    if (state) {
+      restoreFromState(state);
+      resetHistory();
+      clearShareHash();
+      reattachProject(unsavedProjectIdRef.current);
+    }
+    unsavedStateRef.current = null;
+    setUnsavedSession(null);
+    setAutosaveEnabled(true);
+  };
+
+  const handleDiscardSession = () => {
+    void clearAutosave();
+    unsavedStateRef.current = null;
+    unsavedProjectIdRef.current = undefined;
+    setUnsavedSession(null);
+    setAutosaveEnabled(true);
+  };
+
+  // --- Saved projects ---
+  const PROJECT_STORAGE_FULL =
+    "The browser's storage is full. Delete or archive projects you no longer need.";
+
+  // Writes the plan into a saved project; the place name is looked up again
+  // once the map has moved to another area
+  function saveToProject(
+    id: string,
+    state: SerializedState,
+    thumbnail?: string
+  ) {
+    const existing = loadProjects().find((p) => p.id === id);
+    if (!existing) return;
+    const center = state.camera.center;
+    const sameArea = isSameArea(existing.center, center);
+    const saved = saveProject(
+      {
+        ...existing,
+        name: state.projectName || existing.name,
+        location: sameArea ? existing.location : undefined,
+        center,
+        updatedAt: Date.now(),
+        thumbnail: thumbnail ?? existing.thumbnail,
+      },
+      state
+    );
+    setProjectsError(saved ? null : PROJECT_STORAGE_FULL);
+    setProjects(loadProjects());
+    if (saved && (!sameArea || !existing.location))
+      void lookUpProjectLocation(id, center);
+  }
+
+  async function lookUpProjectLocation(id: string, center: [number, number]) {
+    const location = await reverseGeocode(center);
+    const project = loadProjects().find((p) => p.id === id);
+    // The project may have been deleted or moved again meanwhile
+    if (!location || !project || !isSameArea(project.center, center)) return;
+    if (updateProject(id, { location })) setProjects(loadProjects());
+  }
+
+  // Saves the open project now rather than after the autosave delay
+  function flushCurrentProject() {
+    const state = serializeState();
+    if (!currentProjectId || !state) return;
+    const canvas = mapRef.current?.getCanvas();
+    saveToProject(
+      currentProjectId,
+      state,
+      canvas ? captureThumbnail(canvas) : undefined
+    );
+  }
+
+  // A share link in the address bar no longer matches the map
+  function clearShareHash() {
+    if (!window.location.hash) return;
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search
+    );
+  }
+
+  function setViewMode(on: boolean) {
+    viewOnlyRef.current = on;
+    setViewOnly(on);
+  }
+
+  // Unlocks the viewed plan as a new plan of this user's own; the link it
+  // came from stays read-only for everyone else
+  async function handleMakeEditableCopy() {
+    const state = serializeState();
+    setViewMode(false);
+    clearShareHash();
+    // Recreated so the markers can be dragged again
+    if (state) restoreFromState(state);
+    resetHistory();
+    // The viewer's own unsaved plan was not offered while viewing; autosave
+    // stays off until they keep or discard it, so the copy cannot replace it
+    if (!autosaveCheckedRef.current) {
+      autosaveCheckedRef.current = true;
+      await offerUnsavedSession();
+    }
+  }
+
+  function showProjectName(name: string) {
+    setProjectName(name);
+    setFormProjectName(name);
+  }
+
+  // Starts an empty project at the current map view
+  const handleCreateProject = (name: string) => {
+    const state = serializeState();
+    if (!state) return;
+    flushCurrentProject();
+    const id = createProjectId();
+    const now = Date.now();
+    const saved = saveProject(
+      { id, name, center: state.camera.center, createdAt: now, updatedAt: now },
+      {
+        ...state,
+        fireworks: [],
+        custom: [],
+        audiences: [],
+        measurements: [],
+        areas: [],
+        restricted: [],
+        projectName: name,
+      }
+    );
+    setProjects(loadProjects());
+    if (!saved) {
+      setProjectsError(PROJECT_STORAGE_FULL);
+      return;
+    }
+    clearAllAnnotations();
+    resetHistory();
+    showProjectName(name);
+    setCurrentProjectId(id);
+    clearShareHash();
+    setProjectsError(null);
+    setProjectsOpen(false);
+  };
+
+  // Keeps the plan on the map as a new project
+  const handleSaveAsProject = (name: string) => {
+    const state = serializeState();
+    if (!state) return;
+    const id = createProjectId();
+    const now = Date.now();
+    const canvas = mapRef.current?.getCanvas();
+    const saved = saveProject(
+      {
+        id,
+        name,
+        center: state.camera.center,
+        createdAt: now,
+        updatedAt: now,
+        thumbnail: canvas ? captureThumbnail(canvas) : undefined,
+      },
+      { ...state, projectName: name }
+    );
+    setProjects(loadProjects());
+    if (!saved) {
+      setProjectsError(PROJECT_STORAGE_FULL);
+      return;
+    }
+    showProjectName(name);
+    setCurrentProjectId(id);
+    setProjectsError(null);
+    void lookUpProjectLocation(id, state.camera.center);
+  };
+
+  const handleOpenProject = (id: string) => {
+    const summary = loadProjects().find((p) => p.id === id);
+    const migrated = migratePlanState(loadProjectState(id), "project");
+    const state = migrated.state;
+    if (!summary || !state) {
+      setProjectsError(migrated.error ?? "This project could not be read.");
+      return;
+    }
+    flushCurrentProject();
+    restoreFromState(state);
+    resetHistory();
+    showProjectName(summary.name);
+    setCurrentProjectId(id);
+    clearShareHash();
+    setProjectsError(null);
+    setProjectsOpen(false);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    if (!renameProject(id, name)) {
+      setProjectsError(PROJECT_STORAGE_FULL);
+      return;
+    }
+    if (id === currentProjectId) showProjectName(name);
+    setProjects(loadProjects());
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    // The copy should include edits still waiting for the autosave
+    if (id === currentProjectId) flushCurrentProject();
+    setProjectsError(duplicateProject(id) ? null : PROJECT_STORAGE_FULL);
+    setProjects(loadProjects());
+  };
+
+  const handleArchiveProject = (id: string, archived: boolean) => {
+    updateProject(id, { archived: archived || undefined });
+    setProjects(loadProjects());
+  };
+
+  const handleDeleteProject = (id: string) => {
+    deleteProject(id);
+    if (id === currentProjectId) setCurrentProjectId(null);
+    setProjects(loadProjects());
+  };
+
+  // --- Project files ---
+  const handleSaveProjectFile = () => {
+    const state = serializeState();
+    if (!state) return;
+    const project = projects.find((p) => p.id === currentProjectId);
+    const name = projectName || UNTITLED_PROJECT;
+    const file = createProjectFile(
+      state,
+      {
+        name,
+        ...(project?.location ? { location: project.location } : {}),
+        ...(project
+          ? { createdAt: new Date(project.createdAt).toISOString() }
+          : {}),
+      },
+      catalog
+    );
+    downloadFile(
+      formatProjectFile(file),
+      projectFileName(name),
+      "application/json"
+    );
+  };
+
+  // Opens a .pyroplot file as a new, unsaved plan
+  async function openProjectFile(file: File) {
+    if (!/\.(pyroplot|json)$/i.test(file.name)) {
+      setPlanLoadErrors({
+        source: file.name,
+        errors: [`Only ${PROJECT_FILE_EXTENSION} project files can be opened.`],
+      });
+      return;
+    }
+    const result = parseProjectFile(await file.text());
+    if (!result.file) {
+      setPlanLoadErrors({ source: file.name, errors: result.errors });
+      return;
+    }
+    const doc = result.file;
+    flushCurrentProject();
+    restoreFromState(doc);
+    resetHistory();
+    showProjectName(doc.projectName || doc.metadata.name);
+    setCurrentProjectId(null);
+    clearShareHash();
+    // Products the plan uses that this browser's catalog lacks
+    const used = new Set(doc.fireworks.map((f) => f.productId));
+    const missing = doc.catalog.filter(
+      (p) => used.has(p.id) && !catalog.some((c) => c.id === p.id)
+    );
+    if (missing.length > 0) {
+      const next = mergeCatalog(catalog, missing, false);
+      setCatalog(next);
+      saveCatalog(next);
+    }
+  }
+
+  // Shows a plan from a share link, or why it could not be opened, then
+  // offers the unsaved plan from the last visit
+  async function loadSharedPlan(
+    decoded: MigrationResult | null,
+    view: boolean
+  ) {
+    // Set before restoring, so the markers are created locked
+    setViewMode(!!decoded?.state && view);
+    if (decoded?.state) {
+      // The link's plan is not the open project, so autosave must not
+      // write it there
+      flushCurrentProject();
+      setCurrentProjectId(null);
+      restoreFromState(decoded.state);
+    } else if (decoded)
+      setPlanLoadErrors({
+        source: "The share link",
+        errors: [decoded.error],
+      });
+    resetHistory();
+    // A viewer's own unsaved plan is left alone until they make a copy
+    if (!autosaveCheckedRef.current && !viewOnlyRef.current) {
+      autosaveCheckedRef.current = true;
+      await offerUnsavedSession();
+    }
+  }
+
+  async function handleUnlockLink(passphrase: string) {
+    if (!lockedLink) return;
+    // Without WebCrypto every passphrase would look wrong
+    if (!shareCryptoAvailable()) {
+      setUnlockError(LOCKED_LINKS_UNAVAILABLE_ERROR);
+      return;
+    }
+    let payload: Uint8Array | null = null;
+    try {
+      payload = await decryptShareData(
+        base64UrlDecode(lockedLink.sealed),
+        passphrase
+      );
+    } catch {}
+    if (!payload) {
+      setUnlockError(
+        "That passphrase does not open this plan. Passphrases are case-sensitive; check it with whoever sent the link."
+      );
+      return;
+    }
+    let decoded: MigrationResult;
+    try {
+      decoded = migratePlanState(await decodeSharePayload(payload), "link");
+    } catch {
+      decoded = { state: null, error: DAMAGED_LINK_ERROR };
+    }
+    setLockedLink(null);
+    setUnlockError(null);
+    await loadSharedPlan(decoded, lockedLink.view);
+  }
+
+  function handleCancelUnlock() {
+    setLockedLink(null);
+    setUnlockError(null);
+    void loadSharedPlan(null, false);
+  }
+
+  async function loadFromHash() {
+    const hash = window.location.hash || "";
+    const params = new URLSearchParams(hash.replace(/^#?/, ""));
+    const view = params.get("mode") === "view";
+    const sealed = params.get("e");
+    if (sealed) {
+      // Nothing is restored until the passphrase opens it
+      setUnlockError(null);
+      setLockedLink({ sealed, view });
+      return;
+    }
+    await loadSharedPlan(await decodeStateFromHash(hash), view);
+  }
+
+  // Load state from URL hash on ready
+  useEffect(() => {
+    if (!isMapReady) return;
+    void loadFromHash();
+    // Only the link the page was opened with; later ones arrive below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMapReady]);
+
+  // Links opened while the app is running. Re-registered on every render so
+  // the open project is saved with the current settings before it is left.
+  useEffect(() => {
+    if (!isMapReady) return;
+    const onHash = () => void loadFromHash();
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  });
+
+  // Debounced autosave after edits, setting changes and camera moves
+  useEffect(() => {
+    // A viewed plan is not the viewer's to keep
+    if (!isMapReady || !autosaveEnabled || viewOnly) return;
+    const timer = window.setTimeout(() => {
+      const state = serializeState();
+      const canvas = mapRef.current?.getCanvas();
+      if (!state) return;
+      const thumbnail = canvas ? captureThumbnail(canvas) : undefined;
+      writeAutosave({
+        savedAt: Date.now(),
+        state,
+        thumbnail,
+        ...(currentProjectId ? { projectId: currentProjectId } : {}),
+      }).catch(() => {});
+      if (currentProjectId) saveToProject(currentProjectId, state, thumbnail);
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+    // serializeState reads the settings below from this render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    autosaveRevision,
+    autosaveEnabled,
+    viewOnly,
+    isMapReady,
+    showHeight,
+    showAutoDimensions,
+    measurementUnit,
+    projectName,
+    safetyRuleSet,
+    windSettings,
+    currentProjectId,
+  ]);
+
+  // Polygon drawing: click adds a vertex; clicking the first vertex,
+  // double-clicking or Enter finishes; Backspace undoes; Escape cancels
+  useEffect(() => {
+    drawingAreaRef.current = drawingArea;
+    const map = mapRef.current;
+    if (!map || !isMapReady || !drawingArea) return;
+    const sourceId = "__draw-area-src";
+    const color = AREA_STYLES[drawingArea].color;
+    drawVerticesRef.current = [];
+    let cursor: [number, number] | null = null;
+
+    map.addSource(sourceId, {
+      type: "geojson",
+      data: { type: "FeatureCollection", features: [] } as FeatureCollection,
+    });
+    map.addLayer({
+      id: `${sourceId}-fill`,
+      type: "fill",
+      source: sourceId,
+      filter: ["==", "$type", "Polygon"],
+      paint: { "fill-color": color, "fill-opacity": 0.1 },
+    });
+    map.addLayer({
+      id: `${sourceId}-line`,
+      type: "line",
+      source: sourceId,
+      filter: ["!=", "$type", "Point"],
+      paint: {
+        "line-color": color,
+        "line-width": 2,
+        "line-dasharray": [2, 2],
+      },
+    });
+    map.addLayer({
+      id: `${sourceId}-points`,
+      type: "circle",
+      source: sourceId,
+      filter: ["==", "$type", "Point"],
+      paint: {
+        "circle-radius": 5,
+        "circle-color": "#FFFFFF",
+        "circle-stroke-color": color,
+        "circle-stroke-width": 2,
+      },
+    });
+
+    const render = () => {
+      const pts = drawVerticesRef.current;
+      const path = cursor ? [...pts, cursor] : pts;
+      const features: Feature[] = pts.map(
+        (p) =>
+          ({
+            type: "Feature",
+            geometry: { type: "Point", coordinates: p },
+            properties: {},
+          } as Feature)
       );
-      map.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [feature],
-        } as FeatureCollection,
-      });
-      map.addLayer({
-        id: circleId,
-        type: "fill",
-        source: sourceId,
-        paint: { "fill-color": color, "fill-opacity": 0.25 },
-      });
-      const lineId = `${circleId}-line`;
-      map.addLayer({
-        id: lineId,
-        type: "line",
-        source: sourceId,
-        paint: { "line-color": color, "line-opacity": 1, "line-width": 2 },
-      });
-      annotationsRef.current[circleId] = {
-        type: "firework",
-        number: fw.number,
-        id: circleId,
-        inches: fw.inches,
-        label: labelText,
-        color,
-        marker,
-        sourceId,
-        fillLayerId: circleId,
-        lineLayerId: lineId,
+      if (path.length >= MIN_POLYGON_VERTICES) {
+        features.push(createPolygonFeature(path));
+      } else if (path.length === 2) {
+        features.push({
+          type: "Feature",
+          geometry: { type: "LineString", coordinates: path },
+          properties: {},
+        } as Feature);
+      }
+      const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
+      src?.setData({ type: "FeatureCollection", features });
+    };
+
+    const onClick = (e: mapboxgl.MapMouseEvent) => {
+      const pts = drawVerticesRef.current;
+      const near = (c: [number, number], px: number) => {
+        const p = map.project(c);
+        return Math.hypot(p.x - e.point.x, p.y - e.point.y) < px;
       };
-      if (state.showHeight)
-        addExtrusionForAnnotation(annotationsRef.current[circleId]!);
-      const updateCircle = () => {
-        const pos = marker.getLngLat();
-        // Get the annotation record to access current inches value and use current safetyDistance from state
-        const annotation = annotationsRef.current[circleId];
-        if (!annotation) return;
-        const currentRadiusMeters = feetToMeters(
-          annotation.inches * safetyDistanceRef.current
-        );
-        const updated = createCircleFeature(
-          pos.lng,
-          pos.lat,
-          currentRadiusMeters
-        );
-        const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
-        src.setData({
-          type: "FeatureCollection",
-          features: [updated],
-        } as FeatureCollection);
+      if (pts.length >= MIN_POLYGON_VERTICES && near(pts[0]!, 10)) {
+        finishAreaDrawing();
+        return;
+      }
+      // The second click of a double-click lands on the previous vertex
+      const last = pts[pts.length - 1];
+      if (last && near(last, 4)) return;
+      pts.push([e.lngLat.lng, e.lngLat.lat]);
+      render();
+    };
+    const onMove = (e: mapboxgl.MapMouseEvent) => {
+      cursor = [e.lngLat.lng, e.lngLat.lat];
+      render();
+    };
+    const onDblClick = (e: mapboxgl.MapMouseEvent) => {
+      e.preventDefault();
+      finishAreaDrawing();
+    };
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+      if (e.key === "Enter") {
+        e.preventDefault();
+        finishAreaDrawing();
+      } else if (e.key === "Escape") {
+        drawVerticesRef.current = [];
+        setDrawingArea(null);
+      } else if (e.key === "Backspace") {
+        e.preventDefault();
+        drawVerticesRef.current.pop();
+        render();
+      }
+    };
+
+    map.on("click", onClick);
+    map.on("mousemove", onMove);
+    map.on("dblclick", onDblClick);
+    window.addEventListener("keydown", onKey);
+    map.doubleClickZoom.disable();
+    map.getCanvas().style.cursor = "crosshair";
+    return () => {
+      map.off("click", onClick);
+      map.off("mousemove", onMove);
+      map.off("dblclick", onDblClick);
+      window.removeEventListener("keydown", onKey);
+      map.doubleClickZoom.enable();
+      map.getCanvas().style.cursor = "";
+      try {
+        for (const layer of ["points", "line", "fill"]) {
+          if (map.getLayer(`${sourceId}-${layer}`))
+            map.removeLayer(`${sourceId}-${layer}`);
+        }
+        if (map.getSource(sourceId)) map.removeSource(sourceId);
+      } catch {}
+    };
+    // finishAreaDrawing/createPolygonFeature only read refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [drawingArea, isMapReady]);
+
+  // Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; Ctrl/Cmd+C, V and
+  // D copy, paste and duplicate the selection. Re-registered on every render
+  // so restoring and pasting use the current settings.
+  useEffect(() => {
+    const inTextField = (target: EventTarget | null) =>
+      !!(target as HTMLElement | null)?.closest?.("input, textarea, select");
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (drawingAreaRef.current || inTextField(e.target)) return;
+      if (viewOnlyRef.current) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      } else if (key === "d" && selectionRef.current.size > 0) {
+        e.preventDefault();
+        duplicateSelection();
+      }
+    };
+    const onCopy = (e: ClipboardEvent) => {
+      if (selectionRef.current.size === 0 || inTextField(e.target)) return;
+      // Selected page text wins over selected annotations
+      if (window.getSelection()?.toString()) return;
+      e.clipboardData?.setData(
+        "text/plain",
+        annotationsToClipboardText(selectedAnnotations())
+      );
+      e.preventDefault();
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      if (drawingAreaRef.current || viewOnlyRef.current) return;
+      if (inTextField(e.target)) return;
+      const snapshot = annotationsFromClipboardText(
+        e.clipboardData?.getData("text/plain") ?? ""
+      );
+      if (!snapshot) return;
+      e.preventDefault();
+      pasteAnnotations(snapshot);
+    };
+    window.addEventListener("keydown", onKey);
+    document.addEventListener("copy", onCopy);
+    document.addEventListener("paste", onPaste);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      document.removeEventListener("copy", onCopy);
+      document.removeEventListener("paste", onPaste);
+    };
+  });
+
+  // Multi-selection: shift-drag on the map draws a selection box (instead of
+  // Mapbox box zoom), a plain click on the map deselects, Delete removes the
+  // selection and Escape clears it. Also tracks where Ctrl+V pastes.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapReady) return;
+    map.boxZoom.disable();
+    const container = map.getContainer();
+    let start: mapboxgl.Point | null = null;
+    let box: HTMLDivElement | null = null;
+
+    const pointAt = (evt: MouseEvent) => {
+      const r = container.getBoundingClientRect();
+      return new mapboxgl.Point(evt.clientX - r.left, evt.clientY - r.top);
+    };
+    const onMouseMove = (evt: MouseEvent) => {
+      if (!start || !box) return;
+      const p = pointAt(evt);
+      box.style.left = `${Math.min(start.x, p.x)}px`;
+      box.style.top = `${Math.min(start.y, p.y)}px`;
+      box.style.width = `${Math.abs(p.x - start.x)}px`;
+      box.style.height = `${Math.abs(p.y - start.y)}px`;
+    };
+    const onMouseUp = (evt: MouseEvent) => {
+      window.removeEventListener("mousemove", onMouseMove);
+      window.removeEventListener("mouseup", onMouseUp);
+      box?.remove();
+      box = null;
+      if (!start) return;
+      const p = pointAt(evt);
+      const [minX, maxX] = [Math.min(start.x, p.x), Math.max(start.x, p.x)];
+      const [minY, maxY] = [Math.min(start.y, p.y), Math.max(start.y, p.y)];
+      start = null;
+      if (maxX - minX < 4 && maxY - minY < 4) return;
+      // Only annotations entirely inside the box are picked up
+      const inside = (c: [number, number]) => {
+        const q = map.project(c);
+        return q.x >= minX && q.x <= maxX && q.y >= minY && q.y <= maxY;
       };
-      marker.on("drag", updateCircle);
-      marker.on("dragend", updateCircle);
-      maxFireworkNum = Math.max(maxFireworkNum, fw.number || 0);
-    }
-    fireworkCounterRef.current = maxFireworkNum;
+      const hits = selectableIds().filter((id) =>
+        getSelectionGeometry(id)?.points.every(inside)
+      );
+      setSelection([...selectionRef.current, ...hits]);
+    };
+    const onMouseDown = (e: mapboxgl.MapMouseEvent) => {
+      const evt = e.originalEvent;
+      if (!evt.shiftKey || evt.button !== 0 || drawingAreaRef.current) return;
+      if (evt.target !== map.getCanvas()) return;
+      e.preventDefault(); // no drag-pan
+      start = e.point;
+      box = document.createElement("div");
+      box.className = "pointer-events-none absolute rounded-sm border-2";
+      box.style.borderColor = SELECTION_COLOR;
+      box.style.backgroundColor = `${SELECTION_COLOR}1A`;
+      container.appendChild(box);
+      window.addEventListener("mousemove", onMouseMove);
+      window.addEventListener("mouseup", onMouseUp);
+    };
+    const onMove = (e: mapboxgl.MapMouseEvent) => {
+      pasteTargetRef.current = [e.lngLat.lng, e.lngLat.lat];
+    };
+    const onLeave = () => {
+      pasteTargetRef.current = null;
+    };
+    const onClick = (e: mapboxgl.MapMouseEvent) => {
+      if (e.originalEvent.shiftKey) return;
+      if (e.originalEvent.target !== map.getCanvas()) return;
+      clearSelection();
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (selectionRef.current.size === 0 || drawingAreaRef.current) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+      if (
+        (e.key === "Delete" || e.key === "Backspace") &&
+        !viewOnlyRef.current
+      ) {
+        e.preventDefault();
+        deleteSelection();
+      } else if (e.key === "Escape") {
+        clearSelection();
+      }
+    };
+    map.on("mousedown", onMouseDown);
+    map.on("mousemove", onMove);
+    map.on("mouseout", onLeave);
+    map.on("click", onClick);
+    window.addEventListener("keydown", onKey);
+    return () => {
+      map.off("mousedown", onMouseDown);
+      map.off("mousemove", onMove);
+      map.off("mouseout", onLeave);
+      map.off("click", onClick);
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("mousemove", onMouseMove);
+      window.removeEventListener("mouseup", onMouseUp);
+      box?.remove();
+      map.boxZoom.enable();
+    };
+    // The selection helpers only read refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMapReady]);
 
-    // Restore custom annotations
-    let maxCustomNum = 0;
-    for (const custom of state.custom || []) {
-      const id =
-        custom.id ||
-        `custom-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      const number = custom.number;
+  // Auto-dimension overlay; its data is refreshed with the clearance check so
+  // it follows marker drags
+  useEffect(() => {
+    showAutoDimensionsRef.current = showAutoDimensions;
+    const map = mapRef.current;
+    if (!map || !isMapReady || !showAutoDimensions) return;
+    map.addSource(AUTO_DIMENSION_SOURCE, {
+      type: "geojson",
+      data: { type: "FeatureCollection", features: [] } as FeatureCollection,
+    });
+    const color: mapboxgl.Expression = [
+      "case",
+      ["get", "passes"],
+      "#22C55E",
+      "#EF4444",
+    ];
+    map.addLayer({
+      id: `${AUTO_DIMENSION_SOURCE}-line`,
+      type: "line",
+      source: AUTO_DIMENSION_SOURCE,
+      paint: {
+        "line-color": color,
+        "line-width": 2,
+        "line-dasharray": [3, 2],
+      },
+    });
+    map.addLayer({
+      id: `${AUTO_DIMENSION_SOURCE}-label`,
+      type: "symbol",
+      source: AUTO_DIMENSION_SOURCE,
+      layout: {
+        "symbol-placement": "line-center",
+        "text-field": ["get", "text"],
+        "text-font": ["Open Sans Bold", "Arial Unicode MS Bold"],
+        "text-size": 12,
+        "text-allow-overlap": true,
+      },
+      paint: {
+        "text-color": color,
+        "text-halo-color": "#000000",
+        "text-halo-width": 2,
+      },
+    });
+    updateClearance();
+    return () => {
+      try {
+        for (const layer of ["label", "line"]) {
+          if (map.getLayer(`${AUTO_DIMENSION_SOURCE}-${layer}`))
+            map.removeLayer(`${AUTO_DIMENSION_SOURCE}-${layer}`);
+        }
+        if (map.getSource(AUTO_DIMENSION_SOURCE))
+          map.removeSource(AUTO_DIMENSION_SOURCE);
+      } catch {}
+    };
+    // updateClearance only reads refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showAutoDimensions, isMapReady]);
 
-      // Create default Mapbox marker with custom color
-      const marker = new mapboxgl.Marker({
-        color: custom.color,
-        draggable: true,
-      })
-        .setLngLat(custom.position)
-        .addTo(map);
+  // Clicking a measurement line inserts a vertex there. One listener for all
+  // lines, with a few pixels of slop since the lines are thin.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapReady) return;
+    const onClick = (e: mapboxgl.MapMouseEvent) => {
+      if (drawingAreaRef.current || viewOnlyRef.current) return;
+      // Clicks on vertex handles and labels bubble up to the map too
+      const target = e.originalEvent.target as HTMLElement | null;
+      if (target?.closest(".mapboxgl-marker")) return;
+      const layers = Object.values(measurementsRef.current)
+        .map((rec) => rec.lineLayerId)
+        .filter((layerId) => map.getLayer(layerId));
+      if (layers.length === 0) return;
+      const slop = 6;
+      const [hit] = map.queryRenderedFeatures(
+        [
+          [e.point.x - slop, e.point.y - slop],
+          [e.point.x + slop, e.point.y + slop],
+        ],
+        { layers }
+      );
+      const rec = Object.values(measurementsRef.current).find(
+        (r) => r.lineLayerId === hit?.layer?.id
+      );
+      rec?.insertPoint?.([e.lngLat.lng, e.lngLat.lat]);
+    };
+    map.on("click", onClick);
+    return () => {
+      map.off("click", onClick);
+    };
+  }, [isMapReady]);
 
-      annotationMarkersRef.current.push(marker);
+  // Initialize form state when settings dialog opens
+  useEffect(() => {
+    if (settingsOpen) {
+      setFormProjectName(projectName);
+      setFormMeasurementUnit(measurementUnit);
+      setFormSafetyRuleSet(safetyRuleSet);
+      setFormWindSettings(windSettings);
+      setHasFormChanges(false);
+    }
+  }, [settingsOpen, projectName, measurementUnit, safetyRuleSet, windSettings]);
 
-      // Use native Mapbox popup open as the click signal (Mapbox suppresses clicks after drag)
-      const clickProxyPopup = new mapboxgl.Popup({
-        closeButton: false,
-        closeOnClick: true,
-        maxWidth: "0px",
-      });
-      clickProxyPopup.on("open", () => {
-        handleCustomAnnotationClick(id);
-        clickProxyPopup.remove();
-      });
-      marker.setPopup(clickProxyPopup);
+  function shareLinkFor(hash: string) {
+    return `${window.location.origin}${window.location.pathname}#${hash}`;
+  }
 
-      // Add right-click handler to remove
-      marker.getElement().addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeCustomAnnotation(id);
-      });
+  async function openShareDialog() {
+    setShareUrl(shareLinkFor(await encodeStateToHash()));
+    setCopied(false);
+    setShareOpen(true);
+  }
 
-      // Create text element for emoji and label combined
-      const textSourceId = `${id}-text-src`;
+  async function encryptShareLink(passphrase: string) {
+    return shareLinkFor(await encryptStateToHash(passphrase));
+  }
 
-      // Combined emoji and label text
-      const textFeature = {
-        type: "Feature" as const,
-        geometry: {
-          type: "Point" as const,
-          coordinates: custom.position,
-        },
-        properties: {
-          text: custom.label,
-        },
-      };
+  function normalizeCorners(input: [number, number][]): [number, number][] {
+    const lngs = input.map((c) => c[0]);
+    const lats = input.map((c) => c[1]);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    return [
+      [minLng, minLat], // SW
+      [maxLng, minLat], // SE
+      [maxLng, maxLat], // NE
+      [minLng, maxLat], // NW
+    ];
+  }
 
-      // Add text source and layer
-      map.addSource(textSourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [textFeature],
-        } as FeatureCollection,
-      });
+  function createRectangleFeature(
+    corners: [number, number][]
+  ): Feature<Polygon> {
+    // corners should be in [lng, lat] order and form a rectangle
+    return createPolygonFeature(corners);
+  }
 
-      map.addLayer({
-        id: `${id}-text`,
-        type: "symbol",
-        source: textSourceId,
-        layout: {
-          "text-field": ["get", "text"],
-          "text-font": [
-            "Noto Color Emoji",
-            "Apple Color Emoji",
-            "Segoe UI Emoji",
-            "Open Sans Bold",
-            "Arial Unicode MS Bold",
-          ],
-          "text-size": 14,
-          "text-anchor": "bottom",
-          "text-offset": [0, -2.8],
-        },
-        paint: {
-          "text-color": "#ffffff",
-          "text-halo-color": "#000000",
-          "text-halo-width": 2,
-        },
-      });
+  function createPolygonFeature(
+    vertices: [number, number][]
+  ): Feature<Polygon> {
+    // vertices in [lng, lat] order; the ring is closed here
+    const ring = [...vertices, vertices[0]] as [number, number][];
+    return {
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [ring] },
+      properties: {},
+    } as Feature<Polygon>;
+  }
 
-      // Store annotation
-      annotationsRef.current[id] = {
-        type: "custom",
-        number,
-        id,
-        inches: 0, // Not applicable for custom
-        label: custom.label,
-        color: custom.color,
-        marker,
-        sourceId: textSourceId, // Store text source ID
-        fillLayerId: `${id}-text`, // Store text layer ID
-        lineLayerId: `${id}-text`, // Store text layer ID (same as fillLayerId)
-        emoji: custom.emoji,
-        description: custom.description,
-        textSourceId, // Store text source ID
-      };
+  function createAreaHandle(color: string, size: number, title: string) {
+    const el = document.createElement("div");
+    el.className = "rounded-full border-2 bg-white shadow cursor-pointer";
+    el.style.width = `${size}px`;
+    el.style.height = `${size}px`;
+    el.style.borderColor = color;
+    el.title = title;
+    return el;
+  }
 
-      // Add drag handler to update text position
-      const updateCustomText = () => {
-        const pos = marker.getLngLat();
+  // Serialized rectangles without a rotation predate rotation support and may
+  // have corners in any order
+  function restoredRectangle(area: {
+    corners: [number, number][];
+    rotationDeg?: number;
+  }): OrientedRect {
+    const rotationDeg = Number.isFinite(area.rotationDeg)
+      ? area.rotationDeg
+      : undefined;
+    return rotationDeg
+      ? rectangleFromCorners(area.corners, rotationDeg)
+      : rectangleFromCorners(normalizeCorners(area.corners), 0);
+  }
 
-        // Update text position
-        const textSrc = map.getSource(textSourceId) as mapboxgl.GeoJSONSource;
-        if (textSrc) {
-          textSrc.setData({
-            type: "FeatureCollection",
-            features: [
-              {
-                type: "Feature" as const,
-                geometry: {
-                  type: "Point" as const,
-                  coordinates: [pos.lng, pos.lat],
-                },
-                properties: {
-                  text: custom.label,
-                },
-              },
-            ],
-          } as FeatureCollection);
-        }
-      };
-      marker.on("drag", updateCustomText);
-      marker.on("dragend", updateCustomText);
+  // Audience/restricted rectangle with corner resize (in its own rotated
+  // frame) and a rotation handle. Only reads refs, like createPolygonArea.
+  function createRectangleArea(
+    kind: AreaKind,
+    initial: OrientedRect,
+    opts: { id?: string; number?: number; label?: string } = {}
+  ) {
+    const map = mapRef.current;
+    if (!map) return;
+    const style = AREA_STYLES[kind];
+    const areasRef =
+      kind === "audience" ? audienceAreasRef : restrictedAreasRef;
+    const counterRef =
+      kind === "audience" ? audienceCounterRef : restrictedCounterRef;
+    const id =
+      opts.id ||
+      `${style.idPrefix}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const number = opts.number ?? ++counterRef.current;
+    const sourceId = `${id}-src`;
+    const minMeters = feetToMeters(20);
+    // Label sits 20ft inside the top edge; the rotation handle 30ft outside
+    const labelOffsetMeters = -feetToMeters(20);
+    const handleOffsetMeters = feetToMeters(30);
+    let rect = initial;
+    let corners = rectangleCorners(rect);
+
+    map.addSource(sourceId, {
+      type: "geojson",
+      data: {
+        type: "FeatureCollection",
+        features: [createRectangleFeature(corners)],
+      } as FeatureCollection,
+    });
+    map.addLayer({
+      id: `${id}-fill`,
+      type: "fill",
+      source: sourceId,
+      paint: { "fill-color": style.color, "fill-opacity": 0.1 },
+    });
+    map.addLayer({
+      id: `${id}-line`,
+      type: "line",
+      source: sourceId,
+      paint: { "line-color": style.color, "line-opacity": 1, "line-width": 2 },
+    });
 
-      maxCustomNum = Math.max(maxCustomNum, custom.number || 0);
-    }
-    fireworkCounterRef.current = Math.max(
-      fireworkCounterRef.current,
-      maxCustomNum
+    const label = document.createElement("div");
+    label.className =
+      "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm border border-border text-center";
+    label.addEventListener("contextmenu", (evt) => {
+      if (viewOnlyRef.current) return;
+      evt.preventDefault();
+      if (kind === "audience") removeAudienceArea(id);
+      else removeRestrictedArea(id);
+    });
+    const title = document.createElement("div");
+    title.className = "font-medium leading-none";
+    title.setAttribute("data-role", "title");
+    title.textContent = opts.label || style.title;
+    const dims = document.createElement("div");
+    dims.className = "text-[10px] text-muted-foreground";
+    dims.setAttribute("data-role", "dims");
+    dims.textContent = rectangleDimsText(corners);
+    label.appendChild(title);
+    label.appendChild(dims);
+    const labelMarker = new mapboxgl.Marker({
+      element: label,
+      draggable: !viewOnlyRef.current,
+    })
+      .setLngLat(rectangleTopPoint(rect, labelOffsetMeters))
+      .addTo(map);
+    const rotateEl = createAreaHandle(style.color, 14, "Drag to rotate");
+    const rotateMarker = new mapboxgl.Marker({
+      element: rotateEl,
+      draggable: !viewOnlyRef.current,
+    })
+      .setLngLat(rectangleTopPoint(rect, handleOffsetMeters))
+      .addTo(map);
+    const cornerMarkers: mapboxgl.Marker[] = corners.map((c) =>
+      new mapboxgl.Marker({ draggable: !viewOnlyRef.current })
+        .setLngLat(c)
+        .addTo(map)
     );
 
-    // Restore audiences
-    let maxAudienceNum = 0;
-    for (const aud of state.audiences) {
-      let corners = normalizeCorners(aud.corners as [number, number][]);
-      const id =
-        aud.id || `aud-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      const number = aud.number;
-      const sourceId = `${id}-src`;
-      const rectFeature = createRectangleFeature(corners);
-      map.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [rectFeature],
-        } as FeatureCollection,
-      });
-      map.addLayer({
-        id: `${id}-fill`,
-        type: "fill",
-        source: sourceId,
-        paint: { "fill-color": "#0077FF", "fill-opacity": 0.2 },
-      });
-      map.addLayer({
-        id: `${id}-line`,
-        type: "line",
-        source: sourceId,
-        paint: { "line-color": "#0077FF", "line-opacity": 1, "line-width": 2 },
-      });
-      const label = document.createElement("div");
-      label.className =
-        "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm border border-border text-center";
-      label.addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeAudienceArea(id);
-      });
-      const title = document.createElement("div");
-      title.className = "font-medium leading-none";
-      title.textContent = "Audience";
-      const dims = document.createElement("div");
-      dims.className = "text-[10px] text-muted-foreground";
-      dims.setAttribute("data-role", "dims");
-      dims.setAttribute("data-role", "dims");
-      const centerLat = (corners[0][1] + corners[2][1]) / 2;
-      const metersW =
-        Math.abs(corners[1][0] - corners[0][0]) *
-        111320 *
-        Math.cos((centerLat * Math.PI) / 180);
-      const metersH = Math.abs(corners[3][1] - corners[0][1]) * 110540;
-      dims.textContent = `${formatLengthNoSpace(
-        metersW
-      )} × ${formatLengthNoSpace(metersH)}`;
-      label.appendChild(title);
-      label.appendChild(dims);
-      const centerLng = (corners[0][0] + corners[2][0]) / 2;
-      const centerLat2 = (corners[0][1] + corners[2][1]) / 2;
-      const labelMarker = new mapboxgl.Marker({
-        element: label,
-        draggable: true,
-      })
-        .setLngLat([centerLng, centerLat2])
-        .addTo(map);
-      const cornerMarkers: mapboxgl.Marker[] = corners.map((c) =>
-        new mapboxgl.Marker({ draggable: true }).setLngLat(c).addTo(map)
-      );
-      const updateRectFromLabel = () => {
-        const cur = labelMarker.getLngLat();
-        const dLng = cur.lng - (corners[0][0] + corners[2][0]) / 2;
-        const dLat = cur.lat - (corners[0][1] + corners[2][1]) / 2;
-        const moved = corners.map(([lng, lat]) => [lng + dLng, lat + dLat]) as [
-          number,
-          number
-        ][];
-        const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
-        src.setData({
-          type: "FeatureCollection",
-          features: [createRectangleFeature(moved)],
-        } as FeatureCollection);
-        moved.forEach((c, i) => cornerMarkers[i].setLngLat(c));
-        corners = moved;
-        audienceAreasRef.current[id].corners = moved;
-        const centerLatNow = (moved[0][1] + moved[2][1]) / 2;
-        const metersWNow =
-          Math.abs(moved[1][0] - moved[0][0]) *
-          111320 *
-          Math.cos((centerLatNow * Math.PI) / 180);
-        const metersHNow = Math.abs(moved[3][1] - moved[0][1]) * 110540;
-        dims.textContent = `${formatLengthNoSpace(
-          metersWNow
-        )} × ${formatLengthNoSpace(metersHNow)}`;
-      };
-      labelMarker.on("drag", updateRectFromLabel);
-      labelMarker.on("dragend", updateRectFromLabel);
-      cornerMarkers.forEach((cm, idx) => {
-        const updateRect = () => {
-          const cur = cm.getLngLat();
-          const oppIdx = (idx + 2) % 4;
-          const anchorLng = corners[oppIdx][0];
-          const anchorLat = corners[oppIdx][1];
-          const minFt = 20;
-          const minLngDelta =
-            feetToMeters(minFt) /
-            (111320 * Math.cos((anchorLat * Math.PI) / 180));
-          const minLatDelta = feetToMeters(minFt) / 110540;
-          const sLng = idx === 0 || idx === 3 ? -1 : 1;
-          const sLat = idx === 0 || idx === 1 ? -1 : 1;
-          let dragLng = cur.lng;
-          let dragLat = cur.lat;
-          if (sLng > 0) dragLng = Math.max(anchorLng + minLngDelta, dragLng);
-          else dragLng = Math.min(anchorLng - minLngDelta, dragLng);
-          if (sLat > 0) dragLat = Math.max(anchorLat + minLatDelta, dragLat);
-          else dragLat = Math.min(anchorLat - minLatDelta, dragLat);
-          let newCorners: [number, number][] = [...corners] as [
-            number,
-            number
-          ][];
-          newCorners[oppIdx] = [anchorLng, anchorLat];
-          newCorners[idx] = [dragLng, dragLat];
-          newCorners[(idx + 1) % 4] = [dragLng, anchorLat];
-          newCorners[(idx + 3) % 4] = [anchorLng, dragLat];
-          newCorners = normalizeCorners(newCorners);
-          corners = newCorners;
-          const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
-          src.setData({
-            type: "FeatureCollection",
-            features: [createRectangleFeature(corners)],
-          } as FeatureCollection);
-          const newCenterLng = (corners[0][0] + corners[2][0]) / 2;
-          const newCenterLat = (corners[0][1] + corners[2][1]) / 2;
-          labelMarker.setLngLat([newCenterLng, newCenterLat]);
-          const metersW2 =
-            Math.abs(corners[1][0] - corners[0][0]) *
-            111320 *
-            Math.cos((newCenterLat * Math.PI) / 180);
-          const metersH2 = Math.abs(corners[3][1] - corners[0][1]) * 110540;
-          dims.textContent = `${formatLengthNoSpace(
-            metersW2
-          )} × ${formatLengthNoSpace(metersH2)}`;
-          audienceAreasRef.current[id].corners = corners;
-          corners.forEach((p, i) => cornerMarkers[i].setLngLat(p));
-        };
-        cm.on("drag", updateRect);
-        cm.on("dragend", updateRect);
+    // Redraw everything except the marker currently being dragged
+    const update = (next: OrientedRect, dragging?: mapboxgl.Marker) => {
+      rect = next;
+      corners = rectangleCorners(rect);
+      const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
+      src?.setData({
+        type: "FeatureCollection",
+        features: [createRectangleFeature(corners)],
+      } as FeatureCollection);
+      corners.forEach((c, i) => {
+        if (cornerMarkers[i] !== dragging) cornerMarkers[i]!.setLngLat(c);
       });
-      audienceAreasRef.current[id] = {
-        type: "audience",
-        number,
-        id,
-        sourceId,
-        fillLayerId: `${id}-fill`,
-        lineLayerId: `${id}-line`,
-        labelMarker,
-        cornerMarkers,
-        corners,
-      };
-      maxAudienceNum = Math.max(maxAudienceNum, number || 0);
-    }
-    audienceCounterRef.current = maxAudienceNum;
-    // Restore measurements
-    let maxMeasurementNum = 0;
-    for (const meas of state.measurements) {
-      const points = meas.points as [number, number][];
-      const id =
-        meas.id || `meas-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      const number = meas.number;
-      const sourceId = `${id}-src`;
+      if (labelMarker !== dragging)
+        labelMarker.setLngLat(rectangleTopPoint(rect, labelOffsetMeters));
+      if (rotateMarker !== dragging)
+        rotateMarker.setLngLat(rectangleTopPoint(rect, handleOffsetMeters));
+      dims.textContent = rectangleDimsText(corners);
+      const rec = areasRef.current[id];
+      if (rec) {
+        rec.corners = corners;
+        rec.rotationDeg = rect.rotationDeg;
+      }
+    };
 
-      // Create line feature
-      const lineFeature = {
-        type: "Feature" as const,
-        geometry: {
-          type: "LineString" as const,
-          coordinates: points,
+    // Dragging the label moves the whole rectangle
+    const onLabelDrag = () => {
+      const cur = labelMarker.getLngLat();
+      const [lng, lat] = rectangleTopPoint(rect, labelOffsetMeters);
+      update(
+        {
+          ...rect,
+          center: [
+            rect.center[0] + cur.lng - lng,
+            rect.center[1] + cur.lat - lat,
+          ],
         },
-        properties: {},
+        labelMarker
+      );
+    };
+    labelMarker.on("drag", onLabelDrag);
+    labelMarker.on("dragend", onLabelDrag);
+    watchAnnotationMarker(labelMarker);
+
+    const onRotate = () => {
+      const cur = rotateMarker.getLngLat();
+      const rotationDeg = Math.round(
+        bearingDeg(rect.center, [cur.lng, cur.lat])
+      );
+      update({ ...rect, rotationDeg: rotationDeg % 360 }, rotateMarker);
+    };
+    rotateMarker.on("drag", onRotate);
+    // Snap the handle back onto the rectangle's axis
+    rotateMarker.on("dragend", () => update(rect));
+    watchAnnotationMarker(rotateMarker);
+
+    cornerMarkers.forEach((cm, idx) => {
+      const onCornerDrag = () => {
+        const cur = cm.getLngLat();
+        update(
+          resizeRectangleFromCorner(rect, idx, [cur.lng, cur.lat], minMeters),
+          cm
+        );
       };
+      cm.on("drag", onCornerDrag);
+      // Pin the dragged corner to its clamped position
+      cm.on("dragend", () => update(rect));
+      watchAnnotationMarker(cm);
+    });
 
-      map.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [lineFeature],
-        } as FeatureCollection,
-      });
+    areasRef.current[id] = {
+      type: kind,
+      number,
+      id,
+      label: opts.label,
+      sourceId,
+      fillLayerId: `${id}-fill`,
+      lineLayerId: `${id}-line`,
+      labelMarker,
+      cornerMarkers,
+      corners,
+      rotationDeg: rect.rotationDeg,
+      handleMarkers: [rotateMarker],
+      setCorners: (next, rotationDeg) =>
+        update(rectangleFromCorners(next, rotationDeg ?? rect.rotationDeg)),
+    };
+    watchSelection(labelMarker, id);
+  }
 
-      map.addLayer({
-        id: `${id}-line`,
-        type: "line",
-        source: sourceId,
-        paint: {
-          "line-color": "#00AA00",
-          "line-opacity": 1,
-          "line-width": 3,
-        },
-      });
+  // Free-form audience/restricted area or area measurement. Only reads refs,
+  // so it is safe to call from the drawing-mode listeners and from restore.
+  function createPolygonArea(
+    kind: PolygonKind,
+    vertices: [number, number][],
+    opts: { id?: string; number?: number; label?: string } = {}
+  ) {
+    const map = mapRef.current;
+    if (!map || vertices.length < MIN_POLYGON_VERTICES) return;
+    const style = AREA_STYLES[kind];
+    const areasRef =
+      kind === "audience"
+        ? audienceAreasRef
+        : kind === "restricted"
+        ? restrictedAreasRef
+        : areaMeasurementsRef;
+    const counterRef =
+      kind === "audience"
+        ? audienceCounterRef
+        : kind === "restricted"
+        ? restrictedCounterRef
+        : areaCounterRef;
+    const dimsText = kind === "area" ? areaMeasurementText : polygonDimsText;
+    const id =
+      opts.id ||
+      `${style.idPrefix}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const number = opts.number ?? ++counterRef.current;
+    const sourceId = `${id}-src`;
+    let ring = vertices.map(([lng, lat]) => [lng, lat] as [number, number]);
+
+    map.addSource(sourceId, {
+      type: "geojson",
+      data: {
+        type: "FeatureCollection",
+        features: [createPolygonFeature(ring)],
+      } as FeatureCollection,
+    });
+    map.addLayer({
+      id: `${id}-fill`,
+      type: "fill",
+      source: sourceId,
+      paint: { "fill-color": style.color, "fill-opacity": 0.1 },
+    });
+    map.addLayer({
+      id: `${id}-line`,
+      type: "line",
+      source: sourceId,
+      paint: { "line-color": style.color, "line-opacity": 1, "line-width": 2 },
+    });
 
-      // Create label marker at center of line
-      const centerLng = (points[0][0] + points[1][0]) / 2;
-      const centerLat = (points[0][1] + points[1][1]) / 2;
+    const label = document.createElement("div");
+    label.className =
+      "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm border border-border text-center";
+    label.addEventListener("contextmenu", (evt) => {
+      if (viewOnlyRef.current) return;
+      evt.preventDefault();
+      if (kind === "audience") removeAudienceArea(id);
+      else if (kind === "restricted") removeRestrictedArea(id);
+      else removeAreaMeasurement(id);
+    });
+    const title = document.createElement("div");
+    title.className = "font-medium leading-none";
+    title.setAttribute("data-role", "title");
+    title.textContent = opts.label || style.title;
+    const dims = document.createElement("div");
+    dims.className = "text-[10px] text-muted-foreground";
+    dims.setAttribute("data-role", "dims");
+    dims.textContent = dimsText(ring);
+    label.appendChild(title);
+    label.appendChild(dims);
+    const labelMarker = new mapboxgl.Marker({
+      element: label,
+      draggable: !viewOnlyRef.current,
+    })
+      .setLngLat(polygonCentroid(ring))
+      .addTo(map);
 
-      const label = document.createElement("div");
-      label.className =
-        "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm backdrop-blur-sm border border-border text-center";
-      label.addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeMeasurement(id);
-      });
+    let vertexMarkers: mapboxgl.Marker[] = [];
+    let midpointMarkers: mapboxgl.Marker[] = [];
+    // Midpoint handle currently being dragged out into a new vertex
+    let insertingMarker: mapboxgl.Marker | null = null;
 
-      const title = document.createElement("div");
-      title.className = "font-medium leading-none";
-      title.textContent = "Measurement";
-
-      const distance = document.createElement("div");
-      distance.className = "text-[10px] text-muted-foreground";
-      distance.setAttribute("data-role", "distance");
-
-      // Calculate distance
-      const lat1 = (points[0][1] * Math.PI) / 180;
-      const lat2 = (points[1][1] * Math.PI) / 180;
-      const deltaLat = ((points[1][1] - points[0][1]) * Math.PI) / 180;
-      const deltaLng = ((points[1][0] - points[0][0]) * Math.PI) / 180;
-
-      const a =
-        Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-        Math.cos(lat1) *
-          Math.cos(lat2) *
-          Math.sin(deltaLng / 2) *
-          Math.sin(deltaLng / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      const distanceMeters = 6371000 * c; // Earth radius in meters
-      distance.textContent = formatDistanceWithSpace(distanceMeters);
-
-      label.appendChild(title);
-      label.appendChild(distance);
-
-      const labelMarker = new mapboxgl.Marker({
-        element: label,
-        draggable: true,
-      })
-        .setLngLat([centerLng, centerLat])
-        .addTo(map);
+    const redraw = () => {
+      const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
+      src?.setData({
+        type: "FeatureCollection",
+        features: [createPolygonFeature(ring)],
+      } as FeatureCollection);
+      dims.textContent = dimsText(ring);
+      const rec = areasRef.current[id];
+      if (rec) rec.corners = ring;
+      if (!insertingMarker) {
+        edgeMidpoints(ring).forEach((m, i) => midpointMarkers[i]?.setLngLat(m));
+      }
+    };
 
-      // Create point markers
-      const pointMarkers: mapboxgl.Marker[] = points.map((point, idx) => {
-        const pointEl = document.createElement("div");
-        pointEl.className =
-          "w-3 h-3 rounded-full border-2 border-white shadow-lg";
-        pointEl.style.backgroundColor = "#00AA00";
-        pointEl.style.cursor = "move";
-
-        const marker = new mapboxgl.Marker({
-          element: pointEl,
-          draggable: true,
+    const rebuildHandles = () => {
+      vertexMarkers.forEach((m) => m.remove());
+      midpointMarkers.forEach((m) => m.remove());
+      insertingMarker = null;
+      vertexMarkers = ring.map((c, idx) => {
+        const el = createAreaHandle(
+          style.color,
+          12,
+          "Drag to move vertex · right-click to delete"
+        );
+        el.addEventListener("contextmenu", (evt) => {
+          if (viewOnlyRef.current) return;
+          evt.preventDefault();
+          evt.stopPropagation();
+          if (ring.length <= MIN_POLYGON_VERTICES) return;
+          reindexSnapsTo(id, ring.length, { removed: idx });
+          ring = ring.filter((_, i) => i !== idx);
+          redraw();
+          labelMarker.setLngLat(polygonCentroid(ring));
+          rebuildHandles();
+          notifyAnnotationsChanged();
+          recordHistory();
+        });
+        const vm = new mapboxgl.Marker({
+          element: el,
+          draggable: !viewOnlyRef.current,
+        })
+          .setLngLat(c)
+          .addTo(map);
+        vm.on("drag", () => {
+          const p = vm.getLngLat();
+          ring[idx] = [p.lng, p.lat];
+          redraw();
+        });
+        vm.on("dragend", () => labelMarker.setLngLat(polygonCentroid(ring)));
+        watchAnnotationMarker(vm);
+        return vm;
+      });
+      midpointMarkers = edgeMidpoints(ring).map((c, idx) => {
+        const el = createAreaHandle(style.color, 8, "Drag to add a vertex");
+        el.style.opacity = "0.7";
+        const mm = new mapboxgl.Marker({
+          element: el,
+          draggable: !viewOnlyRef.current,
         })
-          .setLngLat(point)
+          .setLngLat(c)
           .addTo(map);
+        mm.on("dragstart", () => {
+          const p = mm.getLngLat();
+          reindexSnapsTo(id, ring.length, { inserted: idx + 1 });
+          ring.splice(idx + 1, 0, [p.lng, p.lat]);
+          insertingMarker = mm;
+        });
+        mm.on("drag", () => {
+          const p = mm.getLngLat();
+          ring[idx + 1] = [p.lng, p.lat];
+          redraw();
+        });
+        mm.on("dragend", () => {
+          labelMarker.setLngLat(polygonCentroid(ring));
+          // Recreate handles once Mapbox has finished with this marker
+          setTimeout(rebuildHandles, 0);
+        });
+        watchAnnotationMarker(mm);
+        return mm;
+      });
+      const rec = areasRef.current[id];
+      if (rec) {
+        rec.cornerMarkers = vertexMarkers;
+        rec.handleMarkers = midpointMarkers;
+      }
+    };
 
-        const updateMeasurement = () => {
-          const newPoint = marker.getLngLat();
-          const newPoints: [number, number][] = [...points];
-          newPoints[idx] = [newPoint.lng, newPoint.lat];
-
-          // Update line
-          const lineFeature = {
-            type: "Feature" as const,
-            geometry: {
-              type: "LineString" as const,
-              coordinates: newPoints,
-            },
-            properties: {},
-          };
+    // Dragging the label translates the whole polygon
+    let dragStart: {
+      lng: number;
+      lat: number;
+      ring: [number, number][];
+    } | null = null;
+    labelMarker.on("dragstart", () => {
+      const p = labelMarker.getLngLat();
+      dragStart = {
+        lng: p.lng,
+        lat: p.lat,
+        ring: [...ring],
+      };
+    });
+    const onLabelDrag = () => {
+      if (!dragStart) return;
+      const cur = labelMarker.getLngLat();
+      const dLng = cur.lng - dragStart.lng;
+      const dLat = cur.lat - dragStart.lat;
+      ring = dragStart.ring.map(([lng, lat]) => [lng + dLng, lat + dLat]);
+      redraw();
+      ring.forEach((c, i) => vertexMarkers[i]?.setLngLat(c));
+    };
+    labelMarker.on("drag", onLabelDrag);
+    labelMarker.on("dragend", onLabelDrag);
+    watchAnnotationMarker(labelMarker);
 
-          const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
-          src.setData({
-            type: "FeatureCollection",
-            features: [lineFeature],
-          } as FeatureCollection);
+    areasRef.current[id] = {
+      type: kind,
+      number,
+      id,
+      label: opts.label,
+      sourceId,
+      fillLayerId: `${id}-fill`,
+      lineLayerId: `${id}-line`,
+      labelMarker,
+      cornerMarkers: vertexMarkers,
+      corners: ring,
+      shape: "polygon",
+      handleMarkers: midpointMarkers,
+      setCorners: (next: [number, number][]) => {
+        ring = next.map(([lng, lat]) => [lng, lat] as [number, number]);
+        redraw();
+        ring.forEach((c, i) => vertexMarkers[i]?.setLngLat(c));
+        labelMarker.setLngLat(polygonCentroid(ring));
+      },
+    };
+    rebuildHandles();
+    watchSelection(labelMarker, id);
+  }
 
-          // Update label position and distance
-          const newCenterLng = (newPoints[0][0] + newPoints[1][0]) / 2;
-          const newCenterLat = (newPoints[0][1] + newPoints[1][1]) / 2;
-          labelMarker.setLngLat([newCenterLng, newCenterLat]);
-
-          // Calculate distance
-          const lat1 = (newPoints[0][1] * Math.PI) / 180;
-          const lat2 = (newPoints[1][1] * Math.PI) / 180;
-          const deltaLat =
-            ((newPoints[1][1] - newPoints[0][1]) * Math.PI) / 180;
-          const deltaLng =
-            ((newPoints[1][0] - newPoints[0][0]) * Math.PI) / 180;
-
-          const a =
-            Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-            Math.cos(lat1) *
-              Math.cos(lat2) *
-              Math.sin(deltaLng / 2) *
-              Math.sin(deltaLng / 2);
-          const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-          const distanceMeters = 6371000 * c; // Earth radius in meters
-          distance.textContent = formatDistanceWithSpace(distanceMeters);
-
-          // Update points reference
-          points[0] = newPoints[0];
-          points[1] = newPoints[1];
-          measurementsRef.current[id].points = points;
-        };
+  // Completes the shape being drawn (needs at least three vertices)
+  function finishAreaDrawing() {
+    const kind = drawingAreaRef.current;
+    const vertices = drawVerticesRef.current;
+    if (kind && vertices.length >= MIN_POLYGON_VERTICES) {
+      createPolygonArea(kind, vertices);
+      notifyAnnotationsChanged();
+      recordHistory();
+    }
+    drawVerticesRef.current = [];
+    setDrawingArea(null);
+  }
 
-        marker.on("drag", updateMeasurement);
-        marker.on("dragend", updateMeasurement);
+  // Total in the main label plus a length / running-total label on every
+  // segment. Reads the unit ref, so it is safe from drag closures.
+  function updateMeasurementLabels(rec: MeasurementRecord) {
+    const map = mapRef.current;
+    if (!map) return;
+    const distance = rec.labelMarker
+      .getElement()
+      .querySelector('[data-role="distance"]') as HTMLDivElement | null;
+    if (distance)
+      distance.textContent = formatDistanceWithSpace(
+        polylineLengthMeters(rec.points)
+      );
 
-        return marker;
-      });
+    const lengths =
+      rec.points.length > 2 ? segmentLengthsMeters(rec.points) : [];
+    const totals = runningTotalsMeters(rec.points);
+    const midpoints = segmentMidpoints(rec.points);
+    while (rec.segmentMarkers.length > lengths.length) {
+      rec.segmentMarkers.pop()!.remove();
+    }
+    lengths.forEach((len, i) => {
+      let marker = rec.segmentMarkers[i];
+      if (!marker) {
+        const el = document.createElement("div");
+        el.className =
+          "rounded px-1 text-[10px] leading-tight shadow bg-background/70 border border-border text-center pointer-events-none";
+        marker = new mapboxgl.Marker({ element: el }).addTo(map);
+        rec.segmentMarkers.push(marker);
+      }
+      marker.setLngLat(midpoints[i]!);
+      const el = marker.getElement();
+      el.textContent = formatDistanceWithSpace(len);
+      if (i > 0) {
+        const total = document.createElement("div");
+        total.className = "text-muted-foreground";
+        total.textContent = `Σ ${formatDistanceWithSpace(totals[i]!)}`;
+        el.appendChild(total);
+      }
+    });
+  }
 
-      measurementsRef.current[id] = {
-        type: "measurement",
-        number,
-        id,
-        sourceId,
-        lineLayerId: `${id}-line`,
-        labelMarker,
-        pointMarkers,
-        points,
+  // Geometry that measurement points snap to, keyed by annotation id. Only
+  // reads refs, so drag closures always see current positions.
+  function snapTargets(): Record<string, SnapTarget> {
+    const targets: Record<string, SnapTarget> = {};
+    for (const rec of Object.values(annotationsRef.current)) {
+      if (rec.type !== "firework") continue;
+      const pos = rec.marker.getLngLat();
+      targets[rec.id] = {
+        id: rec.id,
+        center: [pos.lng, pos.lat],
+        ring: falloutRing(
+          falloutEllipseAt(pos.lng, pos.lat, rec.inches, rec.deviceKind, rec)
+        ),
       };
+    }
+    for (const rec of [
+      ...Object.values(audienceAreasRef.current),
+      ...Object.values(restrictedAreasRef.current),
+      ...Object.values(areaMeasurementsRef.current),
+    ]) {
+      targets[rec.id] = { id: rec.id, corners: rec.corners };
+    }
+    return targets;
+  }
+
+  function snapToleranceMeters(at: [number, number]): number {
+    const map = mapRef.current;
+    if (!map) return 0;
+    const p = map.project(at);
+    const q = map.unproject([p.x + SNAP_TOLERANCE_PX, p.y]);
+    return haversineMeters(at, [q.lng, q.lat]);
+  }
 
-      maxMeasurementNum = Math.max(maxMeasurementNum, number || 0);
+  // Ring with a caption around the geometry a dragged point will attach to
+  function showSnapIndicator(snap: SnapResult | null) {
+    const map = mapRef.current;
+    if (!map || !snap) {
+      snapIndicatorRef.current?.remove();
+      snapIndicatorRef.current = null;
+      return;
     }
-    measurementCounterRef.current = maxMeasurementNum;
-    // Restore restricted areas
-    let maxRestrictedNum = 0;
-    for (const rest of state.restricted) {
-      let corners = normalizeCorners(rest.corners as [number, number][]);
-      const id =
-        rest.id || `rest-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      const number = rest.number;
-      const sourceId = `${id}-src`;
-      const rectFeature = createRectangleFeature(corners);
-      map.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [rectFeature],
-        } as FeatureCollection,
-      });
-      map.addLayer({
-        id: `${id}-fill`,
-        type: "fill",
-        source: sourceId,
-        paint: { "fill-color": "#FF0000", "fill-opacity": 0.2 },
-      });
-      map.addLayer({
-        id: `${id}-line`,
-        type: "line",
-        source: sourceId,
-        paint: { "line-color": "#FF0000", "line-opacity": 1, "line-width": 2 },
-      });
-      const label = document.createElement("div");
-      label.className =
-        "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm backdrop-blur-sm border border-border text-center";
-      label.addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeRestrictedArea(id);
-      });
-      const title = document.createElement("div");
-      title.className = "font-medium leading-none";
-      title.textContent = "Restricted";
-      const dims = document.createElement("div");
-      dims.className = "text-[10px] text-muted-foreground";
-      dims.setAttribute("data-role", "dims");
-      dims.setAttribute("data-role", "dims");
-      const centerLat = (corners[0][1] + corners[2][1]) / 2;
-      const metersW =
-        Math.abs(corners[1][0] - corners[0][0]) *
-        111320 *
-        Math.cos((centerLat * Math.PI) / 180);
-      const metersH = Math.abs(corners[3][1] - corners[0][1]) * 110540;
-      dims.textContent = `${formatLengthNoSpace(
-        metersW
-      )} × ${formatLengthNoSpace(metersH)}`;
-      label.appendChild(title);
-      label.appendChild(dims);
-      const centerLng = (corners[0][0] + corners[2][0]) / 2;
-      const centerLat2 = (corners[0][1] + corners[2][1]) / 2;
-      const labelMarker = new mapboxgl.Marker({
-        element: label,
-        draggable: true,
-      })
-        .setLngLat([centerLng, centerLat2])
-        .addTo(map);
-      const cornerMarkers: mapboxgl.Marker[] = corners.map((c) =>
-        new mapboxgl.Marker({ draggable: true }).setLngLat(c).addTo(map)
+    if (!snapIndicatorRef.current) {
+      const el = document.createElement("div");
+      el.className = "relative rounded-full border-2 pointer-events-none";
+      el.style.width = "22px";
+      el.style.height = "22px";
+      el.style.borderColor = SNAP_COLOR;
+      const caption = document.createElement("div");
+      caption.className =
+        "absolute left-1/2 top-full mt-1 -translate-x-1/2 whitespace-nowrap rounded px-1 text-[10px] shadow bg-background/80 border border-border";
+      caption.setAttribute("data-role", "snap-caption");
+      el.appendChild(caption);
+      snapIndicatorRef.current = new mapboxgl.Marker({ element: el }).addTo(
+        map
       );
-      const updateRectFromLabel = () => {
-        const cur = labelMarker.getLngLat();
-        const dLng = cur.lng - (corners[0][0] + corners[2][0]) / 2;
-        const dLat = cur.lat - (corners[0][1] + corners[2][1]) / 2;
-        const moved = corners.map(([lng, lat]) => [lng + dLng, lat + dLat]) as [
-          number,
-          number
-        ][];
-        const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
-        src.setData({
-          type: "FeatureCollection",
-          features: [createRectangleFeature(moved)],
-        } as FeatureCollection);
-        moved.forEach((c, i) => cornerMarkers[i].setLngLat(c));
-        corners = moved;
-        restrictedAreasRef.current[id].corners = moved;
-        const centerLatNow = (moved[0][1] + moved[2][1]) / 2;
-        const metersWNow =
-          Math.abs(moved[1][0] - moved[0][0]) *
-          111320 *
-          Math.cos((centerLatNow * Math.PI) / 180);
-        const metersHNow = Math.abs(moved[3][1] - moved[0][1]) * 110540;
-        dims.textContent = `${formatLengthNoSpace(
-          metersWNow
-        )} × ${formatLengthNoSpace(metersHNow)}`;
-      };
-      labelMarker.on("drag", updateRectFromLabel);
-      labelMarker.on("dragend", updateRectFromLabel);
-      cornerMarkers.forEach((cm, idx) => {
-        const updateRect = () => {
-          const cur = cm.getLngLat();
-          const oppIdx = (idx + 2) % 4;
-          const anchorLng = corners[oppIdx][0];
-          const anchorLat = corners[oppIdx][1];
-          const minFt = 20;
-          const minLngDelta =
-            feetToMeters(minFt) /
-            (111320 * Math.cos((anchorLat * Math.PI) / 180));
-          const minLatDelta = feetToMeters(minFt) / 110540;
-          const sLng = idx === 0 || idx === 3 ? -1 : 1;
-          const sLat = idx === 0 || idx === 1 ? -1 : 1;
-          let dragLng = cur.lng;
-          let dragLat = cur.lat;
-          if (sLng > 0) dragLng = Math.max(anchorLng + minLngDelta, dragLng);
-          else dragLng = Math.min(anchorLng - minLngDelta, dragLng);
-          if (sLat > 0) dragLat = Math.max(anchorLat + minLatDelta, dragLat);
-          else dragLat = Math.min(anchorLat - minLatDelta, dragLat);
-          let newCorners: [number, number][] = [...corners] as [
-            number,
-            number
-          ][];
-          newCorners[oppIdx] = [anchorLng, anchorLat];
-          newCorners[idx] = [dragLng, dragLat];
-          newCorners[(idx + 1) % 4] = [dragLng, anchorLat];
-          newCorners[(idx + 3) % 4] = [anchorLat, dragLat];
-          newCorners = normalizeCorners(newCorners);
-          corners = newCorners;
-          const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
-          src.setData({
-            type: "FeatureCollection",
-            features: [createRectangleFeature(corners)],
-          } as FeatureCollection);
-          const newCenterLng = (corners[0][0] + corners[2][0]) / 2;
-          const newCenterLat = (corners[0][1] + corners[2][1]) / 2;
-          labelMarker.setLngLat([newCenterLng, newCenterLat]);
-          const metersW2 =
-            Math.abs(corners[1][0] - corners[0][0]) *
-            111320 *
-            Math.cos((newCenterLat * Math.PI) / 180);
-          const metersH2 = Math.abs(corners[3][1] - corners[0][1]) * 110540;
-          dims.textContent = `${formatLengthNoSpace(
-            metersW2
-          )} × ${formatLengthNoSpace(metersH2)}`;
-          restrictedAreasRef.current[id].corners = corners;
-          corners.forEach((p, i) => cornerMarkers[i].setLngLat(p));
-        };
-        cm.on("drag", updateRect);
-        cm.on("dragend", updateRect);
-      });
-      restrictedAreasRef.current[id] = {
-        type: "restricted",
-        number,
-        id,
-        sourceId,
-        fillLayerId: `${id}-fill`,
-        lineLayerId: `${id}-line`,
-        labelMarker,
-        cornerMarkers,
-        corners,
-      };
-      maxRestrictedNum = Math.max(maxRestrictedNum, number || 0);
     }
-    restrictedCounterRef.current = maxRestrictedNum;
-    setShowHeight(state.showHeight);
-    // Re-apply camera once more after layers/markers are added to ensure exact alignment
-    try {
-      map.jumpTo({
-        center: state.camera.center,
-        zoom: state.camera.zoom,
-        bearing: state.camera.bearing,
-        pitch: state.camera.pitch,
+    snapIndicatorRef.current.setLngLat(snap.point);
+    const caption = snapIndicatorRef.current
+      .getElement()
+      .querySelector('[data-role="snap-caption"]');
+    if (caption) caption.textContent = describeSnap(snap.attachment);
+  }
+
+  // Keeps measurement points snapped to an area on the same corner or edge
+  // when a vertex is added to or removed from the area
+  function reindexSnapsTo(id: string, count: number, change: VertexChange) {
+    for (const rec of Object.values(measurementsRef.current)) {
+      if (!rec.snaps.some((snap) => snap?.id === id)) continue;
+      rec.snaps = rec.snaps.map((snap) =>
+        snap?.id === id ? reindexSnap(snap, count, change) : snap
+      );
+      rec.syncPoints?.();
+    }
+  }
+
+  // Moves snapped measurement points along with their targets; a point whose
+  // target has been deleted stays where it is and is released
+  function syncSnappedMeasurements() {
+    const measurements = Object.values(measurementsRef.current).filter((rec) =>
+      rec.snaps.some(Boolean)
+    );
+    if (measurements.length === 0) return;
+    const targets = snapTargets();
+    for (const rec of measurements) {
+      let changed = false;
+      rec.snaps.forEach((snap, i) => {
+        if (!snap) return;
+        const p = resolveSnap(snap, targets);
+        const cur = rec.points[i];
+        if (!p) {
+          rec.snaps[i] = null;
+          changed = true;
+        } else if (!cur || cur[0] !== p[0] || cur[1] !== p[1]) {
+          rec.points[i] = p;
+          changed = true;
+        }
       });
-    } catch {}
+      if (changed) rec.syncPoints?.();
+    }
   }
 
-  // Load state from URL hash on ready
-  useEffect(() => {
-    if (!isMapReady) return;
-    const run = async () => {
-      const state = await decodeStateFromHash(window.location.hash || "");
-      if (state) restoreFromState(state);
+  // Polyline measurement: drag vertices (they snap to nearby annotations),
+  // right-click one to delete it, click the line to insert one. Only reads
+  // refs, like createPolygonArea.
+  function createMeasurement(
+    initial: [number, number][],
+    opts: {
+      id?: string;
+      number?: number;
+      label?: string;
+      snaps?: (SnapAttachment | null)[];
+    } = {}
+  ) {
+    const map = mapRef.current;
+    if (!map || initial.length < MIN_MEASUREMENT_POINTS) return;
+    const id =
+      opts.id || `meas-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const number = opts.number ?? ++measurementCounterRef.current;
+    const sourceId = `${id}-src`;
+
+    const label = document.createElement("div");
+    label.className =
+      "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm border border-border text-center";
+    label.addEventListener("contextmenu", (evt) => {
+      if (viewOnlyRef.current) return;
+      evt.preventDefault();
+      removeMeasurement(id);
+    });
+    const title = document.createElement("div");
+    title.className = "font-medium leading-none";
+    title.setAttribute("data-role", "title");
+    title.textContent = opts.label || "Measurement";
+    const distance = document.createElement("div");
+    distance.className = "text-[10px] text-muted-foreground";
+    distance.setAttribute("data-role", "distance");
+    label.appendChild(title);
+    label.appendChild(distance);
+    const labelMarker = new mapboxgl.Marker({
+      element: label,
+      draggable: !viewOnlyRef.current,
+    });
+
+    const rec: MeasurementRecord = {
+      type: "measurement",
+      number,
+      id,
+      label: opts.label,
+      sourceId,
+      lineLayerId: `${id}-line`,
+      labelMarker,
+      pointMarkers: [],
+      points: initial.map(([lng, lat]) => [lng, lat] as [number, number]),
+      segmentMarkers: [],
+      snaps: initial.map((_, i) => opts.snaps?.[i] ?? null),
     };
-    void run();
-    // optional: handle hashchange
-    const onHash = () => void run();
-    window.addEventListener("hashchange", onHash);
-    return () => window.removeEventListener("hashchange", onHash);
-    // Intentionally not including decodeStateFromHash/restoreFromState to avoid re-runs.
-    // These are stable across the component lifecycle.
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isMapReady]);
+    measurementsRef.current[id] = rec;
 
-  // Initialize form state when settings dialog opens
-  useEffect(() => {
-    if (settingsOpen) {
-      setFormProjectName(projectName);
-      setFormMeasurementUnit(measurementUnit);
-      setFormSafetyDistance(safetyDistance);
-      setHasFormChanges(false);
-    }
-  }, [settingsOpen, projectName, measurementUnit, safetyDistance]);
+    const lineData = () =>
+      ({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "LineString", coordinates: rec.points },
+            properties: {},
+          },
+        ],
+      } as FeatureCollection);
 
-  async function openShareDialog() {
-    const q = await encodeStateToHash();
-    const url = `${window.location.origin}${window.location.pathname}#${q}`;
-    setShareUrl(url);
-    setCopied(false);
-    setShareOpen(true);
-  }
+    map.addSource(sourceId, { type: "geojson", data: lineData() });
+    map.addLayer({
+      id: `${id}-line`,
+      type: "line",
+      source: sourceId,
+      paint: {
+        "line-color": MEASUREMENT_COLOR,
+        "line-opacity": 1,
+        "line-width": 3,
+      },
+    });
+    labelMarker.setLngLat(polylineMidpoint(rec.points)).addTo(map);
 
-  function normalizeCorners(input: [number, number][]): [number, number][] {
-    const lngs = input.map((c) => c[0]);
-    const lats = input.map((c) => c[1]);
-    const minLng = Math.min(...lngs);
-    const maxLng = Math.max(...lngs);
-    const minLat = Math.min(...lats);
-    const maxLat = Math.max(...lats);
-    return [
-      [minLng, minLat], // SW
-      [maxLng, minLat], // SE
-      [maxLng, maxLat], // NE
-      [minLng, maxLat], // NW
-    ];
-  }
+    const redraw = (moveLabel = true) => {
+      const src = map.getSource(sourceId) as mapboxgl.GeoJSONSource;
+      src?.setData(lineData());
+      if (moveLabel) labelMarker.setLngLat(polylineMidpoint(rec.points));
+      updateMeasurementLabels(rec);
+    };
 
-  function createCircleFeature(
-    lng: number,
-    lat: number,
-    radiusMeters: number,
-    points = 64
-  ): Feature<Polygon> {
-    const coords: [number, number][] = [];
-    const center = [lng, lat] as [number, number];
-    const earthRadius = 6378137; // meters
-    for (let i = 0; i < points; i++) {
-      const angle = (i / points) * 2 * Math.PI;
-      const dx = (radiusMeters / earthRadius) * Math.cos(angle);
-      const dy = (radiusMeters / earthRadius) * Math.sin(angle);
-      const newLng =
-        center[0] +
-        (dx * 180) / Math.PI / Math.cos((center[1] * Math.PI) / 180);
-      const newLat = center[1] + (dy * 180) / Math.PI;
-      coords.push([newLng, newLat]);
-    }
-    coords.push(coords[0]);
-    return {
-      type: "Feature",
-      geometry: { type: "Polygon", coordinates: [coords] },
-      properties: {},
-    } as Feature<Polygon>;
-  }
+    // Snapped points are drawn filled
+    const styleHandle = (el: HTMLElement, snap: SnapAttachment | null) => {
+      el.style.backgroundColor = snap ? MEASUREMENT_COLOR : "";
+      el.title = snap
+        ? `Snapped to ${describeSnap(
+            snap
+          )} · drag to move · right-click to delete`
+        : "Drag to move point · right-click to delete";
+    };
 
-  function createRectangleFeature(
-    corners: [number, number][]
-  ): Feature<Polygon> {
-    // corners should be in [lng, lat] order and form a rectangle
-    const ring = [...corners, corners[0]] as [number, number][];
-    return {
-      type: "Feature",
-      geometry: { type: "Polygon", coordinates: [ring] },
-      properties: {},
-    } as Feature<Polygon>;
+    const rebuildHandles = () => {
+      rec.pointMarkers.forEach((m) => m.remove());
+      rec.pointMarkers = rec.points.map((c, idx) => {
+        const el = createAreaHandle(MEASUREMENT_COLOR, 12, "");
+        styleHandle(el, rec.snaps[idx] ?? null);
+        el.addEventListener("contextmenu", (evt) => {
+          if (viewOnlyRef.current) return;
+          evt.preventDefault();
+          evt.stopPropagation();
+          if (rec.points.length <= MIN_MEASUREMENT_POINTS) return;
+          rec.points = rec.points.filter((_, i) => i !== idx);
+          rec.snaps = rec.snaps.filter((_, i) => i !== idx);
+          redraw();
+          rebuildHandles();
+          recordHistory();
+        });
+        const pm = new mapboxgl.Marker({
+          element: el,
+          draggable: !viewOnlyRef.current,
+        })
+          .setLngLat(c)
+          .addTo(map);
+        let snap: SnapResult | null = null;
+        pm.on("drag", () => {
+          const p = pm.getLngLat();
+          const raw: [number, number] = [p.lng, p.lat];
+          snap = findSnap(
+            raw,
+            Object.values(snapTargets()),
+            snapToleranceMeters(raw)
+          );
+          rec.points[idx] = snap ? snap.point : raw;
+          showSnapIndicator(snap);
+          redraw();
+        });
+        pm.on("dragend", () => {
+          showSnapIndicator(null);
+          rec.snaps[idx] = snap?.attachment ?? null;
+          if (snap) pm.setLngLat(snap.point);
+          styleHandle(el, rec.snaps[idx] ?? null);
+          redraw();
+          recordHistory();
+        });
+        return pm;
+      });
+    };
+
+    // Inserts a vertex on the nearest segment (see the line click listener)
+    rec.insertPoint = (point: [number, number]) => {
+      const idx = nearestSegmentIndex(rec.points, point);
+      rec.points.splice(idx + 1, 0, point);
+      rec.snaps.splice(idx + 1, 0, null);
+      redraw();
+      rebuildHandles();
+      recordHistory();
+    };
+
+    rec.syncPoints = () => {
+      redraw();
+      rec.pointMarkers.forEach((pm, i) => {
+        const p = rec.points[i];
+        if (p) pm.setLngLat(p);
+        styleHandle(pm.getElement(), rec.snaps[i] ?? null);
+      });
+    };
+
+    // Dragging the label translates the whole line and releases any snaps
+    let dragStart: {
+      lng: number;
+      lat: number;
+      points: [number, number][];
+    } | null = null;
+    labelMarker.on("dragstart", () => {
+      const p = labelMarker.getLngLat();
+      dragStart = { lng: p.lng, lat: p.lat, points: [...rec.points] };
+      rec.snaps = rec.snaps.map(() => null);
+      rec.pointMarkers.forEach((pm) => styleHandle(pm.getElement(), null));
+    });
+    const onLabelDrag = () => {
+      if (!dragStart) return;
+      const cur = labelMarker.getLngLat();
+      const dLng = cur.lng - dragStart.lng;
+      const dLat = cur.lat - dragStart.lat;
+      rec.points = dragStart.points.map(([lng, lat]) => [
+        lng + dLng,
+        lat + dLat,
+      ]);
+      redraw(false);
+      rec.points.forEach((c, i) => rec.pointMarkers[i]?.setLngLat(c));
+    };
+    labelMarker.on("drag", onLabelDrag);
+    labelMarker.on("dragend", onLabelDrag);
+    labelMarker.on("dragend", recordHistory);
+
+    rebuildHandles();
+    updateMeasurementLabels(rec);
+    watchSelection(labelMarker, id);
   }
 
   // removed unused pointInPoly helper
@@ -1829,6 +4369,9 @@ export function MapShell() {
 
     // Renumber remaining annotations
     renumberAnnotations();
+    notifyAnnotationsChanged();
+    deselect(id);
+    recordHistory();
   }
 
   function removeCustomAnnotation(id: string) {
@@ -1851,6 +4394,8 @@ export function MapShell() {
 
     // Renumber remaining annotations
     renumberAnnotations();
+    deselect(id);
+    recordHistory();
   }
 
   function removeAudienceArea(id: string) {
@@ -1866,8 +4411,12 @@ export function MapShell() {
     try {
       rec.labelMarker.remove();
       rec.cornerMarkers.forEach((cm) => cm.remove());
+      rec.handleMarkers?.forEach((mm) => mm.remove());
     } catch {}
     delete audienceAreasRef.current[id];
+    notifyAnnotationsChanged();
+    deselect(id);
+    recordHistory();
   }
 
   function removeMeasurement(id: string) {
@@ -1882,8 +4431,32 @@ export function MapShell() {
     try {
       rec.labelMarker.remove();
       rec.pointMarkers.forEach((pm) => pm.remove());
+      rec.segmentMarkers.forEach((sm) => sm.remove());
     } catch {}
     delete measurementsRef.current[id];
+    deselect(id);
+    recordHistory();
+  }
+
+  function removeAreaMeasurement(id: string) {
+    const map = mapRef.current;
+    if (!map) return;
+    const rec = areaMeasurementsRef.current[id];
+    if (!rec) return;
+    try {
+      if (map.getLayer(rec.fillLayerId)) map.removeLayer(rec.fillLayerId);
+      if (map.getLayer(rec.lineLayerId)) map.removeLayer(rec.lineLayerId);
+      if (map.getSource(rec.sourceId)) map.removeSource(rec.sourceId);
+    } catch {}
+    try {
+      rec.labelMarker.remove();
+      rec.cornerMarkers.forEach((cm) => cm.remove());
+      rec.handleMarkers?.forEach((mm) => mm.remove());
+    } catch {}
+    delete areaMeasurementsRef.current[id];
+    notifyAnnotationsChanged();
+    deselect(id);
+    recordHistory();
   }
 
   function removeRestrictedArea(id: string) {
@@ -1899,8 +4472,12 @@ export function MapShell() {
     try {
       rec.labelMarker.remove();
       rec.cornerMarkers.forEach((cm) => cm.remove());
+      rec.handleMarkers?.forEach((mm) => mm.remove());
     } catch {}
     delete restrictedAreasRef.current[id];
+    notifyAnnotationsChanged();
+    deselect(id);
+    recordHistory();
   }
 
   function addExtrusionForAnnotation(rec: AnnotationRecord) {
@@ -1915,6 +4492,9 @@ export function MapShell() {
           id: extrudeId,
           type: "fill-extrusion",
           source: rec.sourceId,
+          layout: {
+            visibility: hiddenIdsRef.current.has(rec.id) ? "none" : "visible",
+          },
           paint: {
             "fill-extrusion-color": rec.color,
             "fill-extrusion-height": heightMeters,
@@ -1939,7 +4519,13 @@ export function MapShell() {
 
   function handleMapDrop(e: React.DragEvent<HTMLDivElement>) {
     e.preventDefault();
-    if (!mapRef.current) return;
+    if (!mapRef.current || viewOnlyRef.current) return;
+    // A project file dragged in from the desktop
+    const droppedFile = e.dataTransfer.files[0];
+    if (droppedFile) {
+      void openProjectFile(droppedFile);
+      return;
+    }
     const data = e.dataTransfer.getData("text/plain");
     if (!data) return;
     let parsed: { key: string; glyph: string } | null = null;
@@ -1949,602 +4535,64 @@ export function MapShell() {
       return;
     }
     if (!parsed) return;
-    const item = annotationPalette.find((i) => i.key === parsed!.key);
-    if (!item) return;
+    const key = parsed.key;
+    const product = catalog.find((p) => p.id === key);
+    if (!product && !RESERVED_PRODUCT_IDS.includes(key)) return;
+    // Deferred, so this records the state after the drop below
+    recordHistory();
     const rect = (e.target as HTMLDivElement).getBoundingClientRect();
     const point = [e.clientX - rect.left, e.clientY - rect.top] as [
       number,
       number
     ];
     const lngLat = mapRef.current.unproject(point);
-    if (item.key === "audience") {
-      // Create audience rectangle default ~ 100ft x 60ft
-      const widthFt = 200;
-      const heightFt = 90;
-      const metersW = feetToMeters(widthFt);
-      const metersH = feetToMeters(heightFt);
-      const metersToLng = (m: number, lat: number) =>
-        m / (111320 * Math.cos((lat * Math.PI) / 180));
-      const metersToLat = (m: number) => m / 110540;
-      const lngW = metersToLng(metersW, lngLat.lat);
-      const latH = metersToLat(metersH);
-      let corners: [number, number][] = [
-        [lngLat.lng - lngW / 2, lngLat.lat - latH / 2],
-        [lngLat.lng + lngW / 2, lngLat.lat - latH / 2],
-        [lngLat.lng + lngW / 2, lngLat.lat + latH / 2],
-        [lngLat.lng - lngW / 2, lngLat.lat + latH / 2],
-      ];
-      const rectFeature = createRectangleFeature(corners);
-      const id = `aud-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      const number = ++audienceCounterRef.current;
-      const sourceId = `${id}-src`;
-      mapRef.current.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [rectFeature],
-        } as FeatureCollection,
-      });
-      mapRef.current.addLayer({
-        id: `${id}-fill`,
-        type: "fill",
-        source: sourceId,
-        paint: { "fill-color": item.color, "fill-opacity": 0.1 },
-      });
-      mapRef.current.addLayer({
-        id: `${id}-line`,
-        type: "line",
-        source: sourceId,
-        paint: { "line-color": item.color, "line-opacity": 1, "line-width": 2 },
-      });
-      // Label marker centered
-      const label = document.createElement("div");
-      label.className =
-        "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm backdrop-blur-sm border border-border text-center";
-      label.addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeAudienceArea(id);
-      });
-      const title = document.createElement("div");
-      title.className = "font-medium leading-none";
-      title.textContent = "Audience";
-      const dims = document.createElement("div");
-      dims.className = "text-[10px] text-muted-foreground";
-      dims.setAttribute("data-role", "dims");
-      dims.setAttribute("data-role", "dims");
-      dims.textContent = `${formatLengthNoSpace(
-        metersW
-      )} × ${formatLengthNoSpace(metersH)}`;
-      label.appendChild(title);
-      label.appendChild(dims);
-      // Position label at top middle, 20ft off the top
-      const offsetFt = 20; // 20 feet off the top
-      const centerLng = (corners[0][0] + corners[2][0]) / 2; // Center longitude
-      const offsetLat = feetToMeters(offsetFt) / 110540;
-      const topMiddleLng = centerLng; // Center longitude
-      const topMiddleLat = corners[3][1] - offsetLat; // Top edge - 20ft offset
-      const labelMarker = new mapboxgl.Marker({
-        element: label,
-        draggable: true,
-      })
-        .setLngLat([topMiddleLng, topMiddleLat])
-        .addTo(mapRef.current);
-      // Dragging the label moves the whole rectangle
-      const onLabelDrag = () => {
-        const cur = labelMarker.getLngLat();
-        const centerLng = (corners[0][0] + corners[2][0]) / 2; // Center longitude
-        const offsetLat = feetToMeters(20) / 110540;
-        const dLng = cur.lng - centerLng; // Use center longitude as reference
-        const dLat = cur.lat - (corners[3][1] - offsetLat); // Use top-middle as reference
-        const movedCorners: [number, number][] = corners.map(([lng, lat]) => [
-          lng + dLng,
-          lat + dLat,
-        ]);
-        // keep size exact; only translate, then enforce min size to avoid later clamping jumps
-        const updated = createRectangleFeature(movedCorners);
-        const src = mapRef.current!.getSource(
-          sourceId
-        ) as mapboxgl.GeoJSONSource;
-        src.setData({
-          type: "FeatureCollection",
-          features: [updated],
-        } as FeatureCollection);
-        // move corner markers
-        movedCorners.forEach((c, i) => cornerMarkers[i].setLngLat(c));
-        // update corners reference
-        corners = movedCorners;
-        audienceAreasRef.current[id].corners = movedCorners;
-        // keep label centered (already at cur), and update dims text to current size
-        const centerLatNow = (movedCorners[0][1] + movedCorners[2][1]) / 2;
-        const metersWNow =
-          Math.abs(movedCorners[1][0] - movedCorners[0][0]) *
-          111320 *
-          Math.cos((centerLatNow * Math.PI) / 180);
-        const metersHNow =
-          Math.abs(movedCorners[3][1] - movedCorners[0][1]) * 110540;
-        dims.textContent = `${formatLengthNoSpace(
-          metersWNow
-        )} × ${formatLengthNoSpace(metersHNow)}`;
-      };
-      labelMarker.on("drag", onLabelDrag);
-      labelMarker.on("dragend", onLabelDrag);
-      const cornerMarkers: mapboxgl.Marker[] = corners.map((c, idx) => {
-        const cm = new mapboxgl.Marker({ draggable: true })
-          .setLngLat(c)
-          .addTo(mapRef.current!);
-        const updateRect = () => {
-          // axis-aligned rectangle resize with diagonal anchor, clamped min size, no inversion
-          const cur = cm.getLngLat();
-          const oppIdx = (idx + 2) % 4;
-          const anchorLng = corners[oppIdx][0];
-          const anchorLat = corners[oppIdx][1];
-          const minFt = 20;
-          const minLngDelta =
-            feetToMeters(minFt) /
-            (111320 * Math.cos((anchorLat * Math.PI) / 180));
-          const minLatDelta = feetToMeters(minFt) / 110540;
-          const sLng = idx === 0 || idx === 3 ? -1 : 1;
-          const sLat = idx === 0 || idx === 1 ? -1 : 1;
-          let dragLng = cur.lng;
-          let dragLat = cur.lat;
-          if (sLng > 0) dragLng = Math.max(anchorLng + minLngDelta, dragLng);
-          else dragLng = Math.min(anchorLng - minLngDelta, dragLng);
-          if (sLat > 0) dragLat = Math.max(anchorLat + minLatDelta, dragLat);
-          else dragLat = Math.min(anchorLat - minLatDelta, dragLat);
-          let newCorners: [number, number][] = [...corners] as [
-            number,
-            number
-          ][];
-          newCorners[oppIdx] = [anchorLng, anchorLat];
-          newCorners[idx] = [dragLng, dragLat];
-          newCorners[(idx + 1) % 4] = [dragLng, anchorLat];
-          newCorners[(idx + 3) % 4] = [anchorLng, dragLat];
-          // normalize to SW,SE,NE,NW to prevent index drift and dimension misreads
-          newCorners = normalizeCorners(newCorners);
-          corners = newCorners;
-          const updated = createRectangleFeature(corners);
-          const src = mapRef.current!.getSource(
-            sourceId
-          ) as mapboxgl.GeoJSONSource;
-          src.setData({
-            type: "FeatureCollection",
-            features: [updated],
-          } as FeatureCollection);
-          // update label position to top middle, 20ft off the top
-          const centerLng = (corners[0][0] + corners[2][0]) / 2; // Center longitude
-          const offsetLat = feetToMeters(20) / 110540;
-          const newTopMiddleLng = centerLng; // Center longitude
-          const newTopMiddleLat = corners[3][1] - offsetLat; // Top edge - 20ft offset
-          labelMarker.setLngLat([newTopMiddleLng, newTopMiddleLat]);
-          // update dims text
-          const metersW =
-            Math.abs(corners[1][0] - corners[0][0]) *
-            111320 *
-            Math.cos((newTopMiddleLat * Math.PI) / 180);
-          const metersH = Math.abs(corners[3][1] - corners[0][1]) * 110540;
-          dims.textContent = `${formatLengthNoSpace(
-            metersW
-          )} × ${formatLengthNoSpace(metersH)}`;
-          audienceAreasRef.current[id].corners = corners;
-          // move all corner pins in realtime to their new corners
-          corners.forEach((p, i) => cornerMarkers[i].setLngLat(p));
-        };
-        cm.on("drag", updateRect);
-        cm.on("dragend", updateRect);
-        return cm;
+    if (key === "audience") {
+      // Create audience rectangle default ~ 200ft x 90ft
+      createRectangleArea("audience", {
+        center: [lngLat.lng, lngLat.lat],
+        widthMeters: feetToMeters(200),
+        heightMeters: feetToMeters(90),
+        rotationDeg: 0,
       });
-      audienceAreasRef.current[id] = {
-        type: "audience",
-        number,
-        id,
-        sourceId,
-        fillLayerId: `${id}-fill`,
-        lineLayerId: `${id}-line`,
-        labelMarker,
-        cornerMarkers,
-        corners,
-      };
+      notifyAnnotationsChanged();
       return;
     }
 
-    if (item.key === "measurement") {
-      // Create measurement with two points 150ft apart, north/south vertical
-      const distanceFt = 150;
-      const distanceMeters = feetToMeters(distanceFt);
-      const metersToLat = (m: number) => m / 110540;
-      const latOffset = metersToLat(distanceMeters);
-
-      const points: [number, number][] = [
-        [lngLat.lng, lngLat.lat],
-        [lngLat.lng, lngLat.lat + latOffset], // Only lat offset for north/south
-      ];
-
-      const id = `meas-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      const number = ++measurementCounterRef.current;
-      const sourceId = `${id}-src`;
-
-      // Create line feature
-      const lineFeature = {
-        type: "Feature" as const,
-        geometry: {
-          type: "LineString" as const,
-          coordinates: points,
-        },
-        properties: {},
-      };
-
-      mapRef.current.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [lineFeature],
-        } as FeatureCollection,
-      });
-
-      mapRef.current.addLayer({
-        id: `${id}-line`,
-        type: "line",
-        source: sourceId,
-        paint: {
-          "line-color": item.color,
-          "line-opacity": 1,
-          "line-width": 3,
-        },
-      });
-
-      // Create label marker at center of line
-      const centerLng = (points[0][0] + points[1][0]) / 2;
-      const centerLat = (points[0][1] + points[1][1]) / 2;
-
-      const label = document.createElement("div");
-      label.className =
-        "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm backdrop-blur-sm border border-border text-center";
-      label.addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeMeasurement(id);
-      });
-
-      const title = document.createElement("div");
-      title.className = "font-medium leading-none";
-      title.textContent = "Measurement";
-
-      const distance = document.createElement("div");
-      distance.className = "text-[10px] text-muted-foreground";
-      distance.setAttribute("data-role", "distance");
-      distance.textContent = formatDistanceWithSpace(distanceMeters);
-
-      label.appendChild(title);
-      label.appendChild(distance);
+    if (key === "measurement") {
+      // Start with two points 150ft apart, north/south vertical
+      const start: [number, number] = [lngLat.lng, lngLat.lat];
+      createMeasurement([start, fromLocalMeters(start, 0, feetToMeters(150))]);
+      return;
+    }
 
-      const labelMarker = new mapboxgl.Marker({
-        element: label,
-        draggable: true,
-      })
-        .setLngLat([centerLng, centerLat])
-        .addTo(mapRef.current);
-
-      // Create point markers
-      const pointMarkers: mapboxgl.Marker[] = points.map((point, idx) => {
-        const pointEl = document.createElement("div");
-        pointEl.className =
-          "w-3 h-3 rounded-full border-2 border-white shadow-lg";
-        pointEl.style.backgroundColor = item.color;
-        pointEl.style.cursor = "move";
-
-        const marker = new mapboxgl.Marker({
-          element: pointEl,
-          draggable: true,
+    if (key === "area") {
+      // Start with a 100ft square; vertices can then be dragged or added
+      createPolygonArea(
+        "area",
+        rectangleCorners({
+          center: [lngLat.lng, lngLat.lat],
+          widthMeters: feetToMeters(100),
+          heightMeters: feetToMeters(100),
+          rotationDeg: 0,
         })
-          .setLngLat(point)
-          .addTo(mapRef.current!);
-
-        const updateMeasurement = () => {
-          const newPoint = marker.getLngLat();
-          const newPoints: [number, number][] = [...points];
-          newPoints[idx] = [newPoint.lng, newPoint.lat];
-
-          // Update line
-          const lineFeature = {
-            type: "Feature" as const,
-            geometry: {
-              type: "LineString" as const,
-              coordinates: newPoints,
-            },
-            properties: {},
-          };
-
-          const src = mapRef.current!.getSource(
-            sourceId
-          ) as mapboxgl.GeoJSONSource;
-          src.setData({
-            type: "FeatureCollection",
-            features: [lineFeature],
-          } as FeatureCollection);
-
-          // Update label position and distance
-          const newCenterLng = (newPoints[0][0] + newPoints[1][0]) / 2;
-          const newCenterLat = (newPoints[0][1] + newPoints[1][1]) / 2;
-          labelMarker.setLngLat([newCenterLng, newCenterLat]);
-
-          // Calculate distance
-          const lat1 = (newPoints[0][1] * Math.PI) / 180;
-          const lat2 = (newPoints[1][1] * Math.PI) / 180;
-          const deltaLat =
-            ((newPoints[1][1] - newPoints[0][1]) * Math.PI) / 180;
-          const deltaLng =
-            ((newPoints[1][0] - newPoints[0][0]) * Math.PI) / 180;
-
-          const a =
-            Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-            Math.cos(lat1) *
-              Math.cos(lat2) *
-              Math.sin(deltaLng / 2) *
-              Math.sin(deltaLng / 2);
-          const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-          const distanceMeters = 6371000 * c; // Earth radius in meters
-          distance.textContent = formatDistanceWithSpace(distanceMeters);
-
-          // Update points reference
-          points[0] = newPoints[0];
-          points[1] = newPoints[1];
-          measurementsRef.current[id].points = points;
-        };
-
-        marker.on("drag", updateMeasurement);
-        marker.on("dragend", updateMeasurement);
-
-        return marker;
-      });
-
-      measurementsRef.current[id] = {
-        type: "measurement",
-        number,
-        id,
-        sourceId,
-        lineLayerId: `${id}-line`,
-        labelMarker,
-        pointMarkers,
-        points,
-      };
-
-      // Add label drag handler to move entire measurement
-      const onLabelDrag = () => {
-        const cur = labelMarker.getLngLat();
-        const originalCenterLng = (points[0][0] + points[1][0]) / 2;
-        const originalCenterLat = (points[0][1] + points[1][1]) / 2;
-        const dLng = cur.lng - originalCenterLng;
-        const dLat = cur.lat - originalCenterLat;
-
-        // Move both points by the same offset
-        const newPoints: [number, number][] = [
-          [points[0][0] + dLng, points[0][1] + dLat],
-          [points[1][0] + dLng, points[1][1] + dLat],
-        ];
-
-        // Update the line
-        const lineFeature = {
-          type: "Feature" as const,
-          geometry: {
-            type: "LineString" as const,
-            coordinates: newPoints,
-          },
-          properties: {},
-        };
-
-        const src = mapRef.current!.getSource(
-          sourceId
-        ) as mapboxgl.GeoJSONSource;
-        src.setData({
-          type: "FeatureCollection",
-          features: [lineFeature],
-        } as FeatureCollection);
-
-        // Update point markers
-        newPoints.forEach((point, i) => pointMarkers[i].setLngLat(point));
-
-        // Update points reference
-        points[0] = newPoints[0];
-        points[1] = newPoints[1];
-        measurementsRef.current[id].points = points;
-      };
-
-      labelMarker.on("drag", onLabelDrag);
-      labelMarker.on("dragend", onLabelDrag);
-
+      );
       return;
     }
 
-    if (item.key === "restricted") {
-      // Create restricted rectangle default ~ 100ft x 60ft
-      const widthFt = 200;
-      const heightFt = 90;
-      const metersW = feetToMeters(widthFt);
-      const metersH = feetToMeters(heightFt);
-      const metersToLng = (m: number, lat: number) =>
-        m / (111320 * Math.cos((lat * Math.PI) / 180));
-      const metersToLat = (m: number) => m / 110540;
-      const lngW = metersToLng(metersW, lngLat.lat);
-      const latH = metersToLat(metersH);
-      let corners: [number, number][] = [
-        [lngLat.lng - lngW / 2, lngLat.lat - latH / 2],
-        [lngLat.lng + lngW / 2, lngLat.lat - latH / 2],
-        [lngLat.lng + lngW / 2, lngLat.lat + latH / 2],
-        [lngLat.lng - lngW / 2, lngLat.lat + latH / 2],
-      ];
-      const rectFeature = createRectangleFeature(corners);
-      const id = `rest-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      const number = ++restrictedCounterRef.current;
-      const sourceId = `${id}-src`;
-      mapRef.current.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "FeatureCollection",
-          features: [rectFeature],
-        } as FeatureCollection,
-      });
-      mapRef.current.addLayer({
-        id: `${id}-fill`,
-        type: "fill",
-        source: sourceId,
-        paint: { "fill-color": item.color, "fill-opacity": 0.1 },
-      });
-      mapRef.current.addLayer({
-        id: `${id}-line`,
-        type: "line",
-        source: sourceId,
-        paint: { "line-color": item.color, "line-opacity": 1, "line-width": 2 },
-      });
-      // Label marker centered
-      const label = document.createElement("div");
-      label.className =
-        "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm backdrop-blur-sm border border-border text-center";
-      label.addEventListener("contextmenu", (evt) => {
-        evt.preventDefault();
-        removeRestrictedArea(id);
-      });
-      const title = document.createElement("div");
-      title.className = "font-medium leading-none";
-      title.textContent = "Restricted";
-      const dims = document.createElement("div");
-      dims.className = "text-[10px] text-muted-foreground";
-      dims.setAttribute("data-role", "dims");
-      dims.textContent = `${formatLengthNoSpace(
-        metersW
-      )} × ${formatLengthNoSpace(metersH)}`;
-      label.appendChild(title);
-      label.appendChild(dims);
-      // Position label at top middle, 20ft off the top
-      const offsetFt = 20; // 20 feet off the top
-      const centerLng = (corners[0][0] + corners[2][0]) / 2; // Center longitude
-      const offsetLat = feetToMeters(offsetFt) / 110540;
-      const topMiddleLng = centerLng; // Center longitude
-      const topMiddleLat = corners[3][1] - offsetLat; // Top edge - 20ft offset
-      const labelMarker = new mapboxgl.Marker({
-        element: label,
-        draggable: true,
-      })
-        .setLngLat([topMiddleLng, topMiddleLat])
-        .addTo(mapRef.current);
-      // Dragging the label moves the whole rectangle
-      const onLabelDrag = () => {
-        const cur = labelMarker.getLngLat();
-        const centerLng = (corners[0][0] + corners[2][0]) / 2; // Center longitude
-        const offsetLat = feetToMeters(20) / 110540;
-        const dLng = cur.lng - centerLng; // Use center longitude as reference
-        const dLat = cur.lat - (corners[3][1] - offsetLat); // Use top-middle as reference
-        const movedCorners: [number, number][] = corners.map(([lng, lat]) => [
-          lng + dLng,
-          lat + dLat,
-        ]);
-        // keep size exact; only translate, then enforce min size to avoid later clamping jumps
-        const updated = createRectangleFeature(movedCorners);
-        const src = mapRef.current!.getSource(
-          sourceId
-        ) as mapboxgl.GeoJSONSource;
-        src.setData({
-          type: "FeatureCollection",
-          features: [updated],
-        } as FeatureCollection);
-        // move corner markers
-        movedCorners.forEach((c, i) => cornerMarkers[i].setLngLat(c));
-        // update corners reference
-        corners = movedCorners;
-        restrictedAreasRef.current[id].corners = movedCorners;
-        // keep label centered (already at cur), and update dims text to current size
-        const centerLatNow = (movedCorners[0][1] + movedCorners[2][1]) / 2;
-        const metersWNow =
-          Math.abs(movedCorners[1][0] - movedCorners[0][0]) *
-          111320 *
-          Math.cos((centerLatNow * Math.PI) / 180);
-        const metersHNow =
-          Math.abs(movedCorners[3][1] - movedCorners[0][1]) * 110540;
-        dims.textContent = `${formatLengthNoSpace(
-          metersWNow
-        )} × ${formatLengthNoSpace(metersHNow)}`;
-      };
-      labelMarker.on("drag", onLabelDrag);
-      labelMarker.on("dragend", onLabelDrag);
-      const cornerMarkers: mapboxgl.Marker[] = corners.map((c, idx) => {
-        const cm = new mapboxgl.Marker({ draggable: true })
-          .setLngLat(c)
-          .addTo(mapRef.current!);
-        const updateRect = () => {
-          // axis-aligned rectangle resize with diagonal anchor, clamped min size, no inversion
-          const cur = cm.getLngLat();
-          const oppIdx = (idx + 2) % 4;
-          const anchorLng = corners[oppIdx][0];
-          const anchorLat = corners[oppIdx][1];
-          const minFt = 20;
-          const minLngDelta =
-            feetToMeters(minFt) /
-            (111320 * Math.cos((anchorLat * Math.PI) / 180));
-          const minLatDelta = feetToMeters(minFt) / 110540;
-          const sLng = idx === 0 || idx === 3 ? -1 : 1;
-          const sLat = idx === 0 || idx === 1 ? -1 : 1;
-          let dragLng = cur.lng;
-          let dragLat = cur.lat;
-          if (sLng > 0) dragLng = Math.max(anchorLng + minLngDelta, dragLng);
-          else dragLng = Math.min(anchorLng - minLngDelta, dragLng);
-          if (sLat > 0) dragLat = Math.max(anchorLat + minLatDelta, dragLat);
-          else dragLat = Math.min(anchorLat - minLatDelta, dragLat);
-          let newCorners: [number, number][] = [...corners] as [
-            number,
-            number
-          ][];
-          newCorners[oppIdx] = [anchorLng, anchorLat];
-          newCorners[idx] = [dragLng, dragLat];
-          newCorners[(idx + 1) % 4] = [dragLng, anchorLat];
-          newCorners[(idx + 3) % 4] = [anchorLng, dragLat];
-          // normalize to SW,SE,NE,NW to prevent index drift and dimension misreads
-          newCorners = normalizeCorners(newCorners);
-          corners = newCorners;
-          const updated = createRectangleFeature(corners);
-          const src = mapRef.current!.getSource(
-            sourceId
-          ) as mapboxgl.GeoJSONSource;
-          src.setData({
-            type: "FeatureCollection",
-            features: [updated],
-          } as FeatureCollection);
-          // update label position to top middle, 20ft off the top
-          const centerLng = (corners[0][0] + corners[2][0]) / 2; // Center longitude
-          const offsetLat = feetToMeters(20) / 110540;
-          const newTopMiddleLng = centerLng; // Center longitude
-          const newTopMiddleLat = corners[3][1] - offsetLat; // Top edge - 20ft offset
-          labelMarker.setLngLat([newTopMiddleLng, newTopMiddleLat]);
-          // update dims text
-          const metersW =
-            Math.abs(corners[1][0] - corners[0][0]) *
-            111320 *
-            Math.cos((newTopMiddleLat * Math.PI) / 180);
-          const metersH = Math.abs(corners[3][1] - corners[0][1]) * 110540;
-          dims.textContent = `${formatLengthNoSpace(
-            metersW
-          )} × ${formatLengthNoSpace(metersH)}`;
-          restrictedAreasRef.current[id].corners = corners;
-          // move all corner pins in realtime to their new corners
-          corners.forEach((p, i) => cornerMarkers[i].setLngLat(p));
-        };
-        cm.on("drag", updateRect);
-        cm.on("dragend", updateRect);
-        return cm;
+    if (key === "restricted") {
+      // Create restricted rectangle default ~ 200ft x 90ft
+      createRectangleArea("restricted", {
+        center: [lngLat.lng, lngLat.lat],
+        widthMeters: feetToMeters(200),
+        heightMeters: feetToMeters(90),
+        rotationDeg: 0,
       });
-      restrictedAreasRef.current[id] = {
-        type: "restricted",
-        number,
-        id,
-        sourceId,
-        fillLayerId: `${id}-fill`,
-        lineLayerId: `${id}-line`,
-        labelMarker,
-        cornerMarkers,
-        corners,
-      };
+      notifyAnnotationsChanged();
       return;
     }
 
     // Handle custom annotation
-    if (item.key === "custom") {
+    if (key === "custom") {
       // Create custom annotation with default values
       const id = `custom-${Date.now()}-${Math.random().toString(36).slice(2)}`;
       const number = getNextAnnotationNumber();
@@ -2552,7 +4600,7 @@ export function MapShell() {
       // Create default Mapbox marker with custom color
       const marker = new mapboxgl.Marker({
         color: customColor,
-        draggable: true,
+        draggable: !viewOnlyRef.current,
         clickTolerance: 5, // Allow 5px movement before considering it a drag
       })
         .setLngLat([lngLat.lng, lngLat.lat])
@@ -2574,6 +4622,7 @@ export function MapShell() {
 
       // Add right-click handler to remove
       marker.getElement().addEventListener("contextmenu", (evt) => {
+        if (viewOnlyRef.current) return;
         evt.preventDefault();
         removeCustomAnnotation(id);
       });
@@ -2660,7 +4709,7 @@ export function MapShell() {
                   coordinates: [pos.lng, pos.lat],
                 },
                 properties: {
-                  text: customLabel || "Custom",
+                  text: annotationsRef.current[id]?.label ?? "Custom",
                 },
               },
             ],
@@ -2669,6 +4718,8 @@ export function MapShell() {
       };
       marker.on("drag", updateCustomText);
       marker.on("dragend", updateCustomText);
+      marker.on("dragend", recordHistory);
+      watchSelection(marker, id);
 
       // Open dialog immediately for configuration
       setEditingCustomAnnotation(id);
@@ -2678,38 +4729,57 @@ export function MapShell() {
     }
 
     // Firework-type marker and label
+    if (!product) return;
+    const deviceKind = productDeviceKind(product);
     const labelEl = document.createElement("div");
     labelEl.className =
       "rounded-md px-2 py-1 text-xs shadow bg-background/50 backdrop-blur-sm border border-border text-center";
-    const fwRadiusFeet = Math.round(item.inches * safetyDistance);
+    const fwRadiusFeet = Math.round(
+      falloutRadiusFeet(product.inches, deviceKind, product.falloutFeet)
+    );
     const fwRadiusText =
       measurementUnit === "feet"
         ? `${fwRadiusFeet} ft radius`
         : `${Math.round(feetToMeters(fwRadiusFeet))} m radius`;
-    labelEl.innerHTML = `<div class="font-medium leading-none">${item.label}</div><div class="text-muted-foreground text-[10px]">${fwRadiusText}</div>`;
+    // Product names come from edited catalogs, CSV imports and opened files
+    const title = document.createElement("div");
+    title.className = "font-medium leading-none";
+    title.textContent = product.name;
+    const radius = document.createElement("div");
+    radius.className = "text-muted-foreground text-[10px]";
+    radius.textContent = fwRadiusText;
+    labelEl.appendChild(title);
+    labelEl.appendChild(radius);
     const marker = new mapboxgl.Marker({
       element: labelEl,
-      color: item.color,
-      draggable: true,
+      color: product.color,
+      draggable: !viewOnlyRef.current,
     })
       .setLngLat([lngLat.lng, lngLat.lat])
       .addTo(mapRef.current);
     annotationMarkersRef.current.push(marker);
 
-    // Add fallout radius circle as a GeoJSON layer
-    const radiusFeet = item.inches * safetyDistance;
-    const radiusMeters = feetToMeters(radiusFeet);
+    // Add fallout zone (a circle in still air) as a GeoJSON layer
     const circleId = `circle-${Date.now()}-${Math.random()
       .toString(36)
       .slice(2)}`;
     const number = getNextAnnotationNumber();
     // right-click on label removes the entire annotation
     labelEl.addEventListener("contextmenu", (evt) => {
+      if (viewOnlyRef.current) return;
       evt.preventDefault();
       removeFireworkAnnotation(circleId);
     });
     const sourceId = `${circleId}-src`;
-    const feature = createCircleFeature(lngLat.lng, lngLat.lat, radiusMeters);
+    const feature = createFalloutFeature(
+      falloutEllipseAt(
+        lngLat.lng,
+        lngLat.lat,
+        product.inches,
+        deviceKind,
+        product
+      )
+    );
 
     mapRef.current.addSource(sourceId, {
       type: "geojson",
@@ -2723,7 +4793,7 @@ export function MapShell() {
       type: "fill",
       source: sourceId,
       paint: {
-        "fill-color": item.color,
+        "fill-color": product.color,
         "fill-opacity": 0.25,
       },
     });
@@ -2733,7 +4803,7 @@ export function MapShell() {
       type: "line",
       source: sourceId,
       paint: {
-        "line-color": item.color,
+        "line-color": product.color,
         "line-opacity": 1,
         "line-width": 2,
       },
@@ -2742,30 +4812,35 @@ export function MapShell() {
       type: "firework",
       number,
       id: circleId,
-      inches: item.inches,
-      label: item.label,
-      color: item.color,
+      inches: product.inches,
+      label: product.name,
+      color: product.color,
+      deviceKind,
+      productId: product.id,
+      falloutFeet: product.falloutFeet,
       marker,
       sourceId,
       fillLayerId: circleId,
       lineLayerId: lineId,
     };
+    attachFireworkClick(marker, circleId);
     if (showHeight) {
       addExtrusionForAnnotation(annotationsRef.current[circleId]!);
     }
     // Keep circle in sync when marker is dragged
     const updateCircle = () => {
       const pos = marker.getLngLat();
-      // Get the annotation record to access current inches value and use current safetyDistance from state
+      // Get the annotation record to access current inches value and use the current rule set
       const annotation = annotationsRef.current[circleId];
       if (!annotation) return;
-      const currentRadiusMeters = feetToMeters(
-        annotation.inches * safetyDistanceRef.current
-      );
-      const updated = createCircleFeature(
-        pos.lng,
-        pos.lat,
-        currentRadiusMeters
+      const updated = createFalloutFeature(
+        falloutEllipseAt(
+          pos.lng,
+          pos.lat,
+          annotation.inches,
+          annotation.deviceKind,
+          annotation
+        )
       );
       const src = mapRef.current!.getSource(sourceId) as mapboxgl.GeoJSONSource;
       src.setData({
@@ -2775,6 +4850,9 @@ export function MapShell() {
     };
     marker.on("drag", updateCircle);
     marker.on("dragend", updateCircle);
+    watchAnnotationMarker(marker);
+    watchSelection(marker, circleId);
+    notifyAnnotationsChanged();
   }
 
   function handleMapDragOver(e: React.DragEvent<HTMLDivElement>) {
@@ -2782,7 +4860,14 @@ export function MapShell() {
     e.dataTransfer.dropEffect = "copy";
   }
 
+  // The "Clear all" dialog; restoring state clears without recording
+  function handleClearAllAnnotations() {
+    clearAllAnnotations();
+    recordHistory();
+  }
+
   function clearAllAnnotations() {
+    clearSelection();
     for (const m of annotationMarkersRef.current) {
       try {
         m.remove();
@@ -2813,6 +4898,7 @@ export function MapShell() {
         if (map.getSource(rec.sourceId)) map.removeSource(rec.sourceId);
         rec.labelMarker.remove();
         rec.cornerMarkers.forEach((cm) => cm.remove());
+        rec.handleMarkers?.forEach((mm) => mm.remove());
       } catch {}
     }
     audienceAreasRef.current = {};
@@ -2825,9 +4911,25 @@ export function MapShell() {
         if (map && map.getSource(rec.sourceId)) map.removeSource(rec.sourceId);
         rec.labelMarker.remove();
         rec.pointMarkers.forEach((pm) => pm.remove());
+        rec.segmentMarkers.forEach((sm) => sm.remove());
       } catch {}
     }
     measurementsRef.current = {};
+    // Remove area measurements
+    for (const key of Object.keys(areaMeasurementsRef.current)) {
+      const rec = areaMeasurementsRef.current[key];
+      try {
+        if (map && map.getLayer(rec.fillLayerId))
+          map.removeLayer(rec.fillLayerId);
+        if (map && map.getLayer(rec.lineLayerId))
+          map.removeLayer(rec.lineLayerId);
+        if (map && map.getSource(rec.sourceId)) map.removeSource(rec.sourceId);
+        rec.labelMarker.remove();
+        rec.cornerMarkers.forEach((cm) => cm.remove());
+        rec.handleMarkers?.forEach((mm) => mm.remove());
+      } catch {}
+    }
+    areaMeasurementsRef.current = {};
     // Remove restricted areas
     for (const key of Object.keys(restrictedAreasRef.current)) {
       const rec = restrictedAreasRef.current[key];
@@ -2839,9 +4941,11 @@ export function MapShell() {
         if (map && map.getSource(rec.sourceId)) map.removeSource(rec.sourceId);
         rec.labelMarker.remove();
         rec.cornerMarkers.forEach((cm) => cm.remove());
+        rec.handleMarkers?.forEach((mm) => mm.remove());
       } catch {}
     }
     restrictedAreasRef.current = {};
+    notifyAnnotationsChanged();
   }
 
   return (
@@ -2854,6 +4958,21 @@ export function MapShell() {
         activeIndex={activeIndex}
         setActiveIndex={setActiveIndex}
         handleSubmitOrSelect={handleSubmitOrSelect}
+        projects={projects}
+        projectsOpen={projectsOpen}
+        setProjectsOpen={setProjectsOpen}
+        currentProjectId={currentProjectId}
+        hasUnsavedPlan={currentProjectId === null && outline.length > 0}
+        projectsError={projectsError}
+        handleCreateProject={handleCreateProject}
+        handleSaveAsProject={handleSaveAsProject}
+        handleOpenProject={handleOpenProject}
+        handleRenameProject={handleRenameProject}
+        handleDuplicateProject={handleDuplicateProject}
+        handleArchiveProject={handleArchiveProject}
+        handleDeleteProject={handleDeleteProject}
+        handleSaveProjectFile={handleSaveProjectFile}
+        openProjectFile={openProjectFile}
         settingsOpen={settingsOpen}
         setSettingsOpen={setSettingsOpen}
         projectName={projectName}
@@ -2862,9 +4981,11 @@ export function MapShell() {
         measurementUnit={measurementUnit}
         formMeasurementUnit={formMeasurementUnit}
         setFormMeasurementUnit={setFormMeasurementUnit}
-        safetyDistance={safetyDistance}
-        formSafetyDistance={formSafetyDistance}
-        setFormSafetyDistance={setFormSafetyDistance}
+        safetyRuleSet={safetyRuleSet}
+        formSafetyRuleSet={formSafetyRuleSet}
+        setFormSafetyRuleSet={setFormSafetyRuleSet}
+        formWindSettings={formWindSettings}
+        setFormWindSettings={setFormWindSettings}
         hasFormChanges={hasFormChanges}
         setHasFormChanges={setHasFormChanges}
         handleFormChange={handleFormChange}
@@ -2880,9 +5001,26 @@ export function MapShell() {
         setEditingCustomAnnotation={setEditingCustomAnnotation}
         handleSaveCustomAnnotation={handleSaveCustomAnnotation}
         handleCancelCustomAnnotation={handleCancelCustomAnnotation}
+        fireworkPropertiesOpen={fireworkPropertiesOpen}
+        setFireworkPropertiesOpen={setFireworkPropertiesOpen}
+        fireworkProperties={fireworkProperties}
+        setFireworkProperties={setFireworkProperties}
+        catalog={catalog}
+        catalogOpen={catalogOpen}
+        setCatalogOpen={setCatalogOpen}
+        handleSaveCatalog={handleSaveCatalog}
+        describeFalloutRadius={falloutRadiusText}
+        mortarTilt={mortarTilt}
+        setMortarTilt={setMortarTilt}
+        mortarAzimuth={mortarAzimuth}
+        setMortarAzimuth={setMortarAzimuth}
+        handleSaveFireworkProperties={handleSaveFireworkProperties}
+        handleCancelFireworkProperties={handleCancelFireworkProperties}
         mapRef={mapRef}
         showHeight={showHeight}
         setShowHeight={setShowHeight}
+        showAutoDimensions={showAutoDimensions}
+        setShowAutoDimensions={setShowAutoDimensions}
         isGenerating={isGenerating}
         generateSitePlanPdf={generateSitePlanPdf}
         shareOpen={shareOpen}
@@ -2891,12 +5029,35 @@ export function MapShell() {
         copied={copied}
         setCopied={setCopied}
         openShareDialog={openShareDialog}
-        clearAllAnnotations={clearAllAnnotations}
+        encryptShareLink={encryptShareLink}
+        clearAllAnnotations={handleClearAllAnnotations}
+        undo={undo}
+        redo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        selectionCount={selectionCount}
+        rotateSelection={rotateSelection}
+        deleteSelection={deleteSelection}
+        clearSelection={clearSelection}
+        copySelection={copySelection}
+        duplicateSelection={duplicateSelection}
+        outline={outline}
+        focusAnnotation={focusAnnotation}
+        renameAnnotation={renameAnnotation}
+        setAnnotationHidden={setAnnotationHidden}
+        removeAnnotation={removeAnnotation}
+        highlightAnnotation={highlightAnnotation}
         disclaimerOpen={disclaimerOpen}
         setDisclaimerOpen={setDisclaimerOpen}
         annotationsRef={annotationsRef}
         addExtrusionForAnnotation={addExtrusionForAnnotation}
         removeExtrusionForAnnotation={removeExtrusionForAnnotation}
+        clearanceViolations={clearanceViolations}
+        focusClearanceViolation={focusClearanceViolation}
+        drawingArea={drawingArea}
+        setDrawingArea={setDrawingArea}
+        finishAreaDrawing={finishAreaDrawing}
+        viewOnly={viewOnly}
       />
       <Map
         mapContainerRef={mapContainerRef}
@@ -2904,7 +5065,17 @@ export function MapShell() {
         handleMapDragOver={handleMapDragOver}
         helpOpen={helpOpen}
         setHelpOpen={setHelpOpen}
-        safetyDistance={safetyDistance}
+        unsavedSession={unsavedSession}
+        handleRestoreSession={handleRestoreSession}
+        handleDiscardSession={handleDiscardSession}
+        planLoadErrors={planLoadErrors}
+        setPlanLoadErrors={setPlanLoadErrors}
+        viewOnly={viewOnly}
+        handleMakeEditableCopy={handleMakeEditableCopy}
+        unlockOpen={lockedLink !== null}
+        unlockError={unlockError}
+        handleUnlockLink={handleUnlockLink}
+        handleCancelUnlock={handleCancelUnlock}
       />
     </div>
   );
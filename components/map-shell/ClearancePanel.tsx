@@ -0,0 +1,61 @@
+"use client";
+
+import type { ClearanceViolation } from "@/lib/clearance";
+import { metersToFeet } from "@/components/pdf-generator/utils";
+
+type MeasurementUnit = "feet" | "meters";
+
+interface ClearancePanelProps {
+  violations: ClearanceViolation[];
+  measurementUnit: MeasurementUnit;
+  onSelectViolation: (violation: ClearanceViolation) => void;
+}
+
+export const ClearancePanel: React.FC<ClearancePanelProps> = ({
+  violations,
+  measurementUnit,
+  onSelectViolation,
+}) => {
+  // Shortfalls round up so a 0.4 ft overlap never reads as "0 ft short"
+  const formatDistance = (meters: number, round = Math.round) =>
+    measurementUnit === "feet"
+      ? `${round(metersToFeet(meters))} ft`
+      : `${round(meters)} m`;
+
+  return (
+    <div className="pt-4">
+      <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+        Clearance
+      </div>
+      {violations.length === 0 ? (
+        <div className="rounded-md border border-border bg-white/5 px-3 py-2 text-xs text-muted-foreground">
+          No fallout zones overlap audience or restricted areas.
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {violations.map((v) => (
+            <li key={`${v.fireworkId}-${v.areaId}`}>
+              <button
+                type="button"
+                onClick={() => onSelectViolation(v)}
+                aria-label={`Show position ${v.fireworkNumber} on the map`}
+                className="w-full rounded-md border border-yellow-400/60 bg-yellow-400/10 px-3 py-2 text-left text-xs hover:bg-yellow-400/20"
+              >
+                <div className="font-medium leading-tight">
+                  #{v.fireworkNumber} {v.fireworkLabel} →{" "}
+                  {v.areaKind === "audience" ? "Audience" : "Restricted"}{" "}
+                  {v.areaNumber}
+                </div>
+                <div className="text-[10px] text-muted-foreground">
+                  {formatDistance(v.shortfallMeters, Math.ceil)} short (needs{" "}
+                  {formatDistance(v.requiredMeters)}, has{" "}
+                  {formatDistance(v.actualMeters)})
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,15 @@
 "use client";
 
 import { HelpDialog } from "./dialogs/help-dialog";
+import {
+  RestoreSessionDialog,
+  type UnsavedSessionPreview,
+} from "./dialogs/restore-session-dialog";
+import {
+  PlanLoadErrorDialog,
+  type PlanLoadErrors,
+} from "./dialogs/plan-load-error-dialog";
+import { UnlockLinkDialog } from "./dialogs/unlock-link-dialog";
 
 interface MapProps {
   mapContainerRef: React.RefObject<HTMLDivElement | null>;
@@ -8,7 +17,17 @@ interface MapProps {
   handleMapDragOver: (e: React.DragEvent<HTMLDivElement>) => void;
   helpOpen: boolean;
   setHelpOpen: (open: boolean) => void;
-  safetyDistance: 70 | 100;
+  unsavedSession: UnsavedSessionPreview | null;
+  handleRestoreSession: () => void;
+  handleDiscardSession: () => void;
+  planLoadErrors: PlanLoadErrors | null;
+  setPlanLoadErrors: (errors: PlanLoadErrors | null) => void;
+  viewOnly: boolean;
+  handleMakeEditableCopy: () => Promise<void>;
+  unlockOpen: boolean;
+  unlockError: string | null;
+  handleUnlockLink: (passphrase: string) => Promise<void>;
+  handleCancelUnlock: () => void;
 }
 
 export const Map: React.FC<MapProps> = ({
@@ -17,16 +36,40 @@ export const Map: React.FC<MapProps> = ({
   handleMapDragOver,
   helpOpen,
   setHelpOpen,
+  unsavedSession,
+  handleRestoreSession,
+  handleDiscardSession,
+  planLoadErrors,
+  setPlanLoadErrors,
+  viewOnly,
+  handleMakeEditableCopy,
+  unlockOpen,
+  unlockError,
+  handleUnlockLink,
+  handleCancelUnlock,
 }) => {
   return (
     <>
-      <div className="flex-1">
+      <div className="relative flex-1">
         <div
           ref={mapContainerRef}
           className="h-full w-full"
           onDrop={handleMapDrop}
           onDragOver={handleMapDragOver}
         />
+        {/* Read-only share link banner */}
+        {viewOnly && (
+          <div className="absolute left-1/2 top-4 z-10 flex -translate-x-1/2 items-center gap-3 rounded-md border border-border bg-background/95 px-4 py-2 text-sm shadow-lg">
+            <span>View only. Changes cannot be made to this shared plan.</span>
+            <button
+              type="button"
+              onClick={() => void handleMakeEditableCopy()}
+              className="shrink-0 rounded-md bg-brand px-3 py-1 text-white hover:opacity-90"
+            >
+              Make an editable copy
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Floating Action Button */}
@@ -54,6 +97,27 @@ export const Map: React.FC<MapProps> = ({
 
       {/* Help Dialog */}
       <HelpDialog helpOpen={helpOpen} setHelpOpen={setHelpOpen} />
+
+      {/* Crash recovery prompt */}
+      <RestoreSessionDialog
+        session={unsavedSession}
+        handleRestoreSession={handleRestoreSession}
+        handleDiscardSession={handleDiscardSession}
+      />
+
+      {/* Passphrase for a protected share link */}
+      <UnlockLinkDialog
+        unlockOpen={unlockOpen}
+        unlockError={unlockError}
+        handleUnlockLink={handleUnlockLink}
+        handleCancelUnlock={handleCancelUnlock}
+      />
+
+      {/* Project file or share link that could not be opened */}
+      <PlanLoadErrorDialog
+        planLoadErrors={planLoadErrors}
+        setPlanLoadErrors={setPlanLoadErrors}
+      />
     </>
   );
 };
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+
+export type OutlineKind =
+  | "firework"
+  | "custom"
+  | "audience"
+  | "restricted"
+  | "measurement"
+  | "area";
+
+/** One placed annotation as listed in the sidebar outline. */
+export interface OutlineEntry {
+  id: string;
+  kind: OutlineKind;
+  number: number;
+  label: string;
+  detail?: string; // caliber and radius, size or length
+  color: string;
+  hidden: boolean;
+}
+
+const GROUPS: { kind: OutlineKind; title: string }[] = [
+  { kind: "firework", title: "Fireworks" },
+  { kind: "custom", title: "Custom" },
+  { kind: "audience", title: "Audience" },
+  { kind: "restricted", title: "Restricted" },
+  { kind: "measurement", title: "Measurements" },
+  { kind: "area", title: "Areas" },
+];
+
+interface OutlinePanelProps {
+  entries: OutlineEntry[];
+  onFocus: (id: string) => void;
+  onRename: (id: string, label: string) => void;
+  onToggleHidden: (id: string, hidden: boolean) => void;
+  onDelete: (id: string) => void;
+  onHover: (id: string | null) => void;
+  readOnly?: boolean; // no renaming or deleting
+}
+
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({
+  entries,
+  onFocus,
+  onRename,
+  onToggleHidden,
+  onDelete,
+  onHover,
+  readOnly = false,
+}) => {
+  const [open, setOpen] = useState(true);
+  const [collapsed, setCollapsed] = useState<
+    Partial<Record<OutlineKind, boolean>>
+  >({});
+  const [editing, setEditing] = useState<{ id: string; value: string } | null>(
+    null
+  );
+
+  const commitRename = () => {
+    if (editing) onRename(editing.id, editing.value.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="pt-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="mb-2 flex w-full items-center justify-between text-xs font-semibold uppercase tracking-wide text-muted-foreground"
+      >
+        <span>Placed ({entries.length})</span>
+        <span aria-hidden>{open ? "▾" : "▸"}</span>
+      </button>
+      {open &&
+        (entries.length === 0 ? (
+          <div className="rounded-md border border-border bg-white/5 px-3 py-2 text-xs text-muted-foreground">
+            Drag items from the palette onto the map.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {GROUPS.map(({ kind, title }) => {
+              const rows = entries
+                .filter((e) => e.kind === kind)
+                .sort((a, b) => a.number - b.number);
+              if (rows.length === 0) return null;
+              return (
+                <div key={kind}>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setCollapsed({ ...collapsed, [kind]: !collapsed[kind] })
+                    }
+                    className="flex w-full items-center gap-1 text-[11px] font-medium text-muted-foreground"
+                  >
+                    <span aria-hidden>{collapsed[kind] ? "▸" : "▾"}</span>
+                    {title} ({rows.length})
+                  </button>
+                  {!collapsed[kind] && (
+                    <ul className="mt-1 space-y-1">
+                      {rows.map((e) => (
+                        <li
+                          key={e.id}
+                          onMouseEnter={() => onHover(e.id)}
+                          onMouseLeave={() => onHover(null)}
+                          className={`flex items-center gap-2 rounded-md border border-border bg-white/5 px-2 py-1 text-xs hover:bg-muted ${
+                            e.hidden ? "opacity-50" : ""
+                          }`}
+                        >
+                          <span
+                            aria-hidden
+                            className="h-2.5 w-2.5 shrink-0 rounded-full"
+                            style={{ backgroundColor: e.color }}
+                          />
+                          {editing?.id === e.id ? (
+                            <input
+                              autoFocus
+                              value={editing.value}
+                              onChange={(evt) =>
+                                setEditing({
+                                  id: e.id,
+                                  value: evt.target.value,
+                                })
+                              }
+                              onBlur={commitRename}
+                              onKeyDown={(evt) => {
+                                if (evt.key === "Enter") commitRename();
+                                else if (evt.key === "Escape") setEditing(null);
+                              }}
+                              aria-label="Annotation name"
+                              className="h-6 min-w-0 flex-1 rounded border border-border bg-background px-1"
+                            />
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => onFocus(e.id)}
+                              onDoubleClick={() => {
+                                if (!readOnly)
+                                  setEditing({ id: e.id, value: e.label });
+                              }}
+                              title={
+                                readOnly
+                                  ? "Click to show on the map"
+                                  : "Click to show on the map · double-click to rename"
+                              }
+                              className="min-w-0 flex-1 text-left"
+                            >
+                              <div className="truncate font-medium leading-tight">
+                                #{e.number} {e.label}
+                              </div>
+                              {e.detail && (
+                                <div className="truncate text-[10px] text-muted-foreground">
+                                  {e.detail}
+                                </div>
+                              )}
+                            </button>
+                          )}
+                          {!readOnly && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setEditing({ id: e.id, value: e.label })
+                              }
+                              aria-label={`Rename #${e.number}`}
+                              title="Rename"
+                              className="shrink-0 text-muted-foreground hover:text-foreground"
+                            >
+                              ✎
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => onToggleHidden(e.id, !e.hidden)}
+                            aria-label={`${e.hidden ? "Show" : "Hide"} #${
+                              e.number
+                            }`}
+                            title={e.hidden ? "Show on map" : "Hide on map"}
+                            className="shrink-0 text-muted-foreground hover:text-foreground"
+                          >
+                            {e.hidden ? "◌" : "◉"}
+                          </button>
+                          {!readOnly && (
+                            <button
+                              type="button"
+                              onClick={() => onDelete(e.id)}
+                              aria-label={`Delete #${e.number}`}
+                              title="Delete"
+                              className="shrink-0 text-muted-foreground hover:text-red-500"
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+
+interface SelectionPanelProps {
+  count: number;
+  onRotate: (deg: number) => void;
+  onDelete: () => void;
+  onClear: () => void;
+  onCopy: () => void;
+  onDuplicate: () => void;
+}
+
+export const SelectionPanel: React.FC<SelectionPanelProps> = ({
+  count,
+  onRotate,
+  onDelete,
+  onClear,
+  onCopy,
+  onDuplicate,
+}) => {
+  const [step, setStep] = useState(15);
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md border border-blue-500/60 bg-blue-500/10 p-2 text-xs">
+      <div className="text-muted-foreground">
+        {count} selected. Drag any selected item to move them together.
+      </div>
+      <div className="grid grid-cols-[1fr_auto_auto] items-center gap-2">
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">Rotate</span>
+          <input
+            type="number"
+            min={1}
+            max={180}
+            value={step}
+            onChange={(e) => setStep(Math.abs(Number(e.target.value)) || 0)}
+            className="h-8 w-14 rounded-md border border-border bg-background px-2"
+          />
+          <span className="text-muted-foreground">°</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => onRotate(-step)}
+          title="Rotate counter-clockwise about the selection centre"
+          className="h-8 rounded-md border border-border bg-background px-2 hover:bg-muted"
+        >
+          ⟲
+        </button>
+        <button
+          type="button"
+          onClick={() => onRotate(step)}
+          title="Rotate clockwise about the selection centre"
+          className="h-8 rounded-md border border-border bg-background px-2 hover:bg-muted"
+        >
+          ⟳
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={onDuplicate}
+          title="Duplicate (Ctrl+D)"
+          className="h-8 rounded-md border border-border bg-background hover:bg-muted"
+        >
+          Duplicate
+        </button>
+        <button
+          type="button"
+          onClick={onCopy}
+          title="Copy to paste here or in another tab (Ctrl+C, then Ctrl+V)"
+          className="h-8 rounded-md border border-border bg-background hover:bg-muted"
+        >
+          Copy
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="h-8 rounded-md border border-red-500/60 bg-background text-red-500 hover:bg-red-500/10"
+        >
+          Delete
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="h-8 rounded-md border border-border bg-background hover:bg-muted"
+        >
+          Deselect
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,43 @@
 "use client";
 
+import { useRef } from "react";
 import Image from "next/image";
-import { useMemo } from "react";
 import type { AnnotationRecord } from "../../app/components/map-shell";
 import type mapboxgl from "mapbox-gl";
+import type { ClearanceViolation } from "@/lib/clearance";
+import type { DeviceKind, SafetyRuleSet } from "@/lib/safety-rules";
+import {
+  describeProduct,
+  paletteGroups,
+  type CatalogProduct,
+} from "@/lib/catalog";
+import type { WindSettings } from "@/lib/fallout";
+import { PROJECT_FILE_EXTENSION } from "@/lib/project-file";
+import { UNTITLED_PROJECT, type ProjectSummary } from "@/lib/projects";
 import { ShareDialog } from "./dialogs/share-dialog";
 import { ClearAnnotationsDialog } from "./dialogs/clear-annotations-dialog";
 import { CustomAnnotationDialog } from "./dialogs/custom-annotation-dialog";
 import { SettingsDialog } from "./dialogs/settings-dialog";
+import { CatalogDialog } from "./dialogs/catalog-dialog";
+import { ProjectsDialog } from "./dialogs/projects-dialog";
+import {
+  FireworkPropertiesDialog,
+  type FireworkProperties,
+} from "./dialogs/firework-properties-dialog";
 import { DisclaimerDialog } from "./dialogs/disclaimer-dialog";
+import { ClearancePanel } from "./ClearancePanel";
+import { SelectionPanel } from "./SelectionPanel";
+import { OutlinePanel, type OutlineEntry } from "./OutlinePanel";
 
-type AnnotationItem = {
-  key: string;
-  label: string;
-  inches: number;
-  color: string;
-};
+// Drawing tools listed after the catalog products in the palette
+const ANNOTATION_TOOLS = [
+  { key: "audience", label: "Audience", glyph: "🤩" },
+  { key: "measurement", label: "Measurement", glyph: "📐" },
+  { key: "area", label: "Area", glyph: "⬠" },
+  { key: "restricted", label: "Restricted", glyph: "🚫" },
+  { key: "custom", label: "Custom", glyph: "✨" },
+];
+const PRODUCT_GLYPH = "💥";
 
 type MeasurementUnit = "feet" | "meters";
 
@@ -40,15 +62,36 @@ interface SidebarProps {
   measurementUnit: MeasurementUnit;
   formMeasurementUnit: MeasurementUnit;
   setFormMeasurementUnit: (unit: MeasurementUnit) => void;
-  safetyDistance: 70 | 100;
-  formSafetyDistance: 70 | 100;
-  setFormSafetyDistance: (distance: 70 | 100) => void;
+  safetyRuleSet: SafetyRuleSet;
+  formSafetyRuleSet: SafetyRuleSet;
+  setFormSafetyRuleSet: (ruleSet: SafetyRuleSet) => void;
+  formWindSettings: WindSettings;
+  setFormWindSettings: (wind: WindSettings) => void;
   hasFormChanges: boolean;
   setHasFormChanges: (hasChanges: boolean) => void;
   handleFormChange: () => void;
   handleSaveSettings: () => void;
   handleCancelSettings: () => void;
 
+  // Saved projects
+  projects: ProjectSummary[];
+  projectsOpen: boolean;
+  setProjectsOpen: (open: boolean) => void;
+  currentProjectId: string | null;
+  hasUnsavedPlan: boolean;
+  projectsError: string | null;
+  handleCreateProject: (name: string) => void;
+  handleSaveAsProject: (name: string) => void;
+  handleOpenProject: (id: string) => void;
+  handleRenameProject: (id: string, name: string) => void;
+  handleDuplicateProject: (id: string) => void;
+  handleArchiveProject: (id: string, archived: boolean) => void;
+  handleDeleteProject: (id: string) => void;
+
+  // Project files
+  handleSaveProjectFile: () => void;
+  openProjectFile: (file: File) => Promise<void>;
+
   // Custom annotation props
   customAnnotationOpen: boolean;
   setCustomAnnotationOpen: (open: boolean) => void;
@@ -61,10 +104,35 @@ interface SidebarProps {
   handleSaveCustomAnnotation: () => void;
   handleCancelCustomAnnotation: () => void;
 
+  // Product catalog
+  catalog: CatalogProduct[];
+  catalogOpen: boolean;
+  setCatalogOpen: (open: boolean) => void;
+  handleSaveCatalog: (products: CatalogProduct[]) => void;
+
+  // Firework properties props
+  fireworkPropertiesOpen: boolean;
+  setFireworkPropertiesOpen: (open: boolean) => void;
+  fireworkProperties: FireworkProperties;
+  setFireworkProperties: (properties: FireworkProperties) => void;
+  describeFalloutRadius: (
+    inches: number,
+    deviceKind?: DeviceKind,
+    overrideFeet?: number
+  ) => string;
+  mortarTilt: number;
+  setMortarTilt: (tilt: number) => void;
+  mortarAzimuth: number;
+  setMortarAzimuth: (azimuth: number) => void;
+  handleSaveFireworkProperties: () => void;
+  handleCancelFireworkProperties: () => void;
+
   // Map-related props
   mapRef: React.RefObject<mapboxgl.Map | null>;
   showHeight: boolean;
   setShowHeight: (show: boolean | ((prev: boolean) => boolean)) => void;
+  showAutoDimensions: boolean;
+  setShowAutoDimensions: (show: boolean) => void;
   isGenerating: boolean;
   generateSitePlanPdf: () => Promise<void>;
 
@@ -75,10 +143,25 @@ interface SidebarProps {
   copied: boolean;
   setCopied: (copied: boolean) => void;
   openShareDialog: () => Promise<void>;
+  encryptShareLink: (passphrase: string) => Promise<string>;
 
   // Clear annotations
   clearAllAnnotations: () => void;
 
+  // Undo / redo
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Multi-selection
+  selectionCount: number;
+  rotateSelection: (deg: number) => void;
+  deleteSelection: () => void;
+  clearSelection: () => void;
+  copySelection: () => void;
+  duplicateSelection: () => void;
+
   // Disclaimer
   disclaimerOpen: boolean;
   setDisclaimerOpen: (open: boolean) => void;
@@ -87,6 +170,26 @@ interface SidebarProps {
   annotationsRef: React.RefObject<Record<string, AnnotationRecord>>;
   addExtrusionForAnnotation: (rec: AnnotationRecord) => void;
   removeExtrusionForAnnotation: (rec: AnnotationRecord) => void;
+
+  // Clearance
+  clearanceViolations: ClearanceViolation[];
+  focusClearanceViolation: (violation: ClearanceViolation) => void;
+
+  // Outline of placed annotations
+  outline: OutlineEntry[];
+  focusAnnotation: (id: string) => void;
+  renameAnnotation: (id: string, label: string) => void;
+  setAnnotationHidden: (id: string, hidden: boolean) => void;
+  removeAnnotation: (id: string) => void;
+  highlightAnnotation: (id: string | null) => void;
+
+  // Polygon area drawing
+  drawingArea: "audience" | "restricted" | null;
+  setDrawingArea: (kind: "audience" | "restricted" | null) => void;
+  finishAreaDrawing: () => void;
+
+  // Read-only share link
+  viewOnly: boolean;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
@@ -99,12 +202,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
   handleSubmitOrSelect,
   settingsOpen,
   setSettingsOpen,
+  projectName,
   formProjectName,
   setFormProjectName,
+  measurementUnit,
   formMeasurementUnit,
   setFormMeasurementUnit,
-  formSafetyDistance,
-  setFormSafetyDistance,
+  formSafetyRuleSet,
+  setFormSafetyRuleSet,
+  formWindSettings,
+  setFormWindSettings,
   hasFormChanges,
   handleFormChange,
   handleSaveSettings,
@@ -117,9 +224,41 @@ export const Sidebar: React.FC<SidebarProps> = ({
   setCustomColor,
   handleSaveCustomAnnotation,
   handleCancelCustomAnnotation,
+  projects,
+  projectsOpen,
+  setProjectsOpen,
+  currentProjectId,
+  hasUnsavedPlan,
+  projectsError,
+  handleCreateProject,
+  handleSaveAsProject,
+  handleOpenProject,
+  handleRenameProject,
+  handleDuplicateProject,
+  handleArchiveProject,
+  handleDeleteProject,
+  handleSaveProjectFile,
+  openProjectFile,
+  catalog,
+  catalogOpen,
+  setCatalogOpen,
+  handleSaveCatalog,
+  fireworkPropertiesOpen,
+  setFireworkPropertiesOpen,
+  fireworkProperties,
+  setFireworkProperties,
+  describeFalloutRadius,
+  mortarTilt,
+  setMortarTilt,
+  mortarAzimuth,
+  setMortarAzimuth,
+  handleSaveFireworkProperties,
+  handleCancelFireworkProperties,
   mapRef,
   showHeight,
   setShowHeight,
+  showAutoDimensions,
+  setShowAutoDimensions,
   isGenerating,
   generateSitePlanPdf,
   shareOpen,
@@ -128,42 +267,37 @@ export const Sidebar: React.FC<SidebarProps> = ({
   copied,
   setCopied,
   openShareDialog,
+  encryptShareLink,
   clearAllAnnotations,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  selectionCount,
+  rotateSelection,
+  deleteSelection,
+  clearSelection,
+  copySelection,
+  duplicateSelection,
   disclaimerOpen,
   setDisclaimerOpen,
   annotationsRef,
   addExtrusionForAnnotation,
   removeExtrusionForAnnotation,
+  clearanceViolations,
+  focusClearanceViolation,
+  outline,
+  focusAnnotation,
+  renameAnnotation,
+  setAnnotationHidden,
+  removeAnnotation,
+  highlightAnnotation,
+  drawingArea,
+  setDrawingArea,
+  finishAreaDrawing,
+  viewOnly,
 }) => {
-  const annotationPalette = useMemo<AnnotationItem[]>(
-    () => [
-      { key: "bore-1", label: '1" Bore', inches: 1, color: "#FF5126" },
-      { key: "bore-1-2", label: '1.2" Bore', inches: 1.2, color: "#FF5126" },
-      { key: "bore-1-5", label: '1.5" Bore', inches: 1.5, color: "#FF5126" },
-      {
-        key: "shell-1-75",
-        label: '1.75" Shells',
-        inches: 1.75,
-        color: "#FF5126",
-      },
-      { key: "shell-2", label: '2" Shells', inches: 2, color: "#FF5126" },
-      { key: "shell-2-5", label: '2.5" Shells', inches: 2.5, color: "#FF5126" },
-      { key: "shell-3", label: '3" Shells', inches: 3, color: "#FF5126" },
-      { key: "shell-4", label: '4" Shells', inches: 4, color: "#FF5126" },
-      { key: "shell-5", label: '5" Shells', inches: 5, color: "#FF5126" },
-      { key: "shell-6", label: '6" Shells', inches: 6, color: "#FF5126" },
-      { key: "shell-7", label: '7" Shells', inches: 7, color: "#FF5126" },
-      { key: "shell-8", label: '8" Shells', inches: 8, color: "#FF5126" },
-      { key: "shell-10", label: '10" Shells', inches: 10, color: "#FF5126" },
-      { key: "shell-12", label: '12" Shells', inches: 12, color: "#FF5126" },
-      { key: "shell-16", label: '16" Shells', inches: 16, color: "#FF5126" },
-      { key: "audience", label: "Audience", inches: 0, color: "#3B82F6" },
-      { key: "measurement", label: "Measurement", inches: 0, color: "#22C55E" },
-      { key: "restricted", label: "Restricted", inches: 0, color: "#EF4444" },
-      { key: "custom", label: "Custom", inches: 0, color: "#8B5CF6" },
-    ],
-    []
-  );
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   return (
     <aside className="w-[300px] p-4 space-y-4 overflow-y-auto">
@@ -177,6 +311,45 @@ export const Sidebar: React.FC<SidebarProps> = ({
         />
       </div>
 
+      {/* Project */}
+      <div className="flex items-center gap-2">
+        <div
+          className="min-w-0 flex-1 truncate text-sm font-medium"
+          title={projectName || UNTITLED_PROJECT}
+        >
+          {projectName || UNTITLED_PROJECT}
+          {currentProjectId === null && (
+            <span className="ml-1 text-xs font-normal text-muted-foreground">
+              (not saved)
+            </span>
+          )}
+        </div>
+        {!viewOnly && (
+          <button
+            type="button"
+            onClick={() => setProjectsOpen(true)}
+            className="h-8 shrink-0 rounded-md border border-border bg-background px-3 text-sm hover:bg-muted"
+          >
+            Projects
+          </button>
+        )}
+      </div>
+      <ProjectsDialog
+        projectsOpen={projectsOpen}
+        setProjectsOpen={setProjectsOpen}
+        projects={projects}
+        currentProjectId={currentProjectId}
+        hasUnsavedPlan={hasUnsavedPlan}
+        projectsError={projectsError}
+        handleCreateProject={handleCreateProject}
+        handleSaveAsProject={handleSaveAsProject}
+        handleOpenProject={handleOpenProject}
+        handleRenameProject={handleRenameProject}
+        handleDuplicateProject={handleDuplicateProject}
+        handleArchiveProject={handleArchiveProject}
+        handleDeleteProject={handleDeleteProject}
+      />
+
       {/* Search */}
       <div>
         <form
@@ -249,54 +422,138 @@ export const Sidebar: React.FC<SidebarProps> = ({
       </div>
 
       {/* Annotations */}
-      <div className="pt-4">
-        <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
-          Annotations
-        </div>
-        <div className="grid grid-cols-2 gap-2">
-          {annotationPalette.map((a) => (
+      {!viewOnly && (
+        <div className="pt-4">
+          <div className="mb-2 flex items-center justify-between">
+            <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Annotations
+            </div>
             <button
-              key={a.key}
-              title={a.label}
-              draggable
-              onDragStart={(e) => {
-                e.dataTransfer.effectAllowed = "copy";
-                e.dataTransfer.setData(
-                  "text/plain",
-                  JSON.stringify({
-                    key: a.key,
-                    glyph:
-                      a.key === "audience"
-                        ? "🤩"
-                        : a.key === "measurement"
-                        ? "📐"
-                        : a.key === "restricted"
-                        ? "🚫"
-                        : a.key === "custom"
-                        ? "✨"
-                        : "💥",
-                  })
-                );
-              }}
-              className="h-9 w-full grid grid-cols-[20px_1fr] items-center text-start gap-0.5 rounded-md border border-border bg-white/5 !cursor-move hover:bg-muted px-2 text-xs"
               type="button"
+              onClick={() => setCatalogOpen(true)}
+              className="text-xs text-muted-foreground hover:text-foreground"
             >
-              <span>
-                {a.key === "audience"
-                  ? "🤩"
-                  : a.key === "measurement"
-                  ? "📐"
-                  : a.key === "restricted"
-                  ? "🚫"
-                  : a.key === "custom"
-                  ? "✨"
-                  : "💥"}
-              </span>
-              <span className="truncate">{a.label}</span>
+              Manage catalog
             </button>
-          ))}
+          </div>
+          <div className="space-y-3">
+            {[
+              ...paletteGroups(catalog).map((g) => ({
+                title: g.title,
+                items: g.products.map((p) => ({
+                  key: p.id,
+                  label: p.name,
+                  title: `${p.name}\n${describeProduct(p)}`,
+                  glyph: p.favorite ? "★" : PRODUCT_GLYPH,
+                })),
+              })),
+              {
+                title: "Layout",
+                items: ANNOTATION_TOOLS.map((t) => ({ ...t, title: t.label })),
+              },
+            ].map((group) => (
+              <div key={group.title}>
+                <div className="mb-1 text-[11px] font-medium text-muted-foreground">
+                  {group.title}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {group.items.map((a) => (
+                    <button
+                      key={a.key}
+                      title={a.title}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "copy";
+                        e.dataTransfer.setData(
+                          "text/plain",
+                          JSON.stringify({ key: a.key, glyph: a.glyph })
+                        );
+                      }}
+                      className="h-9 w-full grid grid-cols-[20px_1fr] items-center text-start gap-0.5 rounded-md border border-border bg-white/5 !cursor-move hover:bg-muted px-2 text-xs"
+                      type="button"
+                    >
+                      <span>{a.glyph}</span>
+                      <span className="truncate">{a.label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          {drawingArea ? (
+            <div className="mt-2 space-y-2 rounded-md border border-border bg-white/5 p-2 text-xs">
+              <div className="text-muted-foreground">
+                Click the map to add {drawingArea} area vertices. Click the
+                first vertex, double-click or press Enter to finish; Backspace
+                removes the last vertex.
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={finishAreaDrawing}
+                  className="h-8 rounded-md bg-brand text-white hover:opacity-90"
+                >
+                  Finish
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDrawingArea(null)}
+                  className="h-8 rounded-md border border-border bg-background hover:bg-muted"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setDrawingArea("audience")}
+                title="Draw a free-form audience area"
+                className="h-9 w-full grid grid-cols-[20px_1fr] items-center text-start gap-0.5 rounded-md border border-border bg-white/5 hover:bg-muted px-2 text-xs"
+              >
+                <span>✏️</span>
+                <span className="truncate">Draw Audience</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setDrawingArea("restricted")}
+                title="Draw a free-form restricted area"
+                className="h-9 w-full grid grid-cols-[20px_1fr] items-center text-start gap-0.5 rounded-md border border-border bg-white/5 hover:bg-muted px-2 text-xs"
+              >
+                <span>✏️</span>
+                <span className="truncate">Draw Restricted</span>
+              </button>
+            </div>
+          )}
+          {selectionCount > 0 && (
+            <SelectionPanel
+              count={selectionCount}
+              onRotate={rotateSelection}
+              onDelete={deleteSelection}
+              onClear={clearSelection}
+              onCopy={copySelection}
+              onDuplicate={duplicateSelection}
+            />
+          )}
         </div>
-      </div>
+      )}
+
+      <ClearancePanel
+        violations={clearanceViolations}
+        measurementUnit={measurementUnit}
+        onSelectViolation={focusClearanceViolation}
+      />
+
+      <OutlinePanel
+        entries={outline}
+        onFocus={focusAnnotation}
+        onRename={renameAnnotation}
+        onToggleHidden={setAnnotationHidden}
+        onDelete={removeAnnotation}
+        onHover={highlightAnnotation}
+        readOnly={viewOnly}
+      />
 
       <div className="pt-4">
         <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
@@ -304,20 +561,24 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </div>
         <div className="flex flex-col items-stretch gap-2">
           {/* Settings Dialog */}
-          <SettingsDialog
-            settingsOpen={settingsOpen}
-            setSettingsOpen={setSettingsOpen}
-            formProjectName={formProjectName}
-            setFormProjectName={setFormProjectName}
-            formMeasurementUnit={formMeasurementUnit}
-            setFormMeasurementUnit={setFormMeasurementUnit}
-            formSafetyDistance={formSafetyDistance}
-            setFormSafetyDistance={setFormSafetyDistance}
-            hasFormChanges={hasFormChanges}
-            handleFormChange={handleFormChange}
-            handleSaveSettings={handleSaveSettings}
-            handleCancelSettings={handleCancelSettings}
-          />
+          {!viewOnly && (
+            <SettingsDialog
+              settingsOpen={settingsOpen}
+              setSettingsOpen={setSettingsOpen}
+              formProjectName={formProjectName}
+              setFormProjectName={setFormProjectName}
+              formMeasurementUnit={formMeasurementUnit}
+              setFormMeasurementUnit={setFormMeasurementUnit}
+              formSafetyRuleSet={formSafetyRuleSet}
+              setFormSafetyRuleSet={setFormSafetyRuleSet}
+              formWindSettings={formWindSettings}
+              setFormWindSettings={setFormWindSettings}
+              hasFormChanges={hasFormChanges}
+              handleFormChange={handleFormChange}
+              handleSaveSettings={handleSaveSettings}
+              handleCancelSettings={handleCancelSettings}
+            />
+          )}
 
           {/* Custom Annotation Dialog */}
           <CustomAnnotationDialog
@@ -332,6 +593,55 @@ export const Sidebar: React.FC<SidebarProps> = ({
             handleCancelCustomAnnotation={handleCancelCustomAnnotation}
           />
 
+          {/* Product Catalog Dialog */}
+          <CatalogDialog
+            catalogOpen={catalogOpen}
+            setCatalogOpen={setCatalogOpen}
+            catalog={catalog}
+            measurementUnit={measurementUnit}
+            handleSaveCatalog={handleSaveCatalog}
+          />
+
+          {/* Firework Properties Dialog */}
+          <FireworkPropertiesDialog
+            fireworkPropertiesOpen={fireworkPropertiesOpen}
+            setFireworkPropertiesOpen={setFireworkPropertiesOpen}
+            fireworkProperties={fireworkProperties}
+            setFireworkProperties={setFireworkProperties}
+            products={catalog}
+            describeRadius={describeFalloutRadius}
+            mortarTilt={mortarTilt}
+            setMortarTilt={setMortarTilt}
+            mortarAzimuth={mortarAzimuth}
+            setMortarAzimuth={setMortarAzimuth}
+            handleSaveFireworkProperties={handleSaveFireworkProperties}
+            handleCancelFireworkProperties={handleCancelFireworkProperties}
+          />
+
+          {/* Undo / Redo Buttons */}
+          {!viewOnly && (
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted disabled:opacity-60"
+              >
+                Undo
+              </button>
+              <button
+                type="button"
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted disabled:opacity-60"
+              >
+                Redo
+              </button>
+            </div>
+          )}
+
           {/* Reset Camera Button */}
           <button
             type="button"
@@ -371,6 +681,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
           >
             {showHeight ? "Hide Height" : "Show Height"}
           </button>
+          <button
+            type="button"
+            onClick={() => setShowAutoDimensions(!showAutoDimensions)}
+            title="Dimension lines from each fallout edge to nearby audience and restricted areas"
+            className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+          >
+            {showAutoDimensions ? "Hide Dimensions" : "Show Dimensions"}
+          </button>
           <button
             type="button"
             onClick={() => void generateSitePlanPdf()}
@@ -380,6 +698,41 @@ export const Sidebar: React.FC<SidebarProps> = ({
             {isGenerating ? "Generating…" : "Generate Site Plan"}
           </button>
 
+          {/* Project file buttons */}
+          <div
+            className={`grid gap-2 ${viewOnly ? "grid-cols-1" : "grid-cols-2"}`}
+          >
+            <button
+              type="button"
+              onClick={handleSaveProjectFile}
+              title="Download the plan as a .pyroplot file"
+              className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+            >
+              Save to File
+            </button>
+            {!viewOnly && (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                title="Open a .pyroplot file, or drop one on the map"
+                className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+              >
+                Open File
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${PROJECT_FILE_EXTENSION},application/json`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void openProjectFile(file);
+              }}
+            />
+          </div>
+
           {/* Share Dialog */}
           <ShareDialog
             shareOpen={shareOpen}
@@ -388,10 +741,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
             copied={copied}
             setCopied={setCopied}
             openShareDialog={openShareDialog}
+            encryptShareLink={encryptShareLink}
           />
 
           {/* Clear Annotations Dialog */}
-          <ClearAnnotationsDialog clearAllAnnotations={clearAllAnnotations} />
+          {!viewOnly && (
+            <ClearAnnotationsDialog clearAllAnnotations={clearAllAnnotations} />
+          )}
         </div>
 
         {/* Legal Disclaimer */}
@@ -0,0 +1,612 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { feetToMeters, metersToFeet } from "@/components/pdf-generator/utils";
+import {
+  CATALOG_CSV_COLUMNS,
+  DEFAULT_CATALOG,
+  EFFECT_TYPES,
+  catalogToCsv,
+  createProduct,
+  describeProduct,
+  guessColumnMapping,
+  mergeCatalog,
+  moveProduct,
+  productsFromCsv,
+  validateProduct,
+  type CatalogProduct,
+  type ColumnMapping,
+  type EffectType,
+} from "@/lib/catalog";
+import { type CsvRecord, parseCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/download";
+
+type MeasurementUnit = "feet" | "meters";
+
+interface CatalogDialogProps {
+  catalogOpen: boolean;
+  setCatalogOpen: (open: boolean) => void;
+  catalog: CatalogProduct[];
+  measurementUnit: MeasurementUnit;
+  handleSaveCatalog: (products: CatalogProduct[]) => void;
+}
+
+// Text inputs for one product; optional numbers stay blank until set
+interface ProductForm {
+  id: string;
+  favorite?: boolean;
+  name: string;
+  manufacturer: string;
+  category: string;
+  inches: string;
+  effectType: EffectType;
+  shots: string;
+  durationSec: string;
+  color: string;
+  fallout: string; // in the display unit
+}
+
+// A CSV file being mapped onto catalog fields before it is merged
+interface CsvImportState {
+  fileName: string;
+  headers: string[];
+  rows: CsvRecord[];
+  mapping: ColumnMapping;
+  replaceExisting: boolean;
+}
+
+const UNMAPPED = "none";
+
+function optionalNumber(text: string): number | undefined {
+  return text.trim() === "" ? undefined : Number(text);
+}
+
+export const CatalogDialog: React.FC<CatalogDialogProps> = ({
+  catalogOpen,
+  setCatalogOpen,
+  catalog,
+  measurementUnit,
+  handleSaveCatalog,
+}) => {
+  return (
+    <Dialog open={catalogOpen} onOpenChange={setCatalogOpen}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Product Catalog</DialogTitle>
+        </DialogHeader>
+        {/* Mounted with the dialog, so every opening starts from the saved catalog */}
+        <CatalogEditor
+          catalog={catalog}
+          measurementUnit={measurementUnit}
+          onSave={handleSaveCatalog}
+          onCancel={() => setCatalogOpen(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface CatalogEditorProps {
+  catalog: CatalogProduct[];
+  measurementUnit: MeasurementUnit;
+  onSave: (products: CatalogProduct[]) => void;
+  onCancel: () => void;
+}
+
+const CatalogEditor: React.FC<CatalogEditorProps> = ({
+  catalog,
+  measurementUnit,
+  onSave,
+  onCancel,
+}) => {
+  const [products, setProducts] = useState(catalog);
+  const [form, setForm] = useState<ProductForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [csvImport, setCsvImport] = useState<CsvImportState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const unitLabel = measurementUnit === "feet" ? "ft" : "m";
+
+  const toForm = (p: CatalogProduct): ProductForm => ({
+    id: p.id,
+    favorite: p.favorite,
+    name: p.name,
+    manufacturer: p.manufacturer ?? "",
+    category: p.category ?? "",
+    inches: String(p.inches),
+    effectType: p.effectType,
+    shots: p.shots === undefined ? "" : String(p.shots),
+    durationSec: p.durationSec === undefined ? "" : String(p.durationSec),
+    color: p.color,
+    fallout:
+      p.falloutFeet === undefined
+        ? ""
+        : String(
+            Math.round(
+              measurementUnit === "feet"
+                ? p.falloutFeet
+                : feetToMeters(p.falloutFeet)
+            )
+          ),
+  });
+
+  const fromForm = (f: ProductForm): CatalogProduct => {
+    const fallout = optionalNumber(f.fallout);
+    const product: CatalogProduct = {
+      id: f.id,
+      name: f.name.trim(),
+      inches: Number(f.inches),
+      effectType: f.effectType,
+      color: f.color,
+    };
+    if (f.manufacturer.trim()) product.manufacturer = f.manufacturer.trim();
+    if (f.category.trim()) product.category = f.category.trim();
+    const shots = optionalNumber(f.shots);
+    if (shots !== undefined) product.shots = shots;
+    const durationSec = optionalNumber(f.durationSec);
+    if (durationSec !== undefined) product.durationSec = durationSec;
+    if (fallout !== undefined)
+      product.falloutFeet =
+        measurementUnit === "feet" ? fallout : metersToFeet(fallout);
+    if (f.favorite) product.favorite = true;
+    return product;
+  };
+
+  const commitForm = () => {
+    if (!form) return;
+    const product = fromForm(form);
+    const problem = validateProduct(product);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const index = products.findIndex((p) => p.id === product.id);
+    setProducts(
+      index === -1
+        ? [...products, product]
+        : products.map((p) => (p.id === product.id ? product : p))
+    );
+    setForm(null);
+    setError(null);
+  };
+
+  const toggleFavorite = (id: string) =>
+    setProducts(
+      products.map((p) =>
+        p.id === id ? { ...p, favorite: p.favorite ? undefined : true } : p
+      )
+    );
+
+  const openCsvFile = async (file: File) => {
+    const [header, ...rows] = parseCsv(await file.text());
+    const headers = header?.fields;
+    if (!headers || rows.length === 0) {
+      setError(`${file.name} has no product rows.`);
+      return;
+    }
+    setError(null);
+    setCsvImport({
+      fileName: file.name,
+      headers,
+      rows,
+      mapping: guessColumnMapping(headers),
+      replaceExisting: true,
+    });
+  };
+
+  if (csvImport) {
+    const { mapping } = csvImport;
+    const result = productsFromCsv(csvImport.rows, mapping, products);
+    const missing = CATALOG_CSV_COLUMNS.filter(
+      (c) => c.required && mapping[c.field] === undefined
+    );
+    const added = result.products.length - result.updates.length;
+    const importCount =
+      added + (csvImport.replaceExisting ? result.updates.length : 0);
+    const rowsWithErrors = new Set(result.errors.map((e) => e.line)).size;
+    return (
+      <>
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            {csvImport.fileName} · {csvImport.rows.length} rows. Choose the
+            column that holds each field.
+          </p>
+          <div className="space-y-2">
+            {CATALOG_CSV_COLUMNS.map((col) => (
+              <div
+                key={col.field}
+                className="grid grid-cols-[160px_1fr] items-center gap-3"
+              >
+                <label className="text-sm text-muted-foreground">
+                  {col.label}
+                  {col.required && " *"}
+                </label>
+                <Select
+                  value={
+                    mapping[col.field] === undefined
+                      ? UNMAPPED
+                      : String(mapping[col.field])
+                  }
+                  onValueChange={(v) =>
+                    setCsvImport({
+                      ...csvImport,
+                      mapping: {
+                        ...mapping,
+                        [col.field]: v === UNMAPPED ? undefined : Number(v),
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                    {csvImport.headers.map((h, i) => (
+                      <SelectItem key={i} value={String(i)}>
+                        {h.trim() || `Column ${i + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          {missing.length > 0 ? (
+            <p className="text-xs text-red-500">
+              Choose a column for {missing.map((c) => c.label).join(" and ")}.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm">
+                {added} new
+                {result.updates.length > 0 &&
+                  ` · ${result.updates.length} already in the catalog`}
+                {rowsWithErrors > 0 &&
+                  ` · ${rowsWithErrors} ${
+                    rowsWithErrors === 1 ? "row" : "rows"
+                  } skipped`}
+              </p>
+              {result.updates.length > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={csvImport.replaceExisting}
+                    onChange={(e) =>
+                      setCsvImport({
+                        ...csvImport,
+                        replaceExisting: e.target.checked,
+                      })
+                    }
+                  />
+                  Replace existing products with the same key
+                </label>
+              )}
+              {result.errors.length > 0 && (
+                <ul className="max-h-40 space-y-1 overflow-y-auto rounded-md border border-red-500/40 bg-red-500/5 p-2 text-xs">
+                  {result.errors.map((e, i) => (
+                    <li key={i}>
+                      <span className="font-medium">Line {e.line}:</span>{" "}
+                      {e.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={() => setCsvImport(null)}
+            className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            disabled={missing.length > 0 || importCount === 0}
+            onClick={() => {
+              setProducts(
+                mergeCatalog(
+                  products,
+                  result.products,
+                  csvImport.replaceExisting
+                )
+              );
+              setCsvImport(null);
+            }}
+            className="inline-flex items-center justify-center rounded-md bg-brand text-white px-3 py-2 text-sm hover:opacity-90 disabled:opacity-50"
+          >
+            Import {importCount} {importCount === 1 ? "Product" : "Products"}
+          </button>
+        </DialogFooter>
+      </>
+    );
+  }
+
+  if (form) {
+    const field = (
+      label: string,
+      key: keyof ProductForm,
+      props: React.ComponentProps<typeof Input> = {}
+    ) => (
+      <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+        <label className="text-sm text-muted-foreground">{label}</label>
+        <Input
+          value={String(form[key] ?? "")}
+          onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+          {...props}
+        />
+      </div>
+    );
+    return (
+      <>
+        <div className="space-y-4">
+          {field("Name", "name", { placeholder: 'e.g. 3" Red Peony' })}
+          {field("Manufacturer", "manufacturer", { placeholder: "Optional" })}
+          {field("Category", "category", {
+            placeholder: "Palette group, e.g. Cakes",
+            list: "catalog-categories",
+          })}
+          <datalist id="catalog-categories">
+            {[...new Set(products.map((p) => p.category).filter(Boolean))].map(
+              (c) => (
+                <option key={c} value={c} />
+              )
+            )}
+          </datalist>
+          {field("Caliber (in)", "inches", {
+            type: "number",
+            min: 0.25,
+            step: 0.25,
+          })}
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">Effect Type</label>
+            <Select
+              value={form.effectType}
+              onValueChange={(v) =>
+                setForm({ ...form, effectType: v as EffectType })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EFFECT_TYPES.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {field("Shots", "shots", {
+            type: "number",
+            min: 1,
+            step: 1,
+            placeholder: "Optional",
+          })}
+          {field("Duration (s)", "durationSec", {
+            type: "number",
+            min: 0,
+            placeholder: "Optional",
+          })}
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">Color</label>
+            <input
+              type="color"
+              value={form.color}
+              onChange={(e) => setForm({ ...form, color: e.target.value })}
+              className="h-9 w-16 cursor-pointer rounded-md border border-border bg-background p-1"
+            />
+          </div>
+          {field(`Fallout Override (${unitLabel})`, "fallout", {
+            type: "number",
+            min: 1,
+            placeholder: "Use safety rules",
+          })}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={() => {
+              setForm(null);
+              setError(null);
+            }}
+            className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={commitForm}
+            className="inline-flex items-center justify-center rounded-md bg-brand text-white px-3 py-2 text-sm hover:opacity-90"
+          >
+            Done
+          </button>
+        </DialogFooter>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Products appear in the palette, favourites first. Changes apply to
+          fireworks placed afterwards.
+        </p>
+        {products.length === 0 ? (
+          <div className="rounded-md border border-border px-3 py-2 text-sm text-muted-foreground">
+            The catalog is empty.
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {products.map((p, i) => (
+              <li
+                key={p.id}
+                className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-sm"
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleFavorite(p.id)}
+                  aria-label={`${p.favorite ? "Unfavourite" : "Favourite"} ${
+                    p.name
+                  }`}
+                  title={p.favorite ? "Remove from favourites" : "Favourite"}
+                  className={
+                    p.favorite
+                      ? "text-amber-500"
+                      : "text-muted-foreground hover:text-foreground"
+                  }
+                >
+                  {p.favorite ? "★" : "☆"}
+                </button>
+                <span
+                  aria-hidden
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: p.color }}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{p.name}</div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {p.category && `${p.category} · `}
+                    {describeProduct(p)}
+                    {p.falloutFeet !== undefined &&
+                      ` · ${Math.round(
+                        measurementUnit === "feet"
+                          ? p.falloutFeet
+                          : feetToMeters(p.falloutFeet)
+                      )} ${unitLabel} fallout`}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setProducts(moveProduct(products, i, i - 1))}
+                  disabled={i === 0}
+                  aria-label={`Move ${p.name} up`}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setProducts(moveProduct(products, i, i + 1))}
+                  disabled={i === products.length - 1}
+                  aria-label={`Move ${p.name} down`}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setForm(toForm(p))}
+                  aria-label={`Edit ${p.name}`}
+                  title="Edit"
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  ✎
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setProducts(products.filter((q) => q.id !== p.id))
+                  }
+                  aria-label={`Remove ${p.name}`}
+                  title="Remove"
+                  className="text-muted-foreground hover:text-red-500"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setForm(toForm(createProduct()))}
+            className="h-8 flex-1 rounded-md border border-border bg-background text-sm hover:bg-muted"
+          >
+            Add Product
+          </button>
+          <button
+            type="button"
+            onClick={() => setProducts(DEFAULT_CATALOG)}
+            title="Replace the catalog with the built-in bore and shell sizes"
+            className="h-8 rounded-md border border-border bg-background px-3 text-sm hover:bg-muted"
+          >
+            Restore Defaults
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="h-8 flex-1 rounded-md border border-border bg-background text-sm hover:bg-muted"
+          >
+            Import CSV
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              downloadFile(
+                catalogToCsv(products),
+                "pyroplot-catalog.csv",
+                "text/csv"
+              )
+            }
+            disabled={products.length === 0}
+            className="h-8 flex-1 rounded-md border border-border bg-background text-sm hover:bg-muted disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void openCsvFile(file);
+            }}
+          />
+        </div>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+      <DialogFooter>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(products)}
+          className="inline-flex items-center justify-center rounded-md bg-brand text-white px-3 py-2 text-sm hover:opacity-90"
+        >
+          Save
+        </button>
+      </DialogFooter>
+    </>
+  );
+};
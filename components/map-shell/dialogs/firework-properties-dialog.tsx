@@ -0,0 +1,293 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { type CatalogProduct, productDeviceKind } from "@/lib/catalog";
+import { MAX_TILT_DEG, describeAim } from "@/lib/fallout";
+import type { DeviceKind } from "@/lib/safety-rules";
+
+/** Editable fields of a placed firework (the mortar angle is kept apart). */
+export interface FireworkProperties {
+  inches: number;
+  deviceKind?: DeviceKind;
+  label: string;
+  color: string;
+  notes: string;
+  quantity: number;
+  productId?: string;
+  falloutFeet?: number;
+}
+
+const FREE_CALIBER = "free";
+
+interface FireworkPropertiesDialogProps {
+  fireworkPropertiesOpen: boolean;
+  setFireworkPropertiesOpen: (open: boolean) => void;
+  fireworkProperties: FireworkProperties;
+  setFireworkProperties: (properties: FireworkProperties) => void;
+  products: CatalogProduct[];
+  describeRadius: (
+    inches: number,
+    deviceKind?: DeviceKind,
+    overrideFeet?: number
+  ) => string;
+  mortarTilt: number;
+  setMortarTilt: (tilt: number) => void;
+  mortarAzimuth: number;
+  setMortarAzimuth: (azimuth: number) => void;
+  handleSaveFireworkProperties: () => void;
+  handleCancelFireworkProperties: () => void;
+}
+
+export const FireworkPropertiesDialog: React.FC<
+  FireworkPropertiesDialogProps
+> = ({
+  fireworkPropertiesOpen,
+  setFireworkPropertiesOpen,
+  fireworkProperties,
+  setFireworkProperties,
+  products,
+  describeRadius,
+  mortarTilt,
+  setMortarTilt,
+  mortarAzimuth,
+  setMortarAzimuth,
+  handleSaveFireworkProperties,
+  handleCancelFireworkProperties,
+}) => {
+  const aimPresets = [
+    { azimuth: 0, name: "N" },
+    { azimuth: 45, name: "NE" },
+    { azimuth: 90, name: "E" },
+    { azimuth: 135, name: "SE" },
+    { azimuth: 180, name: "S" },
+    { azimuth: 225, name: "SW" },
+    { azimuth: 270, name: "W" },
+    { azimuth: 315, name: "NW" },
+  ];
+
+  const props = fireworkProperties;
+  const product = products.find((p) => p.id === props.productId);
+
+  // Label and colour follow the product only while the user has not changed them
+  const selectProduct = (id: string) => {
+    const next = products.find((p) => p.id === id);
+    if (!next) {
+      setFireworkProperties({
+        ...props,
+        productId: undefined,
+        falloutFeet: undefined,
+      });
+      return;
+    }
+    setFireworkProperties({
+      ...props,
+      inches: next.inches,
+      deviceKind: productDeviceKind(next),
+      productId: next.id,
+      falloutFeet: next.falloutFeet,
+      label: !product || props.label === product.name ? next.name : props.label,
+      color:
+        !product || props.color === product.color ? next.color : props.color,
+    });
+  };
+
+  return (
+    <Dialog
+      open={fireworkPropertiesOpen}
+      onOpenChange={(o) =>
+        o ? setFireworkPropertiesOpen(o) : handleCancelFireworkProperties()
+      }
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Firework Properties</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">Product</label>
+            <div className="grid grid-cols-[1fr_96px] gap-2">
+              <Select
+                value={product?.id ?? FREE_CALIBER}
+                onValueChange={selectProduct}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={FREE_CALIBER}>Free size…</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0.5}
+                max={24}
+                step={0.25}
+                value={props.inches}
+                aria-label="Caliber in inches"
+                onChange={(e) => {
+                  const inches = Number(e.target.value);
+                  if (inches > 0)
+                    setFireworkProperties({
+                      ...props,
+                      inches,
+                      productId: undefined,
+                      falloutFeet: undefined,
+                    });
+                }}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {props.inches}&quot;{" "}
+            {props.deviceKind === "ground" ? "ground device" : "aerial shell"} ·{" "}
+            {describeRadius(props.inches, props.deviceKind, props.falloutFeet)}{" "}
+            fallout radius{props.falloutFeet ? " (product override)" : ""}
+          </p>
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">Label</label>
+            <Input
+              value={props.label}
+              onChange={(e) =>
+                setFireworkProperties({ ...props, label: e.target.value })
+              }
+              placeholder="Enter label"
+            />
+          </div>
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">Color</label>
+            <input
+              type="color"
+              value={props.color}
+              onChange={(e) =>
+                setFireworkProperties({ ...props, color: e.target.value })
+              }
+              className="h-9 w-16 cursor-pointer rounded-md border border-border bg-background p-1"
+            />
+          </div>
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">Quantity</label>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={props.quantity}
+              onChange={(e) =>
+                setFireworkProperties({
+                  ...props,
+                  quantity: Math.max(1, Math.round(Number(e.target.value))),
+                })
+              }
+            />
+          </div>
+          <div className="grid grid-cols-[160px_1fr] items-start gap-3">
+            <label className="pt-2 text-sm text-muted-foreground">Notes</label>
+            <textarea
+              value={props.notes}
+              onChange={(e) =>
+                setFireworkProperties({ ...props, notes: e.target.value })
+              }
+              rows={3}
+              placeholder="Product, cue or rack notes"
+              className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">
+              Tilt (° from vertical)
+            </label>
+            <Input
+              type="number"
+              min={0}
+              max={MAX_TILT_DEG}
+              value={mortarTilt}
+              onChange={(e) =>
+                setMortarTilt(
+                  Math.min(MAX_TILT_DEG, Math.max(0, Number(e.target.value)))
+                )
+              }
+            />
+          </div>
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <label className="text-sm text-muted-foreground">
+              Aim (° from north)
+            </label>
+            <Input
+              type="number"
+              min={0}
+              max={359}
+              step={5}
+              value={mortarAzimuth}
+              disabled={mortarTilt <= 0}
+              onChange={(e) =>
+                setMortarAzimuth(((Number(e.target.value) % 360) + 360) % 360)
+              }
+            />
+          </div>
+          <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+            <span />
+            <div className="grid grid-cols-8 gap-1">
+              {aimPresets.map((preset) => (
+                <button
+                  key={preset.name}
+                  type="button"
+                  disabled={mortarTilt <= 0}
+                  onClick={() => setMortarAzimuth(preset.azimuth)}
+                  className={`rounded-md border px-1 py-1 text-xs disabled:opacity-50 ${
+                    mortarAzimuth === preset.azimuth
+                      ? "border-brand bg-brand/10"
+                      : "border-border hover:bg-muted"
+                  }`}
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {mortarTilt > 0
+              ? `Angled ${describeAim({
+                  tiltDeg: mortarTilt,
+                  azimuthDeg: mortarAzimuth,
+                })}. The fallout zone moves toward the burst point.`
+              : "Vertical mortar. Set a tilt to angle it for fan effects."}
+          </p>
+        </div>
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={handleCancelFireworkProperties}
+            className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSaveFireworkProperties}
+            className="inline-flex items-center justify-center rounded-md bg-brand text-white px-3 py-2 text-sm hover:opacity-90"
+          >
+            Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
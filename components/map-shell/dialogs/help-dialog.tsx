@@ -76,18 +76,130 @@ export const HelpDialog: React.FC<HelpDialogProps> = ({
                     Click and drag annotation label to reposition
                   </td>
                 </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Product Catalog
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Use Manage catalog to add, edit, reorder and favourite the
+                    products shown in the palette, or import and export them as
+                    CSV
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">Projects</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Use Projects in the sidebar header to save plans in this
+                    browser and to open, rename, duplicate, archive or delete
+                    them
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Project Files
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Save to File downloads the plan as a .pyroplot file; open
+                    one with Open File or by dropping it on the map
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">Autosave</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    The plan is saved in this browser as you work and offered
+                    back the next time you open Pyro Plot
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    View-Only Links
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Choose View only in Share Site Plan to send a plan that
+                    cannot be changed; the viewer can make an editable copy
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Protected Links
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Tick Protect with a passphrase when sharing to encrypt the
+                    plan; whoever opens the link must enter the passphrase
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Edit Firework
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Click a firework to change its caliber, label, color,
+                    quantity, notes and mortar angle
+                  </td>
+                </tr>
                 <tr>
                   <td className="px-4 py-3 text-sm font-medium">Resize Area</td>
                   <td className="px-4 py-3 text-sm text-muted-foreground">
                     Drag corner markers to resize audience/restricted areas
                   </td>
                 </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">Rotate Area</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Drag the round handle above a rectangle to rotate it
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">Draw Area</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Use Draw Audience/Restricted, click to add vertices, then
+                    click the first vertex or press Enter
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Edit Polygon
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Drag vertices to reshape, drag edge midpoints to add a
+                    vertex, right-click a vertex to delete it
+                  </td>
+                </tr>
                 <tr>
                   <td className="px-4 py-3 text-sm font-medium">
                     Adjust Measurement
                   </td>
                   <td className="px-4 py-3 text-sm text-muted-foreground">
-                    Drag measurement points to change distance
+                    Drag measurement points to change distance, click the line
+                    to add a point, right-click a point to delete it
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Snap Measurement
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Drag a measurement point near a firework, fallout edge or
+                    area corner/edge to snap it; it follows the target when that
+                    moves
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Auto Dimensions
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Show Dimensions draws the margin from each fallout edge to
+                    nearby audience and restricted areas
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Measure Area
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Drop the Area item and edit it like a polygon; the label
+                    shows ft² and acres (or m² and hectares)
                   </td>
                 </tr>
                 <tr>
@@ -98,6 +210,40 @@ export const HelpDialog: React.FC<HelpDialogProps> = ({
                     Right-click on annotation label to remove
                   </td>
                 </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Select Multiple
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Shift-click annotations or shift-drag a box on the map;
+                    click the map or press Escape to deselect
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Edit Selection
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Drag any selected item to move the group, rotate it from the
+                    sidebar, or press Delete to remove it
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">
+                    Copy &amp; Paste
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Ctrl+C copies the selection and Ctrl+V pastes it at the
+                    cursor, also in another tab; Ctrl+D duplicates it
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-3 text-sm font-medium">Undo / Redo</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    Ctrl+Z undoes the last edit, Ctrl+Shift+Z redoes it (Cmd on
+                    Mac)
+                  </td>
+                </tr>
               </tbody>
             </table>
           </div>
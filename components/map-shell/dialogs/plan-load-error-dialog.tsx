@@ -0,0 +1,56 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+/** Why a plan from a file or share link could not be opened. */
+export interface PlanLoadErrors {
+  source: string; // file name, or a description such as "The share link"
+  errors: string[];
+}
+
+interface PlanLoadErrorDialogProps {
+  planLoadErrors: PlanLoadErrors | null;
+  setPlanLoadErrors: (errors: PlanLoadErrors | null) => void;
+}
+
+export const PlanLoadErrorDialog: React.FC<PlanLoadErrorDialogProps> = ({
+  planLoadErrors,
+  setPlanLoadErrors,
+}) => {
+  return (
+    <Dialog
+      open={planLoadErrors !== null}
+      onOpenChange={(o) => !o && setPlanLoadErrors(null)}
+    >
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Could Not Open Plan</DialogTitle>
+          <DialogDescription>
+            {planLoadErrors?.source} was not opened and the map is unchanged.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-1 rounded-md border border-border px-3 py-2 font-mono text-xs text-red-500">
+          {planLoadErrors?.errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={() => setPlanLoadErrors(null)}
+            className="inline-flex items-center justify-center rounded-md bg-brand text-white px-3 py-2 text-sm hover:opacity-90"
+          >
+            OK
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,296 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { UNTITLED_PROJECT, type ProjectSummary } from "@/lib/projects";
+
+interface ProjectsDialogProps {
+  projectsOpen: boolean;
+  setProjectsOpen: (open: boolean) => void;
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  hasUnsavedPlan: boolean;
+  projectsError: string | null;
+  handleCreateProject: (name: string) => void;
+  handleSaveAsProject: (name: string) => void;
+  handleOpenProject: (id: string) => void;
+  handleRenameProject: (id: string, name: string) => void;
+  handleDuplicateProject: (id: string) => void;
+  handleArchiveProject: (id: string, archived: boolean) => void;
+  handleDeleteProject: (id: string) => void;
+}
+
+// An action waiting for the user to confirm it
+interface PendingConfirm {
+  message: string;
+  confirmLabel: string;
+  run: () => void;
+}
+
+export const ProjectsDialog: React.FC<ProjectsDialogProps> = ({
+  projectsOpen,
+  setProjectsOpen,
+  ...props
+}) => {
+  return (
+    <Dialog open={projectsOpen} onOpenChange={setProjectsOpen}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+        </DialogHeader>
+        {/* Mounted with the dialog, so every opening starts with no edits pending */}
+        <ProjectList {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+type ProjectListProps = Omit<
+  ProjectsDialogProps,
+  "projectsOpen" | "setProjectsOpen"
+>;
+
+const ProjectList: React.FC<ProjectListProps> = ({
+  projects,
+  currentProjectId,
+  hasUnsavedPlan,
+  projectsError,
+  handleCreateProject,
+  handleSaveAsProject,
+  handleOpenProject,
+  handleRenameProject,
+  handleDuplicateProject,
+  handleArchiveProject,
+  handleDeleteProject,
+}) => {
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const [showArchived, setShowArchived] = useState(false);
+  const [confirm, setConfirm] = useState<PendingConfirm | null>(null);
+
+  const archivedCount = projects.filter((p) => p.archived).length;
+  const visible = projects.filter((p) => !p.archived || showArchived);
+
+  // Leaving a plan that is not a project loses it, so ask first
+  const leavePlan = (run: () => void) => {
+    if (!hasUnsavedPlan) {
+      run();
+      return;
+    }
+    setConfirm({
+      message:
+        "The plan on the map is not saved as a project and will be replaced.",
+      confirmLabel: "Replace",
+      run,
+    });
+  };
+
+  const finishRename = () => {
+    if (renaming && renaming.name.trim())
+      handleRenameProject(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New project name"
+          aria-label="New project name"
+        />
+        <button
+          type="button"
+          onClick={() =>
+            leavePlan(() =>
+              handleCreateProject(newName.trim() || UNTITLED_PROJECT)
+            )
+          }
+          title="Start an empty plan at the current map view"
+          className="h-9 shrink-0 rounded-md border border-border bg-background px-3 text-sm hover:bg-muted"
+        >
+          New
+        </button>
+        {currentProjectId === null && (
+          <button
+            type="button"
+            onClick={() =>
+              handleSaveAsProject(newName.trim() || UNTITLED_PROJECT)
+            }
+            title="Keep the plan on the map as a project"
+            className="h-9 shrink-0 rounded-md bg-brand px-3 text-sm text-white hover:opacity-90"
+          >
+            Save Current
+          </button>
+        )}
+      </div>
+
+      {projectsError && <p className="text-sm text-red-500">{projectsError}</p>}
+
+      {confirm && (
+        <div className="flex items-center gap-2 rounded-md border border-brand/60 bg-brand/10 px-3 py-2 text-sm">
+          <span className="flex-1">{confirm.message}</span>
+          <button
+            type="button"
+            onClick={() => setConfirm(null)}
+            className="rounded-md border border-border bg-background px-2 py-1 text-xs hover:bg-muted"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              confirm.run();
+              setConfirm(null);
+            }}
+            className="rounded-md bg-brand px-2 py-1 text-xs text-white hover:opacity-90"
+          >
+            {confirm.confirmLabel}
+          </button>
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="rounded-md border border-border px-3 py-2 text-sm text-muted-foreground">
+          {projects.length === 0
+            ? "No saved projects yet. Save the current plan or start a new one."
+            : "All projects are archived."}
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {visible.map((p) => (
+            <li
+              key={p.id}
+              className={`flex items-center gap-2 rounded-md border px-2 py-1 text-sm ${
+                p.id === currentProjectId ? "border-brand" : "border-border"
+              } ${p.archived ? "opacity-60" : ""}`}
+            >
+              {p.thumbnail ? (
+                // eslint-disable-next-line @next/next/no-img-element -- data URL
+                <img
+                  src={p.thumbnail}
+                  alt=""
+                  className="h-10 w-16 shrink-0 rounded border border-border object-cover"
+                />
+              ) : (
+                <div className="h-10 w-16 shrink-0 rounded border border-border" />
+              )}
+              <div className="min-w-0 flex-1">
+                {renaming?.id === p.id ? (
+                  <Input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) =>
+                      setRenaming({ id: p.id, name: e.target.value })
+                    }
+                    onBlur={finishRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") finishRename();
+                    }}
+                    aria-label="Project name"
+                    className="h-7"
+                  />
+                ) : (
+                  <div className="truncate font-medium">
+                    {p.name}
+                    {p.id === currentProjectId && (
+                      <span className="ml-1 text-xs font-normal text-brand">
+                        open
+                      </span>
+                    )}
+                  </div>
+                )}
+                <div className="truncate text-xs text-muted-foreground">
+                  {p.location ??
+                    `${p.center[1].toFixed(4)}, ${p.center[0].toFixed(4)}`}
+                </div>
+                <div className="truncate text-xs text-muted-foreground">
+                  Edited{" "}
+                  {new Date(p.updatedAt).toLocaleString(undefined, {
+                    dateStyle: "medium",
+                    timeStyle: "short",
+                  })}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => leavePlan(() => handleOpenProject(p.id))}
+                disabled={p.id === currentProjectId}
+                className="rounded-md border border-border bg-background px-2 py-1 text-xs hover:bg-muted disabled:opacity-40"
+              >
+                Open
+              </button>
+              <button
+                type="button"
+                onClick={() => setRenaming({ id: p.id, name: p.name })}
+                aria-label={`Rename ${p.name}`}
+                title="Rename"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                ✎
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDuplicateProject(p.id)}
+                aria-label={`Duplicate ${p.name}`}
+                title="Duplicate"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                ⧉
+              </button>
+              <button
+                type="button"
+                onClick={() => handleArchiveProject(p.id, !p.archived)}
+                aria-label={`${p.archived ? "Unarchive" : "Archive"} ${p.name}`}
+                title={p.archived ? "Unarchive" : "Archive"}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                {p.archived ? "↺" : "🗄"}
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  setConfirm({
+                    message: `Delete “${p.name}”? This cannot be undone.`,
+                    confirmLabel: "Delete",
+                    run: () => handleDeleteProject(p.id),
+                  })
+                }
+                aria-label={`Delete ${p.name}`}
+                title="Delete"
+                className="text-muted-foreground hover:text-red-500"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {archivedCount > 0 && (
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived ({archivedCount})
+        </label>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Projects are kept in this browser. Changes to the open project are saved
+        as you work.
+      </p>
+    </div>
+  );
+};
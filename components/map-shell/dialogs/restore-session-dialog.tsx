@@ -0,0 +1,103 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { UNTITLED_PROJECT } from "@/lib/projects";
+
+/** What the autosaved plan contains, shown before it replaces the map. */
+export interface UnsavedSessionPreview {
+  savedAt: number;
+  projectName?: string;
+  thumbnail?: string;
+  center: [number, number]; // [lng, lat]
+  counts: { label: string; count: number }[];
+}
+
+interface RestoreSessionDialogProps {
+  session: UnsavedSessionPreview | null;
+  handleRestoreSession: () => void;
+  handleDiscardSession: () => void;
+}
+
+export const RestoreSessionDialog: React.FC<RestoreSessionDialogProps> = ({
+  session,
+  handleRestoreSession,
+  handleDiscardSession,
+}) => {
+  const counts = session?.counts.filter((c) => c.count > 0) ?? [];
+
+  return (
+    // Closing without a choice would leave autosave paused, so it must be made
+    <Dialog open={session !== null}>
+      <DialogContent
+        showCloseButton={false}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Restore Unsaved Plan?</DialogTitle>
+        </DialogHeader>
+        {session && (
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              The plan you were working on was saved on this device{" "}
+              {new Date(session.savedAt).toLocaleString()}. Restoring it
+              replaces what is on the map now.
+            </p>
+            <div className="grid grid-cols-[160px_1fr] gap-3">
+              {session.thumbnail ? (
+                // eslint-disable-next-line @next/next/no-img-element -- data URL
+                <img
+                  src={session.thumbnail}
+                  alt="Map view of the unsaved plan"
+                  className="h-[100px] w-[160px] rounded-md border border-border object-cover"
+                />
+              ) : (
+                <div className="flex h-[100px] w-[160px] items-center justify-center rounded-md border border-border text-xs text-muted-foreground">
+                  No preview
+                </div>
+              )}
+              <div className="min-w-0 space-y-1">
+                <div className="truncate font-medium">
+                  {session.projectName || UNTITLED_PROJECT}
+                </div>
+                <ul className="text-xs text-muted-foreground">
+                  {counts.map((c) => (
+                    <li key={c.label}>
+                      {c.count} {c.label}
+                    </li>
+                  ))}
+                </ul>
+                <div className="text-xs text-muted-foreground">
+                  Near {session.center[1].toFixed(4)},{" "}
+                  {session.center[0].toFixed(4)}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={handleDiscardSession}
+            className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            onClick={handleRestoreSession}
+            className="inline-flex items-center justify-center rounded-md bg-brand text-white px-3 py-2 text-sm hover:opacity-90"
+          >
+            Restore
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
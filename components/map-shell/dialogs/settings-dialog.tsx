@@ -16,6 +16,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import {
+  BUILT_IN_RULE_SETS,
+  CUSTOM_RULE_SET_ID,
+  createCustomRuleSet,
+  describeRuleSet,
+  formatRuleTable,
+  parseRuleTable,
+  type SafetyRule,
+  type SafetyRuleSet,
+} from "@/lib/safety-rules";
+import { describeWind, type WindSettings } from "@/lib/fallout";
 
 type MeasurementUnit = "feet" | "meters";
 
@@ -26,8 +37,10 @@ interface SettingsDialogProps {
   setFormProjectName: (name: string) => void;
   formMeasurementUnit: MeasurementUnit;
   setFormMeasurementUnit: (unit: MeasurementUnit) => void;
-  formSafetyDistance: 70 | 100;
-  setFormSafetyDistance: (distance: 70 | 100) => void;
+  formSafetyRuleSet: SafetyRuleSet;
+  setFormSafetyRuleSet: (ruleSet: SafetyRuleSet) => void;
+  formWindSettings: WindSettings;
+  setFormWindSettings: (wind: WindSettings) => void;
   hasFormChanges: boolean;
   handleFormChange: () => void;
   handleSaveSettings: () => void;
@@ -41,13 +54,113 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
   setFormProjectName,
   formMeasurementUnit,
   setFormMeasurementUnit,
-  formSafetyDistance,
-  setFormSafetyDistance,
+  formSafetyRuleSet,
+  setFormSafetyRuleSet,
+  formWindSettings,
+  setFormWindSettings,
   hasFormChanges,
   handleFormChange,
   handleSaveSettings,
   handleCancelSettings,
 }) => {
+  const isCustom = formSafetyRuleSet.id === CUSTOM_RULE_SET_ID;
+
+  const updateRuleSet = (patch: Partial<SafetyRuleSet>) => {
+    setFormSafetyRuleSet({ ...formSafetyRuleSet, ...patch });
+    handleFormChange();
+  };
+
+  const updateRule = (
+    kind: "aerial" | "ground",
+    patch: Partial<SafetyRule>
+  ) => {
+    updateRuleSet({ [kind]: { ...formSafetyRuleSet[kind], ...patch } });
+  };
+
+  const updateWind = (patch: Partial<WindSettings>) => {
+    setFormWindSettings({ ...formWindSettings, ...patch });
+    handleFormChange();
+  };
+
+  // Drift and stretch are edited as percentages of the radius per mph
+  const renderWindField = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    props: { min?: number; max?: number; step?: number } = {}
+  ) => (
+    <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+      <label className="text-sm text-muted-foreground">{label}</label>
+      <Input
+        type="number"
+        {...props}
+        value={value}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (Number.isFinite(v)) onChange(v);
+        }}
+      />
+    </div>
+  );
+
+  const distanceSuffix = formSafetyRuleSet.distanceUnit === "feet" ? "ft" : "m";
+  const caliberSuffix = formSafetyRuleSet.caliberUnit === "inch" ? "in" : "cm";
+
+  const renderRuleFields = (kind: "aerial" | "ground", title: string) => {
+    const rule = formSafetyRuleSet[kind];
+    return (
+      <div className="space-y-2 rounded-md border border-border p-3">
+        <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          {title}
+        </div>
+        <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+          <label className="text-sm text-muted-foreground">
+            {distanceSuffix} per {caliberSuffix}
+          </label>
+          <Input
+            type="number"
+            min={0}
+            value={rule.perCaliber}
+            onChange={(e) =>
+              updateRule(kind, {
+                perCaliber: Math.max(0, Number(e.target.value)),
+              })
+            }
+          />
+        </div>
+        <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+          <label className="text-sm text-muted-foreground">
+            Minimum ({distanceSuffix})
+          </label>
+          <Input
+            type="number"
+            min={0}
+            value={rule.minimum ?? ""}
+            placeholder="None"
+            onChange={(e) =>
+              updateRule(kind, {
+                minimum: e.target.value
+                  ? Math.max(0, Number(e.target.value))
+                  : undefined,
+              })
+            }
+          />
+        </div>
+        <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+          <label className="text-sm text-muted-foreground">Lookup table</label>
+          <Input
+            key={`${kind}-${settingsOpen}`}
+            defaultValue={formatRuleTable(rule.table)}
+            placeholder={`caliber=${distanceSuffix}, e.g. 3=250, 4=300`}
+            onChange={(e) =>
+              updateRule(kind, { table: parseRuleTable(e.target.value) })
+            }
+          />
+        </div>
+      </div>
+    );
+  };
+
   return (
     <Dialog open={settingsOpen} onOpenChange={(o) => setSettingsOpen(o)}>
       <div className="flex justify-between items-center gap-2">
@@ -60,7 +173,7 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
           </button>
         </DialogTrigger>
       </div>
-      <DialogContent>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Settings</DialogTitle>
         </DialogHeader>
@@ -100,24 +213,139 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
           </div>
           <div className="grid grid-cols-[160px_1fr] items-center gap-3">
             <label className="text-sm text-muted-foreground">
-              Safety Distance
+              Safety Rules
             </label>
             <Select
-              value={formSafetyDistance.toString()}
+              value={formSafetyRuleSet.id}
               onValueChange={(v) => {
-                setFormSafetyDistance(Number(v) as 70 | 100);
+                const preset = BUILT_IN_RULE_SETS.find((rs) => rs.id === v);
+                setFormSafetyRuleSet(
+                  preset ?? createCustomRuleSet(formSafetyRuleSet)
+                );
                 handleFormChange();
               }}
             >
               <SelectTrigger className="w-full">
-                <SelectValue placeholder="Select safety distance" />
+                <SelectValue placeholder="Select safety rules" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="70">70ft per inch</SelectItem>
-                <SelectItem value="100">100ft per inch</SelectItem>
+                {BUILT_IN_RULE_SETS.map((rs) => (
+                  <SelectItem key={rs.id} value={rs.id}>
+                    {rs.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_RULE_SET_ID}>Custom…</SelectItem>
               </SelectContent>
             </Select>
           </div>
+          <p className="text-xs text-muted-foreground">
+            {describeRuleSet(formSafetyRuleSet)}
+          </p>
+          {isCustom && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+                <label className="text-sm text-muted-foreground">
+                  Rule Set Name
+                </label>
+                <Input
+                  value={formSafetyRuleSet.name}
+                  onChange={(e) => updateRuleSet({ name: e.target.value })}
+                  placeholder="e.g. County fire marshal"
+                />
+              </div>
+              <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+                <label className="text-sm text-muted-foreground">
+                  Caliber Unit
+                </label>
+                <Select
+                  value={formSafetyRuleSet.caliberUnit}
+                  onValueChange={(v) =>
+                    updateRuleSet({ caliberUnit: v as "inch" | "cm" })
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="inch">Inches</SelectItem>
+                    <SelectItem value="cm">Centimetres</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-[160px_1fr] items-center gap-3">
+                <label className="text-sm text-muted-foreground">
+                  Distance Unit
+                </label>
+                <Select
+                  value={formSafetyRuleSet.distanceUnit}
+                  onValueChange={(v) =>
+                    updateRuleSet({ distanceUnit: v as "feet" | "meters" })
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="feet">Feet</SelectItem>
+                    <SelectItem value="meters">Meters</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {renderRuleFields("aerial", "Aerial shells")}
+              {renderRuleFields("ground", "Ground items (bores, cakes)")}
+            </div>
+          )}
+          <div className="space-y-2 rounded-md border border-border p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Wind
+            </div>
+            {renderWindField(
+              "Speed (mph)",
+              formWindSettings.speedMph,
+              (v) => updateWind({ speedMph: Math.max(0, v) }),
+              { min: 0 }
+            )}
+            {renderWindField(
+              "From (° from north)",
+              formWindSettings.directionDeg,
+              (v) => updateWind({ directionDeg: ((v % 360) + 360) % 360 }),
+              { min: 0, max: 359, step: 5 }
+            )}
+            {renderWindField(
+              "Drift (% per mph)",
+              Math.round(formWindSettings.driftPerMph * 1000) / 10,
+              (v) => {
+                // Stretch follows drift up, so the zone keeps its upwind edge
+                const driftPerMph = Math.max(0, v) / 100;
+                updateWind({
+                  driftPerMph,
+                  stretchPerMph: Math.max(
+                    driftPerMph,
+                    formWindSettings.stretchPerMph
+                  ),
+                });
+              },
+              { min: 0, step: 0.5 }
+            )}
+            {renderWindField(
+              "Stretch (% per mph)",
+              Math.round(formWindSettings.stretchPerMph * 1000) / 10,
+              (v) =>
+                updateWind({
+                  stretchPerMph: Math.max(
+                    formWindSettings.driftPerMph,
+                    v / 100
+                  ),
+                }),
+              {
+                min: Math.round(formWindSettings.driftPerMph * 1000) / 10,
+                step: 0.5,
+              }
+            )}
+            <p className="text-xs text-muted-foreground">
+              {describeWind(formWindSettings)}
+            </p>
+          </div>
         </div>
         <DialogFooter>
           <button
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -9,6 +10,12 @@ import {
   DialogTrigger,
   DialogClose,
 } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { shareCryptoAvailable } from "@/lib/share-crypto";
+
+// Some chat apps and email clients cut links off beyond this
+const LONG_LINK_CHARS = 2000;
+const MIN_PASSPHRASE_LENGTH = 8;
 
 interface ShareDialogProps {
   shareOpen: boolean;
@@ -17,6 +24,7 @@ interface ShareDialogProps {
   copied: boolean;
   setCopied: (copied: boolean) => void;
   openShareDialog: () => Promise<void>;
+  encryptShareLink: (passphrase: string) => Promise<string>;
 }
 
 export const ShareDialog: React.FC<ShareDialogProps> = ({
@@ -26,13 +34,54 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
   copied,
   setCopied,
   openShareDialog,
+  encryptShareLink,
 }) => {
+  const [viewLink, setViewLink] = useState(false);
+  const [protect, setProtect] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  // The encrypted link and the passphrase it was made with
+  const [locked, setLocked] = useState<{
+    passphrase: string;
+    url: string;
+  } | null>(null);
+  const [locking, setLocking] = useState(false);
+  const [lockError, setLockError] = useState<string | null>(null);
+
+  const lockedUrl = locked?.passphrase === passphrase ? locked.url : "";
+  const baseUrl = protect ? lockedUrl : shareUrl;
+  // mode=view opens the plan read-only, with a way to make an editable copy
+  const link = baseUrl && viewLink ? `${baseUrl}&mode=view` : baseUrl;
+
+  const lockLink = async () => {
+    setLocking(true);
+    setLockError(null);
+    try {
+      const url = await encryptShareLink(passphrase);
+      setLocked({ passphrase, url });
+      setCopied(false);
+    } catch {
+      setLockError(
+        shareCryptoAvailable()
+          ? "The link could not be locked. Try again."
+          : "This browser cannot lock links on this page. Open the app over HTTPS, or in an up-to-date browser."
+      );
+    } finally {
+      setLocking(false);
+    }
+  };
+
   return (
     <Dialog
       open={shareOpen}
       onOpenChange={(open) => {
         setShareOpen(open);
-        if (!open) setCopied(false);
+        if (!open) {
+          setCopied(false);
+          // The plan may change before the next share
+          setPassphrase("");
+          setLocked(null);
+          setLockError(null);
+        }
       }}
     >
       <div className="flex justify-between items-center gap-2">
@@ -51,25 +100,109 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
           <DialogTitle>Share this site plan</DialogTitle>
           <DialogDescription>
             Copy this link to share. Opening it restores the current camera and
-            annotations.
+            annotations. A view-only link shows the plan without letting anyone
+            move or delete anything. A passphrase keeps the site locations
+            unreadable to anyone who does not have it.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { view: false, label: "Can edit" },
+              { view: true, label: "View only" },
+            ].map((option) => (
+              <button
+                key={option.label}
+                type="button"
+                aria-pressed={viewLink === option.view}
+                onClick={() => {
+                  setViewLink(option.view);
+                  setCopied(false);
+                }}
+                className={`rounded-md border px-3 py-1.5 text-sm ${
+                  viewLink === option.view
+                    ? "border-brand bg-brand/10"
+                    : "border-border bg-background hover:bg-muted"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={protect}
+              onChange={(e) => {
+                setProtect(e.target.checked);
+                setCopied(false);
+              }}
+            />
+            Protect with a passphrase
+          </label>
+          {protect && (
+            <div className="space-y-1">
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => {
+                    setPassphrase(e.target.value);
+                    setCopied(false);
+                  }}
+                  placeholder="Passphrase"
+                  aria-label="Passphrase"
+                />
+                <button
+                  type="button"
+                  onClick={() => void lockLink()}
+                  disabled={
+                    passphrase.length < MIN_PASSPHRASE_LENGTH ||
+                    locking ||
+                    lockedUrl !== ""
+                  }
+                  className="h-9 shrink-0 rounded-md bg-brand px-3 text-sm text-white hover:opacity-90 disabled:opacity-60"
+                >
+                  {locking ? "Locking…" : lockedUrl ? "Locked" : "Lock Link"}
+                </button>
+              </div>
+              {lockError && <p className="text-xs text-red-500">{lockError}</p>}
+              <p className="text-xs text-muted-foreground">
+                At least {MIN_PASSPHRASE_LENGTH} characters. Send the passphrase
+                separately from the link; a lost passphrase cannot be recovered.
+              </p>
+            </div>
+          )}
           <input
-            value={shareUrl}
+            value={link}
             readOnly
+            placeholder="Lock the link to see it"
             className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm"
           />
+          {link && (
+            <p
+              className={`text-xs ${
+                link.length > LONG_LINK_CHARS
+                  ? "text-red-500"
+                  : "text-muted-foreground"
+              }`}
+            >
+              {link.length.toLocaleString()} characters
+              {link.length > LONG_LINK_CHARS &&
+                ". Some apps cut off links this long; Save to File may work better for this plan."}
+            </p>
+          )}
           <div className="flex gap-2">
             <button
               type="button"
               onClick={async () => {
                 try {
-                  await navigator.clipboard.writeText(shareUrl);
+                  await navigator.clipboard.writeText(link);
                   setCopied(true);
                 } catch {}
               }}
-              className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+              disabled={!link}
+              className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted disabled:opacity-60"
             >
               {copied ? "✓ Copied Link" : "Copy link"}
             </button>
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+
+interface UnlockLinkDialogProps {
+  unlockOpen: boolean;
+  unlockError: string | null;
+  handleUnlockLink: (passphrase: string) => Promise<void>;
+  handleCancelUnlock: () => void;
+}
+
+export const UnlockLinkDialog: React.FC<UnlockLinkDialogProps> = ({
+  unlockOpen,
+  handleCancelUnlock,
+  ...props
+}) => {
+  return (
+    <Dialog
+      open={unlockOpen}
+      onOpenChange={(open) => !open && handleCancelUnlock()}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Protected Plan</DialogTitle>
+          <DialogDescription>
+            This share link is locked with a passphrase. Enter the passphrase
+            you were given to open the plan.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Mounted with the dialog, so every opening starts with an empty field */}
+        <UnlockForm handleCancelUnlock={handleCancelUnlock} {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+type UnlockFormProps = Omit<UnlockLinkDialogProps, "unlockOpen">;
+
+const UnlockForm: React.FC<UnlockFormProps> = ({
+  unlockError,
+  handleUnlockLink,
+  handleCancelUnlock,
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+
+  return (
+    <form
+      onSubmit={async (e) => {
+        e.preventDefault();
+        if (!passphrase || unlocking) return;
+        setUnlocking(true);
+        await handleUnlockLink(passphrase);
+        setUnlocking(false);
+      }}
+      className="space-y-3"
+    >
+      <Input
+        type="password"
+        autoFocus
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Passphrase"
+        aria-label="Passphrase"
+        aria-invalid={unlockError !== null}
+      />
+      {unlockError && <p className="text-sm text-red-500">{unlockError}</p>}
+      <DialogFooter>
+        <button
+          type="button"
+          onClick={handleCancelUnlock}
+          className="inline-flex items-center justify-center rounded-md border border-border bg-background px-3 py-2 text-sm hover:bg-muted"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!passphrase || unlocking}
+          className="inline-flex items-center justify-center rounded-md bg-brand text-white px-3 py-2 text-sm hover:opacity-90 disabled:opacity-60"
+        >
+          {unlocking ? "Unlocking…" : "Open Plan"}
+        </button>
+      </DialogFooter>
+    </form>
+  );
+};
@@ -1,2 +1,8 @@
 export { Sidebar } from "./Sidebar";
 export { Map } from "./Map";
+export { ClearancePanel } from "./ClearancePanel";
+export { SelectionPanel } from "./SelectionPanel";
+export { OutlinePanel, type OutlineEntry } from "./OutlinePanel";
+export type { FireworkProperties } from "./dialogs/firework-properties-dialog";
+export type { UnsavedSessionPreview } from "./dialogs/restore-session-dialog";
+export type { PlanLoadErrors } from "./dialogs/plan-load-error-dialog";
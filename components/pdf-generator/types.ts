@@ -1,3 +1,5 @@
+import type { AreaShape } from "@/lib/polygon";
+
 export interface JsPdfInstance {
   internal: { pageSize: { getWidth(): number; getHeight(): number } };
   setFont(font: string, style?: string): void;
@@ -23,6 +25,7 @@ export interface JsPdfInstance {
     style?: "S" | "F" | "FD" | "DF"
   ): void;
   setFillColor(r: number, g: number, b: number): void;
+  setTextColor(r: number, g: number, b: number): void;
   save(filename: string): void;
 }
 
@@ -42,6 +45,8 @@ export interface AudienceRecord {
   fillLayerId: string;
   corners: number[][];
   cornerMarkers: mapboxgl.Marker[];
+  shape?: AreaShape;
+  rotationDeg?: number;
 }
 
 export interface MeasurementRecord {
@@ -54,6 +59,16 @@ export interface MeasurementRecord {
   pointMarkers: mapboxgl.Marker[];
 }
 
+export interface AreaMeasurementRecord {
+  type: string;
+  number: number;
+  id: string;
+  sourceId: string;
+  fillLayerId: string;
+  corners: number[][];
+  cornerMarkers: mapboxgl.Marker[];
+}
+
 export interface RestrictedRecord {
   type: string;
   number: number;
@@ -62,6 +77,8 @@ export interface RestrictedRecord {
   fillLayerId: string;
   corners: number[][];
   cornerMarkers: mapboxgl.Marker[];
+  shape?: AreaShape;
+  rotationDeg?: number;
 }
 
 declare global {
@@ -7,7 +7,41 @@ import {
   createCircleFeature,
 } from "./utils";
 import type { AnnotationRecord } from "../../app/components/map-shell";
+import {
+  measureClearances,
+  type ClearanceArea,
+  type ClearanceZone,
+} from "@/lib/clearance";
+import {
+  describeRuleSet,
+  getFalloutRadiusFeet,
+  type SafetyRuleSet,
+} from "@/lib/safety-rules";
+import {
+  computeFalloutEllipse,
+  describeAim,
+  describeWind,
+  falloutRing,
+  type WindSettings,
+} from "@/lib/fallout";
+import {
+  formatArea,
+  formatLandArea,
+  polygonAreaSqMeters,
+  polygonCentroid,
+  rectangleFromCorners,
+  rectangleSizeMeters,
+  rectangleTopPoint,
+} from "@/lib/polygon";
+import {
+  polylineLengthMeters,
+  polylineMidpoint,
+  runningTotalsMeters,
+  segmentLengthsMeters,
+  segmentMidpoints,
+} from "@/lib/measurement";
 import type {
+  AreaMeasurementRecord,
   AudienceRecord,
   MeasurementRecord,
   RestrictedRecord,
@@ -18,10 +52,14 @@ interface UsePdfGeneratorProps {
   annotationsRef: React.MutableRefObject<Record<string, AnnotationRecord>>;
   audienceAreasRef: React.MutableRefObject<Record<string, AudienceRecord>>;
   measurementsRef: React.MutableRefObject<Record<string, MeasurementRecord>>;
+  areaMeasurementsRef: React.MutableRefObject<
+    Record<string, AreaMeasurementRecord>
+  >;
   restrictedAreasRef: React.MutableRefObject<Record<string, RestrictedRecord>>;
   projectName: string;
   measurementUnit: "feet" | "meters";
-  safetyDistance: 70 | 100;
+  safetyRuleSet: SafetyRuleSet;
+  windSettings: WindSettings;
 }
 
 export const usePdfGenerator = ({
@@ -29,10 +67,12 @@ export const usePdfGenerator = ({
   annotationsRef,
   audienceAreasRef,
   measurementsRef,
+  areaMeasurementsRef,
   restrictedAreasRef,
   projectName,
   measurementUnit,
-  safetyDistance,
+  safetyRuleSet,
+  windSettings,
 }: UsePdfGeneratorProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
 
@@ -70,15 +110,19 @@ export const usePdfGenerator = ({
       // Audience labels centered on rectangle
       for (const key of Object.keys(audienceAreasRef.current)) {
         const rec = audienceAreasRef.current[key]!;
-        const c = rec.corners;
-        const centerLng = (c[0][0] + c[2][0]) / 2;
-        const topLat = c[3][1]; // Use top edge (NW corner latitude)
-        // Position label at top edge with small offset down
-        const offsetLat = feetToMeters(20) / 110540; // 20 feet down from top
-        const labelLat = topLat - offsetLat;
+        const c = rec.corners as [number, number][];
+        // Position label 20 feet inside the (possibly rotated) top edge;
+        // polygons have no top edge, so label them at their centroid
+        const labelPos =
+          rec.shape === "polygon"
+            ? polygonCentroid(c)
+            : rectangleTopPoint(
+                rectangleFromCorners(c, rec.rotationDeg ?? 0),
+                -feetToMeters(20)
+              );
         features.push({
           type: "Feature",
-          geometry: { type: "Point", coordinates: [centerLng, labelLat] },
+          geometry: { type: "Point", coordinates: labelPos },
           properties: {
             id: String(rec.number),
             atype: "audience",
@@ -86,42 +130,56 @@ export const usePdfGenerator = ({
         } as Feature);
       }
 
-      // Measurement labels centered on line
+      // Measurement totals halfway along each line, plus segment lengths
+      // when a line has more than one segment
+      const unitSuffix = measurementUnit === "feet" ? "ft" : "m";
+      const lengthVal = (meters: number) =>
+        String(
+          measurementUnit === "feet"
+            ? Math.round(metersToFeet(meters))
+            : Math.round(meters)
+        );
       for (const key of Object.keys(measurementsRef.current)) {
         const rec = measurementsRef.current[key]!;
-        const p = rec.points;
-        const centerLng = (p[0][0] + p[1][0]) / 2;
-        const centerLat = (p[0][1] + p[1][1]) / 2;
-
-        // Calculate distance for display
-        const lat1 = (p[0][1] * Math.PI) / 180;
-        const lat2 = (p[1][1] * Math.PI) / 180;
-        const deltaLat = ((p[1][1] - p[0][1]) * Math.PI) / 180;
-        const deltaLng = ((p[1][0] - p[0][0]) * Math.PI) / 180;
-
-        const a =
-          Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-          Math.cos(lat1) *
-            Math.cos(lat2) *
-            Math.sin(deltaLng / 2) *
-            Math.sin(deltaLng / 2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-        const distanceMeters = 6371000 * c; // Earth radius in meters
-        const unitSuffix = measurementUnit === "feet" ? "ft" : "m";
-        const distanceVal =
-          measurementUnit === "feet"
-            ? Math.round(metersToFeet(distanceMeters))
-            : Math.round(distanceMeters);
-
+        const p = rec.points as [number, number][];
         features.push({
           type: "Feature",
-          geometry: { type: "Point", coordinates: [centerLng, centerLat] },
+          geometry: { type: "Point", coordinates: polylineMidpoint(p) },
           properties: {
-            id: String(distanceVal),
+            id: lengthVal(polylineLengthMeters(p)),
             units: unitSuffix,
             atype: "measurement",
           },
         } as Feature);
+        if (p.length < 3) continue;
+        const midpoints = segmentMidpoints(p);
+        segmentLengthsMeters(p).forEach((len, i) => {
+          features.push({
+            type: "Feature",
+            geometry: { type: "Point", coordinates: midpoints[i]! },
+            properties: {
+              id: lengthVal(len),
+              units: unitSuffix,
+              atype: "measurement-segment",
+            },
+          } as Feature);
+        });
+      }
+
+      // Area measurement labels at the polygon centroid
+      for (const key of Object.keys(areaMeasurementsRef.current)) {
+        const rec = areaMeasurementsRef.current[key]!;
+        features.push({
+          type: "Feature",
+          geometry: {
+            type: "Point",
+            coordinates: polygonCentroid(rec.corners as [number, number][]),
+          },
+          properties: {
+            id: String(rec.number),
+            atype: "area",
+          },
+        } as Feature);
       }
 
       // Custom annotation ID labels (only ID numbers, no text)
@@ -146,15 +204,19 @@ export const usePdfGenerator = ({
       // Restricted labels centered on rectangle
       for (const key of Object.keys(restrictedAreasRef.current)) {
         const rec = restrictedAreasRef.current[key]!;
-        const c = rec.corners;
-        const centerLng = (c[0][0] + c[2][0]) / 2;
-        const topLat = c[3][1]; // Use top edge (NW corner latitude)
-        // Position label at top edge with small offset down
-        const offsetLat = feetToMeters(20) / 110540; // 20 feet down from top
-        const labelLat = topLat - offsetLat;
+        const c = rec.corners as [number, number][];
+        // Position label 20 feet inside the (possibly rotated) top edge;
+        // polygons have no top edge, so label them at their centroid
+        const labelPos =
+          rec.shape === "polygon"
+            ? polygonCentroid(c)
+            : rectangleTopPoint(
+                rectangleFromCorners(c, rec.rotationDeg ?? 0),
+                -feetToMeters(20)
+              );
         features.push({
           type: "Feature",
-          geometry: { type: "Point", coordinates: [centerLng, labelLat] },
+          geometry: { type: "Point", coordinates: labelPos },
           properties: {
             id: String(rec.number),
             atype: "restricted",
@@ -287,8 +349,12 @@ export const usePdfGenerator = ({
                     ["concat", "Audience ", ["get", "id"]],
                     ["==", ["get", "atype"], "measurement"],
                     ["concat", ["get", "id"], " ", ["get", "units"]],
+                    ["==", ["get", "atype"], "measurement-segment"],
+                    ["concat", ["get", "id"], " ", ["get", "units"]],
                     ["==", ["get", "atype"], "restricted"],
                     ["concat", "Restricted ", ["get", "id"]],
+                    ["==", ["get", "atype"], "area"],
+                    ["concat", "Area ", ["get", "id"]],
                     ["==", ["get", "atype"], "custom"],
                     ["get", "id"],
                     ["get", "id"],
@@ -297,10 +363,14 @@ export const usePdfGenerator = ({
                     "case",
                     ["==", ["get", "atype"], "measurement"],
                     18,
+                    ["==", ["get", "atype"], "measurement-segment"],
+                    13,
                     ["==", ["get", "atype"], "audience"],
                     18,
                     ["==", ["get", "atype"], "restricted"],
                     18,
+                    ["==", ["get", "atype"], "area"],
+                    18,
                     28,
                   ],
                   "text-offset": [0, 0],
@@ -472,6 +542,15 @@ export const usePdfGenerator = ({
         pdf.setFontSize(16);
         pdf.text(projectName.trim(), margin, margin);
       }
+      pdf.setFont("helvetica", "normal");
+      pdf.setFontSize(9);
+      pdf.text(
+        `Safety rules: ${safetyRuleSet.name} · Wind: ${describeWind(
+          windSettings
+        )}`,
+        margin,
+        pageHeight - 18
+      );
 
       // Build tables on next pages
       const startNewPage = async () => {
@@ -492,40 +571,234 @@ export const usePdfGenerator = ({
 
       const lineHeight = 16;
       const rowGap = 6;
+      const headerH = 26;
       const unitLabel = measurementUnit === "feet" ? "ft" : "m";
+      let y = margin + 18;
+
+      // Clearance summary: required radius vs nearest area for every position
+      const clearanceZones: ClearanceZone[] = Object.values(
+        annotationsRef.current
+      )
+        .filter((rec) => rec.type === "firework")
+        .sort((a, b) => a.number - b.number)
+        .map((rec) => {
+          const pos = rec.marker.getLngLat();
+          const radiusMeters = feetToMeters(
+            rec.falloutFeet ??
+              getFalloutRadiusFeet(safetyRuleSet, rec.inches, rec.deviceKind)
+          );
+          return {
+            id: rec.id,
+            number: rec.number,
+            label: rec.label,
+            center: [pos.lng, pos.lat],
+            radiusMeters,
+            ring: falloutRing(
+              computeFalloutEllipse(
+                [pos.lng, pos.lat],
+                radiusMeters,
+                windSettings,
+                {
+                  inches: rec.inches,
+                  tiltDeg: rec.tiltDeg ?? 0,
+                  azimuthDeg: rec.azimuthDeg ?? 0,
+                }
+              )
+            ),
+          };
+        });
+      const clearanceAreas: ClearanceArea[] = [
+        ...Object.values(audienceAreasRef.current)
+          .sort((a, b) => a.number - b.number)
+          .map((rec) => ({
+            id: rec.id,
+            number: rec.number,
+            kind: "audience" as const,
+            corners: rec.corners as [number, number][],
+          })),
+        ...Object.values(restrictedAreasRef.current)
+          .sort((a, b) => a.number - b.number)
+          .map((rec) => ({
+            id: rec.id,
+            number: rec.number,
+            kind: "restricted" as const,
+            corners: rec.corners as [number, number][],
+          })),
+      ];
+      const clearances = measureClearances(clearanceZones, clearanceAreas);
+      const failures = clearances.filter((m) => !m.passes);
+      const formatClearance = (meters: number) =>
+        String(
+          measurementUnit === "feet"
+            ? Math.round(metersToFeet(meters))
+            : Math.round(meters)
+        );
+
+      await startNewPage();
+      drawHeader("Clearance Summary");
+      y = margin + 40;
+      pdf.setFontSize(14);
+      if (clearanceAreas.length === 0) {
+        pdf.setTextColor(180, 110, 0);
+        pdf.text(
+          "NOT VERIFIED: no audience or restricted areas are marked",
+          margin,
+          y
+        );
+      } else if (failures.length === 0) {
+        pdf.setTextColor(22, 128, 61);
+        pdf.text(
+          `PASS: all ${clearanceZones.length} positions meet required clearance`,
+          margin,
+          y
+        );
+      } else {
+        pdf.setTextColor(200, 30, 30);
+        const failingPositions = new Set(failures.map((m) => m.fireworkId));
+        pdf.text(
+          `FAIL: ${failingPositions.size} of ${clearanceZones.length} positions violate clearance (${failures.length} conflicts)`,
+          margin,
+          y
+        );
+      }
+      pdf.setTextColor(0, 0, 0);
+      pdf.setFont("helvetica", "normal");
+      pdf.setFontSize(10);
+      y += 18;
+      pdf.text(
+        `Rule set: ${safetyRuleSet.name} (${describeRuleSet(safetyRuleSet)})`,
+        margin,
+        y
+      );
+      y += 14;
+      pdf.text(`Wind: ${describeWind(windSettings)}`, margin, y);
+      y += 14;
+      pdf.text(
+        windSettings.speedMph > 0
+          ? "Required distance is the wind-adjusted fallout extent toward the closest point of each area."
+          : "Actual distance is measured from the launch position to the nearest edge of each area.",
+        margin,
+        y
+      );
+      y += 16;
+
+      const sColX = [
+        margin,
+        margin + 50,
+        margin + 230,
+        margin + 350,
+        margin + 480,
+        margin + 610,
+      ];
+      const drawClearanceHeader = () => {
+        pdf.setFont("helvetica", "bold");
+        pdf.setFontSize(11);
+        drawRowBg(margin, y, pageWidth - margin * 2, headerH);
+        const hY = y + headerH / 2 + 3;
+        pdf.text("ID/#", sColX[0], hY);
+        pdf.text("Label", sColX[1], hY);
+        pdf.text(`Required (${unitLabel})`, sColX[2], hY);
+        pdf.text("Area", sColX[3], hY);
+        pdf.text(`Nearest (${unitLabel})`, sColX[4], hY);
+        pdf.text("Result", sColX[5], hY);
+        y += headerH + rowGap;
+        pdf.setFont("helvetica", "normal");
+        pdf.setFontSize(10);
+      };
+      drawClearanceHeader();
+
+      const clearanceRows =
+        clearanceAreas.length > 0
+          ? clearances
+          : clearanceZones.map((zone) => ({
+              fireworkNumber: zone.number,
+              fireworkLabel: zone.label,
+              requiredMeters: zone.radiusMeters,
+              areaKind: null,
+              areaNumber: 0,
+              actualMeters: NaN,
+              passes: true,
+            }));
+      for (const row of clearanceRows) {
+        const rowH = 26;
+        if (y + rowH + margin > pageHeight) {
+          await startNewPage();
+          drawHeader("Clearance Summary (cont.)");
+          y = margin + 18;
+          drawClearanceHeader();
+        }
+        drawRowBg(margin, y, pageWidth - margin * 2, rowH);
+        const yMid = y + rowH / 2 + 3;
+        pdf.text(String(row.fireworkNumber), sColX[0], yMid);
+        pdf.text(row.fireworkLabel, sColX[1], yMid);
+        pdf.text(formatClearance(row.requiredMeters), sColX[2], yMid);
+        if (row.areaKind) {
+          pdf.text(
+            `${row.areaKind === "audience" ? "Audience" : "Restricted"} ${
+              row.areaNumber
+            }`,
+            sColX[3],
+            yMid
+          );
+          pdf.text(formatClearance(row.actualMeters), sColX[4], yMid);
+          pdf.setFont("helvetica", "bold");
+          if (row.passes) pdf.setTextColor(22, 128, 61);
+          else pdf.setTextColor(200, 30, 30);
+          pdf.text(row.passes ? "PASS" : "FAIL", sColX[5], yMid);
+          pdf.setTextColor(0, 0, 0);
+          pdf.setFont("helvetica", "normal");
+        } else {
+          pdf.text("—", sColX[3], yMid);
+          pdf.text("—", sColX[4], yMid);
+          pdf.text("—", sColX[5], yMid);
+        }
+        y += rowH + rowGap;
+      }
 
       // Firework Annotations table
       await startNewPage();
       drawHeader("Firework Annotations");
-      let y = margin + 18;
-      const colX = [margin, margin + 90, margin + 320, margin + 440];
+      y = margin + 18;
+      const colX = [
+        margin,
+        margin + 90,
+        margin + 280,
+        margin + 400,
+        margin + 580,
+      ];
       // column widths derived implicitly; explicit widths not needed
+      const drawAnnotationHeader = () => {
+        pdf.setFont("helvetica", "bold");
+        pdf.setFontSize(11);
+        drawRowBg(margin, y, pageWidth - margin * 2, headerH);
+        const hY = y + headerH / 2 + 3;
+        pdf.text("ID/#", colX[0], hY);
+        pdf.text("Label", colX[1], hY);
+        pdf.text(`Fallout Radius (${unitLabel})`, colX[2], hY);
+        pdf.text("Mortar Angle", colX[3], hY);
+        pdf.text("Lat, Lng", colX[4], hY);
+        y += headerH + rowGap;
+        pdf.setFont("helvetica", "normal");
+        pdf.setFontSize(10);
+      };
+      drawAnnotationHeader();
 
-      // header
-      pdf.setFont("helvetica", "bold");
-      pdf.setFontSize(11);
-      const headerH = 26;
-      drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-      const headerYMid = y + headerH / 2 + 3;
-      pdf.text("ID/#", colX[0], headerYMid);
-      pdf.text("Label", colX[1], headerYMid);
-      pdf.text(`Fallout Radius (${unitLabel})`, colX[2], headerYMid);
-      pdf.text("Lat, Lng", colX[3], headerYMid);
-      y += headerH + rowGap;
-
-      pdf.setFont("helvetica", "normal");
-      pdf.setFontSize(10);
       const fireworks = Object.values(annotationsRef.current)
         .filter((rec) => rec.type === "firework")
         .sort((a, b) => a.number - b.number);
       for (const rec of fireworks) {
         const pos = rec.marker.getLngLat();
         const id = String(rec.number);
-        const label = rec.label;
+        const label = rec.quantity
+          ? `${rec.label} ×${rec.quantity}`
+          : rec.label;
+        const radiusFeet =
+          rec.falloutFeet ??
+          getFalloutRadiusFeet(safetyRuleSet, rec.inches, rec.deviceKind);
         const radius = (
           measurementUnit === "feet"
-            ? Math.round(rec.inches * safetyDistance)
-            : Math.round(feetToMeters(rec.inches * safetyDistance))
+            ? Math.round(radiusFeet)
+            : Math.round(feetToMeters(radiusFeet))
         ).toString();
         const latlng = `${pos.lat.toFixed(6)}, ${pos.lng.toFixed(6)}`;
 
@@ -534,24 +807,15 @@ export const usePdfGenerator = ({
           await startNewPage();
           drawHeader("Firework Annotations (cont.)");
           y = margin + 18;
-          drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-          const hY = y + headerH / 2 + 3;
-          pdf.setFont("helvetica", "bold");
-          pdf.setFontSize(11);
-          pdf.text("ID/#", colX[0], hY);
-          pdf.text("Label", colX[1], hY);
-          pdf.text(`Fallout Radius (${unitLabel})`, colX[2], hY);
-          pdf.text("Lat, Lng", colX[3], hY);
-          y += headerH + rowGap;
-          pdf.setFont("helvetica", "normal");
-          pdf.setFontSize(10);
+          drawAnnotationHeader();
         }
         drawRowBg(margin, y, pageWidth - margin * 2, rowH);
         const yMid = y + rowH / 2 + 3;
         pdf.text(id, colX[0], yMid);
         pdf.text(label, colX[1], yMid);
         pdf.text(radius, colX[2], yMid);
-        pdf.text(latlng, colX[3], yMid);
+        pdf.text(describeAim(rec), colX[3], yMid);
+        pdf.text(latlng, colX[4], yMid);
         y += rowH + rowGap;
       }
 
@@ -565,20 +829,21 @@ export const usePdfGenerator = ({
         drawHeader("Custom Annotations");
         y = margin + 18;
         const cColX = [margin, margin + 80, margin + 200, margin + 280];
+        const drawCustomHeader = () => {
+          pdf.setFont("helvetica", "bold");
+          pdf.setFontSize(11);
+          drawRowBg(margin, y, pageWidth - margin * 2, headerH);
+          const hY = y + headerH / 2 + 3;
+          pdf.text("ID/#", cColX[0], hY);
+          pdf.text("Label", cColX[1], hY);
+          pdf.text("Color", cColX[2], hY);
+          pdf.text("Position (lat, lng)", cColX[3], hY);
+          y += headerH + rowGap;
+          pdf.setFont("helvetica", "normal");
+          pdf.setFontSize(10);
+        };
+        drawCustomHeader();
 
-        // header
-        pdf.setFont("helvetica", "bold");
-        pdf.setFontSize(11);
-        drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-        const cHeaderYMid = y + headerH / 2 + 3;
-        pdf.text("ID/#", cColX[0], cHeaderYMid);
-        pdf.text("Label", cColX[1], cHeaderYMid);
-        pdf.text("Color", cColX[2], cHeaderYMid);
-        pdf.text("Position (lat, lng)", cColX[3], cHeaderYMid);
-        y += headerH + rowGap;
-
-        pdf.setFont("helvetica", "normal");
-        pdf.setFontSize(10);
         for (const rec of customAnnotations) {
           const pos = rec.marker.getLngLat();
           const id = String(rec.number);
@@ -590,17 +855,7 @@ export const usePdfGenerator = ({
             await startNewPage();
             drawHeader("Custom Annotations (cont.)");
             y = margin + 18;
-            drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-            const hY = y + headerH / 2 + 3;
-            pdf.setFont("helvetica", "bold");
-            pdf.setFontSize(11);
-            pdf.text("ID/#", cColX[0], hY);
-            pdf.text("Label", cColX[1], hY);
-            pdf.text("Color", cColX[2], hY);
-            pdf.text("Position (lat, lng)", cColX[3], hY);
-            y += headerH + rowGap;
-            pdf.setFont("helvetica", "normal");
-            pdf.setFontSize(10);
+            drawCustomHeader();
           }
           drawRowBg(margin, y, pageWidth - margin * 2, rowH);
           const yMid = y + rowH / 2 + 3;
@@ -630,25 +885,38 @@ export const usePdfGenerator = ({
         }
       }
 
+      // Polygon rows list every vertex and report area instead of W × H
+      const vertexColumnWidth = 150;
+      const vertexColumns = (c: number[][]) => (c.length > 12 ? 2 : 1);
+      const polygonDims = (c: number[][]) =>
+        `${formatArea(
+          polygonAreaSqMeters(c as [number, number][]),
+          measurementUnit
+        )} (${c.length} vertices)`;
+      const rotationSuffix = (deg?: number) =>
+        deg ? ` rotated ${Math.round(deg)}°` : "";
+
       // Audience Annotations table
       await startNewPage();
       drawHeader("Audience Annotations");
       y = margin + 18;
       const aColX = [margin, margin + 90, margin + 280, margin + 420];
       // column widths for audience table derived implicitly
-      // header
-      pdf.setFont("helvetica", "bold");
-      pdf.setFontSize(11);
-      drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-      const aHeaderYMid = y + headerH / 2 + 3;
-      pdf.text("ID/#", aColX[0], aHeaderYMid);
-      pdf.text("Label", aColX[1], aHeaderYMid);
-      pdf.text(`Dimensions (${unitLabel})`, aColX[2], aHeaderYMid);
-      pdf.text("Corners (lat, lng)", aColX[3], aHeaderYMid);
-      y += headerH + rowGap;
+      const drawAudienceHeader = () => {
+        pdf.setFont("helvetica", "bold");
+        pdf.setFontSize(11);
+        drawRowBg(margin, y, pageWidth - margin * 2, headerH);
+        const hY = y + headerH / 2 + 3;
+        pdf.text("ID/#", aColX[0], hY);
+        pdf.text("Label", aColX[1], hY);
+        pdf.text(`Dimensions (${unitLabel})`, aColX[2], hY);
+        pdf.text("Corners / vertices (lat, lng)", aColX[3], hY);
+        y += headerH + rowGap;
+        pdf.setFont("helvetica", "normal");
+        pdf.setFontSize(10);
+      };
+      drawAudienceHeader();
 
-      pdf.setFont("helvetica", "normal");
-      pdf.setFontSize(10);
       const audiences = Object.values(audienceAreasRef.current).sort(
         (a, b) => a.number - b.number
       );
@@ -656,12 +924,8 @@ export const usePdfGenerator = ({
         const id = String(rec.number);
         const label = "Audience";
         const c = rec.corners;
-        const centerLat = (c[0][1] + c[2][1]) / 2;
-        const metersW =
-          Math.abs(c[1][0] - c[0][0]) *
-          111320 *
-          Math.cos((centerLat * Math.PI) / 180);
-        const metersH = Math.abs(c[3][1] - c[0][1]) * 110540;
+        const { widthMeters: metersW, heightMeters: metersH } =
+          rectangleSizeMeters(c as [number, number][]);
         const widthVal =
           measurementUnit === "feet"
             ? Math.round(metersToFeet(metersW))
@@ -670,30 +934,20 @@ export const usePdfGenerator = ({
           measurementUnit === "feet"
             ? Math.round(metersToFeet(metersH))
             : Math.round(metersH);
-        const dims = `${widthVal} × ${heightVal}`;
-        const cornerLines = [
-          `${c[0][1].toFixed(6)}, ${c[0][0].toFixed(6)}`,
-          `${c[1][1].toFixed(6)}, ${c[1][0].toFixed(6)}`,
-          `${c[2][1].toFixed(6)}, ${c[2][0].toFixed(6)}`,
-          `${c[3][1].toFixed(6)}, ${c[3][0].toFixed(6)}`,
-        ];
-        const lines = cornerLines.length;
+        const dims =
+          rec.shape === "polygon"
+            ? polygonDims(c)
+            : `${widthVal} × ${heightVal}${rotationSuffix(rec.rotationDeg)}`;
+        const cornerLines = c.map(
+          (p) => `${p[1].toFixed(6)}, ${p[0].toFixed(6)}`
+        );
+        const lines = Math.ceil(cornerLines.length / vertexColumns(c));
         const rowH = Math.max(26, lines * lineHeight + 10);
         if (y + rowH + margin > pageHeight) {
           await startNewPage();
           drawHeader("Audience Annotations (cont.)");
           y = margin + 18;
-          drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-          const hY = y + headerH / 2 + 3;
-          pdf.setFont("helvetica", "bold");
-          pdf.setFontSize(11);
-          pdf.text("ID/#", aColX[0], hY);
-          pdf.text("Label", aColX[1], hY);
-          pdf.text(`Dimensions (${unitLabel})`, aColX[2], hY);
-          pdf.text("Corners (lat, lng)", aColX[3], hY);
-          y += headerH + rowGap;
-          pdf.setFont("helvetica", "normal");
-          pdf.setFontSize(10);
+          drawAudienceHeader();
         }
         drawRowBg(margin, y, pageWidth - margin * 2, rowH);
         // Vertically center simple cells
@@ -701,12 +955,15 @@ export const usePdfGenerator = ({
         pdf.text(id, aColX[0], yMid);
         pdf.text(label, aColX[1], yMid);
         pdf.text(dims, aColX[2], yMid);
-        // Corner lines stacked
-        let lineY = y + (rowH - lines * lineHeight) / 2 + lineHeight - 4;
-        for (const ln of cornerLines) {
-          pdf.text(ln, aColX[3], lineY);
-          lineY += lineHeight;
-        }
+        // Corner lines stacked, wrapping into a second column for polygons
+        const lineTop = y + (rowH - lines * lineHeight) / 2 + lineHeight - 4;
+        cornerLines.forEach((ln, i) => {
+          pdf.text(
+            ln,
+            aColX[3] + Math.floor(i / lines) * vertexColumnWidth,
+            lineTop + (i % lines) * lineHeight
+          );
+        });
         y += rowH + rowGap;
       }
 
@@ -716,19 +973,21 @@ export const usePdfGenerator = ({
       y = margin + 18;
       const rColX = [margin, margin + 90, margin + 280, margin + 420];
       // column widths for restricted table derived implicitly
-      // header
-      pdf.setFont("helvetica", "bold");
-      pdf.setFontSize(11);
-      drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-      const rHeaderYMid = y + headerH / 2 + 3;
-      pdf.text("ID/#", rColX[0], rHeaderYMid);
-      pdf.text("Label", rColX[1], rHeaderYMid);
-      pdf.text(`Dimensions (${unitLabel})`, rColX[2], rHeaderYMid);
-      pdf.text("Corners (lat, lng)", rColX[3], rHeaderYMid);
-      y += headerH + rowGap;
+      const drawRestrictedHeader = () => {
+        pdf.setFont("helvetica", "bold");
+        pdf.setFontSize(11);
+        drawRowBg(margin, y, pageWidth - margin * 2, headerH);
+        const hY = y + headerH / 2 + 3;
+        pdf.text("ID/#", rColX[0], hY);
+        pdf.text("Label", rColX[1], hY);
+        pdf.text(`Dimensions (${unitLabel})`, rColX[2], hY);
+        pdf.text("Corners / vertices (lat, lng)", rColX[3], hY);
+        y += headerH + rowGap;
+        pdf.setFont("helvetica", "normal");
+        pdf.setFontSize(10);
+      };
+      drawRestrictedHeader();
 
-      pdf.setFont("helvetica", "normal");
-      pdf.setFontSize(10);
       const restricted = Object.values(restrictedAreasRef.current).sort(
         (a, b) => a.number - b.number
       );
@@ -736,12 +995,8 @@ export const usePdfGenerator = ({
         const id = String(rec.number);
         const label = "Restricted";
         const c = rec.corners;
-        const centerLat = (c[0][1] + c[2][1]) / 2;
-        const metersW =
-          Math.abs(c[1][0] - c[0][0]) *
-          111320 *
-          Math.cos((centerLat * Math.PI) / 180);
-        const metersH = Math.abs(c[3][1] - c[0][1]) * 110540;
+        const { widthMeters: metersW, heightMeters: metersH } =
+          rectangleSizeMeters(c as [number, number][]);
         const widthValR =
           measurementUnit === "feet"
             ? Math.round(metersToFeet(metersW))
@@ -750,30 +1005,20 @@ export const usePdfGenerator = ({
           measurementUnit === "feet"
             ? Math.round(metersToFeet(metersH))
             : Math.round(metersH);
-        const dims = `${widthValR} × ${heightValR}`;
-        const cornerLines = [
-          `${c[0][1].toFixed(6)}, ${c[0][0].toFixed(6)}`,
-          `${c[1][1].toFixed(6)}, ${c[1][0].toFixed(6)}`,
-          `${c[2][1].toFixed(6)}, ${c[2][0].toFixed(6)}`,
-          `${c[3][1].toFixed(6)}, ${c[3][0].toFixed(6)}`,
-        ];
-        const lines = cornerLines.length;
+        const dims =
+          rec.shape === "polygon"
+            ? polygonDims(c)
+            : `${widthValR} × ${heightValR}${rotationSuffix(rec.rotationDeg)}`;
+        const cornerLines = c.map(
+          (p) => `${p[1].toFixed(6)}, ${p[0].toFixed(6)}`
+        );
+        const lines = Math.ceil(cornerLines.length / vertexColumns(c));
         const rowH = Math.max(26, lines * lineHeight + 10);
         if (y + rowH + margin > pageHeight) {
           await startNewPage();
           drawHeader("Restricted Annotations (cont.)");
           y = margin + 18;
-          drawRowBg(margin, y, pageWidth - margin * 2, headerH);
-          const hY = y + headerH / 2 + 3;
-          pdf.setFont("helvetica", "bold");
-          pdf.setFontSize(11);
-          pdf.text("ID/#", rColX[0], hY);
-          pdf.text("Label", rColX[1], hY);
-          pdf.text(`Dimensions (${unitLabel})`, rColX[2], hY);
-          pdf.text("Corners (lat, lng)", rColX[3], hY);
-          y += headerH + rowGap;
-          pdf.setFont("helvetica", "normal");
-          pdf.setFontSize(10);
+          drawRestrictedHeader();
         }
         drawRowBg(margin, y, pageWidth - margin * 2, rowH);
         // Vertically center simple cells
@@ -781,15 +1026,160 @@ export const usePdfGenerator = ({
         pdf.text(id, rColX[0], yMid);
         pdf.text(label, rColX[1], yMid);
         pdf.text(dims, rColX[2], yMid);
-        // Corner lines stacked
-        let lineY = y + (rowH - lines * lineHeight) / 2 + lineHeight - 4;
-        for (const ln of cornerLines) {
-          pdf.text(ln, rColX[3], lineY);
-          lineY += lineHeight;
-        }
+        // Corner lines stacked, wrapping into a second column for polygons
+        const lineTop = y + (rowH - lines * lineHeight) / 2 + lineHeight - 4;
+        cornerLines.forEach((ln, i) => {
+          pdf.text(
+            ln,
+            rColX[3] + Math.floor(i / lines) * vertexColumnWidth,
+            lineTop + (i % lines) * lineHeight
+          );
+        });
         y += rowH + rowGap;
       }
 
+      // Measurements table: per-segment lengths with running totals and the
+      // full vertex list
+      const measurements = Object.values(measurementsRef.current).sort(
+        (a, b) => a.number - b.number
+      );
+      if (measurements.length > 0) {
+        await startNewPage();
+        drawHeader("Measurements");
+        y = margin + 18;
+        const mColX = [margin, margin + 60, margin + 160, margin + 360];
+        const drawMeasurementHeader = () => {
+          pdf.setFont("helvetica", "bold");
+          pdf.setFontSize(11);
+          drawRowBg(margin, y, pageWidth - margin * 2, headerH);
+          const hY = y + headerH / 2 + 3;
+          pdf.text("ID/#", mColX[0], hY);
+          pdf.text(`Total (${unitLabel})`, mColX[1], hY);
+          pdf.text(`Segments (${unitLabel}, running total)`, mColX[2], hY);
+          pdf.text("Vertices (lat, lng)", mColX[3], hY);
+          y += headerH + rowGap;
+          pdf.setFont("helvetica", "normal");
+          pdf.setFontSize(10);
+        };
+        drawMeasurementHeader();
+        // Most lines a row can hold on a page of its own
+        const maxRowLines = Math.floor(
+          (pageHeight - margin * 2 - 18 - headerH - rowGap - 10) / lineHeight
+        );
+
+        for (const rec of measurements) {
+          const p = rec.points as [number, number][];
+          const totals = runningTotalsMeters(p);
+          const segmentLines = segmentLengthsMeters(p).map(
+            (len, i) =>
+              `${i + 1}: ${lengthVal(len)} (Σ ${lengthVal(totals[i]!)})`
+          );
+          const vertexLines = p.map(
+            (v) => `${v[1].toFixed(6)}, ${v[0].toFixed(6)}`
+          );
+          const vColumns = vertexColumns(p);
+          // A line with more segments than fit on one page carries on in
+          // further rows, one per page, each starting under a fresh header
+          let seg = 0;
+          let vtx = 0;
+          do {
+            const segmentChunk = segmentLines.slice(seg, seg + maxRowLines);
+            const vertexChunk = vertexLines.slice(
+              vtx,
+              vtx + maxRowLines * vColumns
+            );
+            const vLines = Math.ceil(vertexChunk.length / vColumns);
+            const lines = Math.max(segmentChunk.length, vLines);
+            const rowH = Math.max(26, lines * lineHeight + 10);
+            if (y + rowH + margin > pageHeight) {
+              await startNewPage();
+              drawHeader("Measurements (cont.)");
+              y = margin + 18;
+              drawMeasurementHeader();
+            }
+            drawRowBg(margin, y, pageWidth - margin * 2, rowH);
+            const yMid = y + rowH / 2 + 3;
+            if (seg === 0 && vtx === 0) {
+              pdf.text(String(rec.number), mColX[0], yMid);
+              pdf.text(lengthVal(polylineLengthMeters(p)), mColX[1], yMid);
+            } else {
+              pdf.text(`${rec.number} (cont.)`, mColX[0], yMid);
+            }
+            const lineTop =
+              y + (rowH - lines * lineHeight) / 2 + lineHeight - 4;
+            segmentChunk.forEach((ln, i) => {
+              pdf.text(ln, mColX[2], lineTop + i * lineHeight);
+            });
+            vertexChunk.forEach((ln, i) => {
+              pdf.text(
+                ln,
+                mColX[3] + Math.floor(i / vLines) * vertexColumnWidth,
+                lineTop + (i % vLines) * lineHeight
+              );
+            });
+            y += rowH + rowGap;
+            seg += segmentChunk.length;
+            vtx += vertexChunk.length;
+          } while (seg < segmentLines.length || vtx < vertexLines.length);
+        }
+      }
+
+      // Area measurements table
+      const areaMeasurements = Object.values(areaMeasurementsRef.current).sort(
+        (a, b) => a.number - b.number
+      );
+      if (areaMeasurements.length > 0) {
+        await startNewPage();
+        drawHeader("Area Measurements");
+        y = margin + 18;
+        const arColX = [margin, margin + 90, margin + 280];
+        const drawAreaHeader = () => {
+          pdf.setFont("helvetica", "bold");
+          pdf.setFontSize(11);
+          drawRowBg(margin, y, pageWidth - margin * 2, headerH);
+          const hY = y + headerH / 2 + 3;
+          pdf.text("ID/#", arColX[0], hY);
+          pdf.text("Area", arColX[1], hY);
+          pdf.text("Vertices (lat, lng)", arColX[2], hY);
+          y += headerH + rowGap;
+          pdf.setFont("helvetica", "normal");
+          pdf.setFontSize(10);
+        };
+        drawAreaHeader();
+
+        for (const rec of areaMeasurements) {
+          const c = rec.corners as [number, number][];
+          const vertexLines = c.map(
+            (v) => `${v[1].toFixed(6)}, ${v[0].toFixed(6)}`
+          );
+          const lines = Math.ceil(vertexLines.length / vertexColumns(c));
+          const rowH = Math.max(26, lines * lineHeight + 10);
+          if (y + rowH + margin > pageHeight) {
+            await startNewPage();
+            drawHeader("Area Measurements (cont.)");
+            y = margin + 18;
+            drawAreaHeader();
+          }
+          drawRowBg(margin, y, pageWidth - margin * 2, rowH);
+          const yMid = y + rowH / 2 + 3;
+          pdf.text(String(rec.number), arColX[0], yMid);
+          pdf.text(
+            formatLandArea(polygonAreaSqMeters(c), measurementUnit),
+            arColX[1],
+            yMid
+          );
+          const lineTop = y + (rowH - lines * lineHeight) / 2 + lineHeight - 4;
+          vertexLines.forEach((ln, i) => {
+            pdf.text(
+              ln,
+              arColX[2] + Math.floor(i / lines) * vertexColumnWidth,
+              lineTop + (i % lines) * lineHeight
+            );
+          });
+          y += rowH + rowGap;
+        }
+      }
+
       console.info("[siteplan] saving PDF...");
       pdf.save("site-plan.pdf");
       console.info("[siteplan] PDF saved");
@@ -0,0 +1,71 @@
+// Crash recovery: the plan being edited, kept in IndexedDB between visits
+
+const DB_NAME = "pyroplot";
+const DB_VERSION = 1;
+const STORE = "autosave";
+const SESSION_KEY = "session";
+
+// Quiet period after the last edit before the plan is written
+export const AUTOSAVE_DELAY_MS = 1000;
+
+export interface AutosaveRecord {
+  savedAt: number; // epoch ms
+  state: unknown; // serialized plan; the caller validates it on restore
+  thumbnail?: string; // JPEG data URL of the map view
+  projectId?: string; // saved project the plan belongs to, if any
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE))
+        request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs one request and resolves once its transaction has committed
+async function inStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function writeAutosave(record: AutosaveRecord): Promise<void> {
+  await inStore("readwrite", (store) => store.put(record, SESSION_KEY));
+}
+
+/** The last autosaved plan, or null when there is none or storage fails. */
+export async function readAutosave(): Promise<AutosaveRecord | null> {
+  try {
+    const value: unknown = await inStore("readonly", (store) =>
+      store.get(SESSION_KEY)
+    );
+    if (!value || typeof value !== "object") return null;
+    const record = value as AutosaveRecord;
+    return typeof record.savedAt === "number" && record.state ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearAutosave(): Promise<void> {
+  try {
+    await inStore("readwrite", (store) => store.delete(SESSION_KEY));
+  } catch {}
+}
@@ -0,0 +1,520 @@
+// Product catalog: the team's own devices, shown in the palette and saved locally
+
+import { type CsvRecord, formatCsv } from "./csv";
+import type { DeviceKind } from "./safety-rules";
+
+export type EffectType =
+  | "shell"
+  | "comet"
+  | "mine"
+  | "cake"
+  | "candle"
+  | "fountain"
+  | "other";
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  manufacturer?: string;
+  category?: string; // palette group
+  inches: number; // caliber
+  effectType: EffectType;
+  shots?: number;
+  durationSec?: number;
+  color: string;
+  falloutFeet?: number; // replaces the rule set radius for this product
+  favorite?: boolean;
+}
+
+export const EFFECT_TYPES: {
+  id: EffectType;
+  label: string;
+  deviceKind: DeviceKind;
+}[] = [
+  { id: "shell", label: "Shell", deviceKind: "aerial" },
+  { id: "comet", label: "Comet", deviceKind: "aerial" },
+  { id: "mine", label: "Mine", deviceKind: "ground" },
+  { id: "cake", label: "Cake", deviceKind: "ground" },
+  { id: "candle", label: "Roman candle", deviceKind: "ground" },
+  { id: "fountain", label: "Fountain", deviceKind: "ground" },
+  { id: "other", label: "Other", deviceKind: "aerial" },
+];
+
+export const CATALOG_STORAGE_KEY = "pyroplot:catalog";
+export const DEFAULT_PRODUCT_COLOR = "#FF5126";
+// Palette keys of the drawing tools; products may not use them
+export const RESERVED_PRODUCT_IDS = [
+  "audience",
+  "measurement",
+  "area",
+  "restricted",
+  "custom",
+];
+
+function defaultProduct(
+  id: string,
+  name: string,
+  inches: number,
+  effectType: EffectType
+): CatalogProduct {
+  return {
+    id,
+    name,
+    category: effectType === "cake" ? "Bores" : "Shells",
+    inches,
+    effectType,
+    color: DEFAULT_PRODUCT_COLOR,
+  };
+}
+
+// The original fixed palette; ids match the keys older plans were made with
+export const DEFAULT_CATALOG: CatalogProduct[] = [
+  defaultProduct("bore-1", '1" Bore', 1, "cake"),
+  defaultProduct("bore-1-2", '1.2" Bore', 1.2, "cake"),
+  defaultProduct("bore-1-5", '1.5" Bore', 1.5, "cake"),
+  defaultProduct("shell-1-75", '1.75" Shells', 1.75, "shell"),
+  defaultProduct("shell-2", '2" Shells', 2, "shell"),
+  defaultProduct("shell-2-5", '2.5" Shells', 2.5, "shell"),
+  defaultProduct("shell-3", '3" Shells', 3, "shell"),
+  defaultProduct("shell-4", '4" Shells', 4, "shell"),
+  defaultProduct("shell-5", '5" Shells', 5, "shell"),
+  defaultProduct("shell-6", '6" Shells', 6, "shell"),
+  defaultProduct("shell-7", '7" Shells', 7, "shell"),
+  defaultProduct("shell-8", '8" Shells', 8, "shell"),
+  defaultProduct("shell-10", '10" Shells', 10, "shell"),
+  defaultProduct("shell-12", '12" Shells', 12, "shell"),
+  defaultProduct("shell-16", '16" Shells', 16, "shell"),
+];
+
+export function productDeviceKind(product: CatalogProduct): DeviceKind {
+  return (
+    EFFECT_TYPES.find((t) => t.id === product.effectType)?.deviceKind ??
+    "aerial"
+  );
+}
+
+/** Short spec line, e.g. `3" shell · 25 shots · 30 s`. */
+export function describeProduct(product: CatalogProduct): string {
+  const effect =
+    EFFECT_TYPES.find((t) => t.id === product.effectType)?.label ?? "";
+  const parts = [`${product.inches}" ${effect.toLowerCase()}`.trim()];
+  if (product.manufacturer) parts.unshift(product.manufacturer);
+  if (product.shots) parts.push(`${product.shots} shots`);
+  if (product.durationSec) parts.push(`${product.durationSec} s`);
+  return parts.join(" · ");
+}
+
+export function createProduct(): CatalogProduct {
+  return {
+    id: `prod-${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2, 6)}`,
+    name: "",
+    inches: 3,
+    effectType: "shell",
+    color: DEFAULT_PRODUCT_COLOR,
+  };
+}
+
+/** Returns a copy with the product at `from` moved to `to`. */
+export function moveProduct(
+  products: CatalogProduct[],
+  from: number,
+  to: number
+): CatalogProduct[] {
+  if (to < 0 || to >= products.length || from === to) return products;
+  const next = [...products];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved!);
+  return next;
+}
+
+/**
+ * Palette groups: favourites first, then each category in catalog order.
+ * Uncategorised products go last under "Other".
+ */
+export function paletteGroups(
+  products: CatalogProduct[]
+): { title: string; products: CatalogProduct[] }[] {
+  const groups = new Map<string, CatalogProduct[]>();
+  const favorites = products.filter((p) => p.favorite);
+  for (const p of products) {
+    if (p.favorite) continue;
+    const title = p.category?.trim() || "Other";
+    groups.set(title, [...(groups.get(title) ?? []), p]);
+  }
+  const other = groups.get("Other");
+  groups.delete("Other");
+  return [
+    ...(favorites.length > 0
+      ? [{ title: "Favourites", products: favorites }]
+      : []),
+    ...[...groups].map(([title, list]) => ({ title, products: list })),
+    ...(other ? [{ title: "Other", products: other }] : []),
+  ];
+}
+
+/** Validation message for an edited product, or null when it can be saved. */
+export function validateProduct(product: CatalogProduct): string | null {
+  if (!product.name.trim()) return "Name is required.";
+  if (!(product.inches > 0)) return "Caliber must be greater than zero.";
+  if (product.shots !== undefined && !(product.shots >= 1))
+    return "Shots must be at least 1.";
+  if (product.durationSec !== undefined && !(product.durationSec >= 0))
+    return "Duration cannot be negative.";
+  if (product.falloutFeet !== undefined && !(product.falloutFeet > 0))
+    return "Fallout override must be greater than zero.";
+  return null;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/** Validates an untrusted (e.g. stored) product. */
+export function parseProduct(value: unknown): CatalogProduct | null {
+  if (!value || typeof value !== "object") return null;
+  const p = value as Record<string, unknown>;
+  if (typeof p.id !== "string" || !p.id) return null;
+  if (RESERVED_PRODUCT_IDS.includes(p.id)) return null;
+  if (typeof p.name !== "string") return null;
+  if (typeof p.inches !== "number" || !(p.inches > 0)) return null;
+  const effectType = EFFECT_TYPES.some((t) => t.id === p.effectType)
+    ? (p.effectType as EffectType)
+    : "other";
+  const product: CatalogProduct = {
+    id: p.id,
+    name: p.name,
+    inches: p.inches,
+    effectType,
+    color:
+      typeof p.color === "string" && /^#[0-9a-f]{6}$/i.test(p.color)
+        ? p.color
+        : DEFAULT_PRODUCT_COLOR,
+  };
+  if (typeof p.manufacturer === "string" && p.manufacturer)
+    product.manufacturer = p.manufacturer;
+  if (typeof p.category === "string" && p.category)
+    product.category = p.category;
+  const shots = optionalNumber(p.shots);
+  if (shots !== undefined) product.shots = shots;
+  const durationSec = optionalNumber(p.durationSec);
+  if (durationSec !== undefined) product.durationSec = durationSec;
+  const falloutFeet = optionalNumber(p.falloutFeet);
+  if (falloutFeet !== undefined && falloutFeet > 0)
+    product.falloutFeet = falloutFeet;
+  if (p.favorite === true) product.favorite = true;
+  return validateProduct(product) ? null : product;
+}
+
+/** Saved catalog, or the default palette when nothing usable is stored. */
+export function loadCatalog(): CatalogProduct[] {
+  try {
+    const raw = window.localStorage.getItem(CATALOG_STORAGE_KEY);
+    if (!raw) return DEFAULT_CATALOG;
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_CATALOG;
+    const seen = new Set<string>();
+    return parsed.map(parseProduct).filter((p): p is CatalogProduct => {
+      if (!p || seen.has(p.id)) return false;
+      seen.add(p.id);
+      return true;
+    });
+  } catch {
+    return DEFAULT_CATALOG;
+  }
+}
+
+export function saveCatalog(products: CatalogProduct[]): void {
+  try {
+    window.localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(products));
+  } catch {}
+}
+
+/**
+ * Palette entry an older plan's firework most likely came from; those plans
+ * only stored the caliber.
+ */
+export function findLegacyProduct(inches: number): CatalogProduct | undefined {
+  return DEFAULT_CATALOG.find((p) => p.inches === inches);
+}
+
+// --- CSV import/export ---
+
+export type CatalogField =
+  | "key"
+  | "name"
+  | "manufacturer"
+  | "category"
+  | "inches"
+  | "effectType"
+  | "shots"
+  | "durationSec"
+  | "color"
+  | "falloutFeet"
+  | "favorite";
+
+/** CSV columns in export order; aliases help guess the mapping on import. */
+export const CATALOG_CSV_COLUMNS: {
+  field: CatalogField;
+  header: string;
+  label: string;
+  aliases: string[];
+  required?: boolean;
+}[] = [
+  {
+    field: "key",
+    header: "key",
+    label: "Key",
+    aliases: ["id", "sku", "item", "item number", "part number"],
+  },
+  {
+    field: "name",
+    header: "name",
+    label: "Name",
+    aliases: ["product", "product name", "description", "title"],
+    required: true,
+  },
+  {
+    field: "manufacturer",
+    header: "manufacturer",
+    label: "Manufacturer",
+    aliases: ["brand", "maker", "supplier", "vendor"],
+  },
+  {
+    field: "category",
+    header: "category",
+    label: "Category",
+    aliases: ["group", "section", "family"],
+  },
+  {
+    field: "inches",
+    header: "caliber_in",
+    label: "Caliber (in)",
+    aliases: ["caliber", "calibre", "size", "inches", "bore"],
+    required: true,
+  },
+  {
+    field: "effectType",
+    header: "effect_type",
+    label: "Effect Type",
+    aliases: ["effect", "type", "device type"],
+  },
+  {
+    field: "shots",
+    header: "shots",
+    label: "Shots",
+    aliases: ["shot count", "number of shots"],
+  },
+  {
+    field: "durationSec",
+    header: "duration_s",
+    label: "Duration (s)",
+    aliases: ["duration", "seconds", "time"],
+  },
+  {
+    field: "color",
+    header: "color",
+    label: "Color",
+    aliases: ["colour", "hex"],
+  },
+  {
+    field: "falloutFeet",
+    header: "fallout_ft",
+    label: "Fallout Override (ft)",
+    aliases: ["fallout", "fallout override", "fallout radius", "fallout feet"],
+  },
+  {
+    field: "favorite",
+    header: "favorite",
+    label: "Favourite",
+    aliases: ["favourite", "fav", "starred"],
+  },
+];
+
+/** Column index in the file for each catalog field. */
+export type ColumnMapping = Partial<Record<CatalogField, number>>;
+
+export interface CsvRowError {
+  line: number; // line of the file the row starts on, counting from 1
+  message: string;
+}
+
+export interface CatalogImport {
+  products: CatalogProduct[];
+  errors: CsvRowError[];
+  updates: string[]; // keys that already exist in the catalog
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_\-()]+/g, " ")
+    .trim();
+}
+
+/** Maps each field to the first header that names it or one of its aliases. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const col of CATALOG_CSV_COLUMNS) {
+    const names = [col.header, col.label, ...col.aliases].map(normalizeHeader);
+    const index = headers.findIndex(
+      (h, i) => !used.has(i) && names.includes(normalizeHeader(h))
+    );
+    if (index !== -1) {
+      mapping[col.field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Accepts 3, 3", 3 in, 3 inch and millimetres such as 75mm
+function parseCaliber(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)\s*(mm|"|in|inch|inches)?$/i.exec(text);
+  if (!match) return null;
+  const value = Number(match[1]);
+  return match[2]?.toLowerCase() === "mm" ? value / 25.4 : value;
+}
+
+function parseEffectType(text: string): EffectType | null {
+  const t = text.trim().toLowerCase();
+  if (!t) return "other";
+  const found = EFFECT_TYPES.find(
+    (e) => e.id === t || e.label.toLowerCase() === t || `${e.id}s` === t
+  );
+  return found ? found.id : null;
+}
+
+/**
+ * Reads data rows (header excluded) into products. Every problem is reported
+ * against the line its row starts on; rows with problems are left out. Rows without a key are
+ * keyed by their name, so a repeated name counts as a duplicate too.
+ */
+export function productsFromCsv(
+  rows: CsvRecord[],
+  mapping: ColumnMapping,
+  existing: CatalogProduct[]
+): CatalogImport {
+  const products: CatalogProduct[] = [];
+  const errors: CsvRowError[] = [];
+  const updates: string[] = [];
+  const seen = new Map<string, number>();
+  const existingIds = new Set(existing.map((p) => p.id));
+
+  rows.forEach(({ line, fields: cells }) => {
+    const get = (field: CatalogField) => {
+      const index = mapping[field];
+      return index === undefined ? "" : (cells[index] ?? "").trim();
+    };
+    const fail = (message: string) => errors.push({ line, message });
+    const errorCount = errors.length;
+
+    const name = get("name");
+    if (!name) fail("Name is missing.");
+    const id = get("key") || slugify(name);
+    if (name && !id) fail("Key is missing.");
+    if (RESERVED_PRODUCT_IDS.includes(id))
+      fail(`Key "${id}" is reserved for a drawing tool.`);
+    const firstLine = seen.get(id);
+    if (id && firstLine !== undefined)
+      fail(`Duplicate key "${id}" (first used on line ${firstLine}).`);
+
+    const inches = parseCaliber(get("inches"));
+    if (inches === null || !(inches > 0))
+      fail(
+        get("inches")
+          ? `Caliber "${get("inches")}" is not a size in inches or mm.`
+          : "Caliber is missing."
+      );
+    const effectType = parseEffectType(get("effectType"));
+    if (!effectType)
+      fail(
+        `Unknown effect type "${get("effectType")}" (use ${EFFECT_TYPES.map(
+          (e) => e.id
+        ).join(", ")}).`
+      );
+
+    const number = (field: CatalogField, label: string, min: number) => {
+      const text = get(field);
+      if (!text) return undefined;
+      const value = Number(text);
+      if (!Number.isFinite(value) || value < min) {
+        fail(`${label} "${text}" must be a number of at least ${min}.`);
+        return undefined;
+      }
+      return value;
+    };
+    const shots = number("shots", "Shots", 1);
+    const durationSec = number("durationSec", "Duration", 0);
+    const falloutFeet = number("falloutFeet", "Fallout override", 1);
+
+    let color = get("color") || DEFAULT_PRODUCT_COLOR;
+    if (/^[0-9a-f]{6}$/i.test(color)) color = `#${color}`;
+    if (!/^#[0-9a-f]{6}$/i.test(color))
+      fail(`Color "${get("color")}" must be a hex value like #FF5126.`);
+
+    if (id && firstLine === undefined) seen.set(id, line);
+    if (errors.length > errorCount) return;
+
+    const product: CatalogProduct = {
+      id,
+      name,
+      inches: inches!,
+      effectType: effectType!,
+      color: color.toUpperCase(),
+    };
+    if (get("manufacturer")) product.manufacturer = get("manufacturer");
+    if (get("category")) product.category = get("category");
+    if (shots !== undefined) product.shots = shots;
+    if (durationSec !== undefined) product.durationSec = durationSec;
+    if (falloutFeet !== undefined) product.falloutFeet = falloutFeet;
+    if (/^(y|yes|true|1|x|★)$/i.test(get("favorite"))) product.favorite = true;
+    if (existingIds.has(id)) updates.push(id);
+    products.push(product);
+  });
+
+  return { products, errors, updates };
+}
+
+/**
+ * Adds imported products after the existing ones. Products whose key already
+ * exists replace the old entry in place, or are skipped when not replacing.
+ */
+export function mergeCatalog(
+  existing: CatalogProduct[],
+  imported: CatalogProduct[],
+  replaceExisting: boolean
+): CatalogProduct[] {
+  const byId = new Map(imported.map((p) => [p.id, p]));
+  const merged = existing.map((p) =>
+    replaceExisting && byId.has(p.id) ? byId.get(p.id)! : p
+  );
+  const existingIds = new Set(existing.map((p) => p.id));
+  return [...merged, ...imported.filter((p) => !existingIds.has(p.id))];
+}
+
+export function catalogToCsv(products: CatalogProduct[]): string {
+  return formatCsv([
+    CATALOG_CSV_COLUMNS.map((c) => c.header),
+    ...products.map((p) =>
+      CATALOG_CSV_COLUMNS.map(({ field }) => {
+        if (field === "key") return p.id;
+        if (field === "favorite") return p.favorite ? "yes" : "";
+        const value = p[field];
+        return value === undefined ? "" : String(value);
+      })
+    ),
+  ]);
+}
@@ -0,0 +1,254 @@
+// Clearance checks between firework fallout zones and audience/restricted areas
+
+import type { LngLat } from "./fallout";
+import { fromLocalMeters, toLocalMeters } from "./local-meters";
+
+export type { LngLat };
+
+export interface ClearanceZone {
+  id: string;
+  number: number;
+  label: string;
+  center: LngLat; // launch position
+  radiusMeters: number; // nominal (still-air) radius
+  ring?: LngLat[]; // actual fallout outline when wind distorts the circle
+}
+
+export interface ClearanceArea {
+  id: string;
+  number: number;
+  kind: "audience" | "restricted";
+  corners: LngLat[];
+}
+
+export interface ClearanceMeasurement {
+  fireworkId: string;
+  fireworkNumber: number;
+  fireworkLabel: string;
+  areaId: string;
+  areaNumber: number;
+  areaKind: "audience" | "restricted";
+  requiredMeters: number;
+  actualMeters: number;
+  passes: boolean;
+  // Closest point of the area and the fallout edge facing it; absent when the
+  // launch position is inside the area
+  areaPoint?: LngLat;
+  edgePoint?: LngLat;
+}
+
+export interface ClearanceViolation extends ClearanceMeasurement {
+  shortfallMeters: number;
+}
+
+function closestOnSegment(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+): [number, number] {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lenSq = dx * dx + dy * dy;
+  const t =
+    lenSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lenSq));
+  return [ax + t * dx, ay + t * dy];
+}
+
+function distanceToSegment(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+): number {
+  const [cx, cy] = closestOnSegment(px, py, ax, ay, bx, by);
+  return Math.hypot(px - cx, py - cy);
+}
+
+function isInsideRing(px: number, py: number, ring: [number, number][]) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]!;
+    const [xj, yj] = ring[j]!;
+    const crosses =
+      yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/** Distance in meters from a point to a polygon; 0 when the point is inside. */
+export function distanceToPolygonMeters(point: LngLat, ring: LngLat[]) {
+  if (ring.length === 0) return Infinity;
+  const local = ring.map((c) => toLocalMeters(point, c));
+  if (isInsideRing(0, 0, local)) return 0;
+  let min = Infinity;
+  for (let i = 0; i < local.length; i++) {
+    const [ax, ay] = local[i]!;
+    const [bx, by] = local[(i + 1) % local.length]!;
+    min = Math.min(min, distanceToSegment(0, 0, ax, ay, bx, by));
+  }
+  return min;
+}
+
+// Distance from the origin along unit direction (ux, uy) to the farthest
+// crossing of the ring; 0 when the ray misses it
+function rayExtent(ring: [number, number][], ux: number, uy: number) {
+  let best = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [ax, ay] = ring[i]!;
+    const [bx, by] = ring[i + 1]!;
+    const ex = bx - ax;
+    const ey = by - ay;
+    const denom = ux * ey - uy * ex;
+    if (Math.abs(denom) < 1e-12) continue;
+    const t = (ax * ey - ay * ex) / denom;
+    const s = (ax * uy - ay * ux) / denom;
+    if (t >= 0 && s >= 0 && s <= 1) best = Math.max(best, t);
+  }
+  return best;
+}
+
+// Closest point of a local-meters ring to the origin
+function nearestOnRing(ring: [number, number][]): [number, number] {
+  let best: [number, number] = [0, 0];
+  let bestDist = Infinity;
+  for (let i = 0; i < ring.length; i++) {
+    const [ax, ay] = ring[i]!;
+    const [bx, by] = ring[(i + 1) % ring.length]!;
+    const p = closestOnSegment(0, 0, ax, ay, bx, by);
+    const d = Math.hypot(p[0], p[1]);
+    if (d < bestDist) {
+      bestDist = d;
+      best = p;
+    }
+  }
+  return best;
+}
+
+interface ZoneAreaMeasurement {
+  actualMeters: number;
+  requiredMeters: number;
+  areaPoint?: LngLat;
+  edgePoint?: LngLat;
+}
+
+function measureZoneToArea(
+  zone: ClearanceZone,
+  area: ClearanceArea
+): ZoneAreaMeasurement {
+  const local = area.corners.map((c) => toLocalMeters(zone.center, c));
+  const nearest = distanceToPolygonMeters(zone.center, area.corners);
+  if (nearest === 0 || !Number.isFinite(nearest)) {
+    return { actualMeters: nearest, requiredMeters: zone.radiusMeters };
+  }
+  // Points at distance d toward (px, py) from the launch position
+  const toward = (px: number, py: number, d: number) => {
+    const len = Math.hypot(px, py);
+    return fromLocalMeters(zone.center, (px / len) * d, (py / len) * d);
+  };
+  if (!zone.ring) {
+    const [px, py] = nearestOnRing(local);
+    return {
+      actualMeters: nearest,
+      requiredMeters: zone.radiusMeters,
+      areaPoint: fromLocalMeters(zone.center, px, py),
+      edgePoint: toward(px, py, zone.radiusMeters),
+    };
+  }
+  const zoneLocal = zone.ring.map((c) => toLocalMeters(zone.center, c));
+  const reach = Math.max(...zoneLocal.map(([x, y]) => Math.hypot(x, y)));
+
+  // The critical point minimises (distance - zone extent in that direction)
+  let best = {
+    margin: Infinity,
+    actualMeters: nearest,
+    requiredMeters: 0,
+    px: 0,
+    py: 0,
+  };
+  const consider = (px: number, py: number) => {
+    const d = Math.hypot(px, py);
+    if (d === 0) return;
+    const extent = rayExtent(zoneLocal, px / d, py / d);
+    if (d - extent < best.margin) {
+      best = {
+        margin: d - extent,
+        actualMeters: d,
+        requiredMeters: extent,
+        px,
+        py,
+      };
+    }
+  };
+  for (let i = 0; i < local.length; i++) {
+    const [ax, ay] = local[i]!;
+    const [bx, by] = local[(i + 1) % local.length]!;
+    const len = Math.hypot(bx - ax, by - ay);
+    // Far-away edges cannot conflict; only their closest point matters
+    const steps =
+      distanceToSegment(0, 0, ax, ay, bx, by) > reach
+        ? 0
+        : Math.min(100, Math.ceil(len / 2));
+    consider(...closestOnSegment(0, 0, ax, ay, bx, by));
+    if (steps === 0) continue;
+    for (let k = 0; k <= steps; k++) {
+      consider(ax + ((bx - ax) * k) / steps, ay + ((by - ay) * k) / steps);
+    }
+  }
+  const { actualMeters, requiredMeters, px, py } = best;
+  if (!Number.isFinite(best.margin)) return { actualMeters, requiredMeters };
+  return {
+    actualMeters,
+    requiredMeters,
+    areaPoint: fromLocalMeters(zone.center, px, py),
+    edgePoint: toward(px, py, requiredMeters),
+  };
+}
+
+/** Nearest distance from every fallout zone to every area, pass or fail. */
+export function measureClearances(
+  zones: ClearanceZone[],
+  areas: ClearanceArea[]
+): ClearanceMeasurement[] {
+  const measurements: ClearanceMeasurement[] = [];
+  for (const zone of zones) {
+    for (const area of areas) {
+      const { actualMeters, requiredMeters, areaPoint, edgePoint } =
+        measureZoneToArea(zone, area);
+      measurements.push({
+        fireworkId: zone.id,
+        fireworkNumber: zone.number,
+        fireworkLabel: zone.label,
+        areaId: area.id,
+        areaNumber: area.number,
+        areaKind: area.kind,
+        requiredMeters,
+        actualMeters,
+        passes: actualMeters >= requiredMeters,
+        ...(areaPoint && edgePoint ? { areaPoint, edgePoint } : {}),
+      });
+    }
+  }
+  return measurements;
+}
+
+export function findClearanceViolations(
+  zones: ClearanceZone[],
+  areas: ClearanceArea[]
+): ClearanceViolation[] {
+  return measureClearances(zones, areas)
+    .filter((m) => !m.passes)
+    .map((m) => ({ ...m, shortfallMeters: m.requiredMeters - m.actualMeters }))
+    .sort(
+      (a, b) =>
+        a.fireworkNumber - b.fireworkNumber ||
+        b.shortfallMeters - a.shortfallMeters
+    );
+}
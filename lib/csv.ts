@@ -0,0 +1,66 @@
+// Minimal RFC 4180 CSV reading and writing (quoted fields, "" escapes, CRLF)
+
+export interface CsvRecord {
+  line: number; // line of the file the record starts on, counting from 1
+  fields: string[];
+}
+
+/**
+ * Parses CSV text into records of fields; blank lines are dropped. Quoted
+ * fields may span lines, so each record keeps the line it starts on.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]!;
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n" || (ch === "\r" && src[i + 1] !== "\n")) line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      // Quotes only open at the start of a field; 3" elsewhere is literal
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      records.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    records.push({ line: rowLine, fields: row });
+  }
+  return records.filter((r) => r.fields.some((f) => f.trim() !== ""));
+}
+
+function formatField(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/** Formats rows as CSV with CRLF line endings, quoting only when needed. */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((r) => r.map(formatField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,196 @@
+// Fallout zone geometry: nominal radius adjusted for wind drift
+
+import type { Feature, Polygon } from "geojson";
+import { fromLocalMeters } from "./local-meters";
+
+export type LngLat = [number, number];
+
+export interface WindSettings {
+  directionDeg: number; // direction the wind blows FROM, clockwise from north
+  speedMph: number;
+  driftPerMph: number; // zone centre shift downwind, fraction of radius per mph
+  stretchPerMph: number; // downwind elongation, fraction of radius per mph
+}
+
+export const DEFAULT_WIND_SETTINGS: WindSettings = {
+  directionDeg: 0,
+  speedMph: 0,
+  driftPerMph: 0.02,
+  stretchPerMph: 0.04,
+};
+
+export interface MortarAim {
+  tiltDeg: number; // from vertical
+  azimuthDeg: number; // aim bearing, clockwise from north
+}
+
+export const MAX_TILT_DEG = 45;
+
+// Shells are drawn bursting at 100 ft per inch of caliber (as in 3D view)
+export function burstHeightMeters(inches: number): number {
+  return inches * 100 * 0.3048;
+}
+
+/** Horizontal distance from the mortar to the burst point of a tilted shot. */
+export function burstOffsetMeters(inches: number, tiltDeg: number): number {
+  const tilt = Math.min(Math.max(tiltDeg, 0), MAX_TILT_DEG);
+  return burstHeightMeters(inches) * Math.tan((tilt * Math.PI) / 180);
+}
+
+export function isAngled(aim?: Partial<MortarAim>): boolean {
+  return !!aim?.tiltDeg && aim.tiltDeg > 0;
+}
+
+export interface FalloutEllipse {
+  center: LngLat;
+  semiMajorMeters: number; // along the downwind axis
+  semiMinorMeters: number; // crosswind
+  axisBearingDeg: number; // downwind bearing, clockwise from north
+  radiusMeters: number; // nominal (still-air) radius the ellipse contains
+}
+
+// Smallest crosswind semi-axis for an ellipse centred `drift` downwind, with
+// downwind semi-axis `semiMajor` >= radius + drift, to still contain the
+// still-air circle. The two touch where c (cosine of the angle from downwind)
+// solves r·d·c² + (a² − r² − d²)·c + r·d = 0, which gives b² = a²·r·c / (r·c − d).
+function coveringSemiMinor(
+  radius: number,
+  drift: number,
+  semiMajor: number
+): number {
+  if (drift <= 0) return radius;
+  const k = semiMajor ** 2 - radius ** 2 - drift ** 2;
+  const c =
+    (-k + Math.sqrt(Math.max(0, k * k - 4 * radius ** 2 * drift ** 2))) /
+    (2 * radius * drift);
+  return semiMajor * Math.sqrt((radius * c) / (radius * c - drift));
+}
+
+/**
+ * An angled mortar moves the zone toward its burst point; wind then pushes it
+ * downwind and stretches it along the wind axis. The zone always contains the
+ * still-air circle: the downwind axis reaches past its upwind edge and the
+ * crosswind axis widens as far as the shift requires.
+ */
+export function computeFalloutEllipse(
+  launch: LngLat,
+  radiusMeters: number,
+  wind: WindSettings,
+  aim?: MortarAim & { inches: number }
+): FalloutEllipse {
+  let origin = launch;
+  if (aim && isAngled(aim)) {
+    const offset = burstOffsetMeters(aim.inches, aim.tiltDeg);
+    const aimRad = (aim.azimuthDeg * Math.PI) / 180;
+    origin = fromLocalMeters(
+      launch,
+      offset * Math.sin(aimRad),
+      offset * Math.cos(aimRad)
+    );
+  }
+  const speed = Math.max(0, wind.speedMph);
+  const downwindDeg = (((wind.directionDeg + 180) % 360) + 360) % 360;
+  const drift = radiusMeters * Math.max(0, wind.driftPerMph) * speed;
+  const rad = (downwindDeg * Math.PI) / 180;
+  const semiMajor = Math.max(
+    radiusMeters * (1 + wind.stretchPerMph * speed),
+    radiusMeters + drift
+  );
+  return {
+    center: fromLocalMeters(
+      origin,
+      drift * Math.sin(rad),
+      drift * Math.cos(rad)
+    ),
+    semiMajorMeters: semiMajor,
+    semiMinorMeters: coveringSemiMinor(radiusMeters, drift, semiMajor),
+    axisBearingDeg: downwindDeg,
+    radiusMeters,
+  };
+}
+
+export function falloutRing(ellipse: FalloutEllipse, points = 64): LngLat[] {
+  const coords: LngLat[] = [];
+  const axis = (ellipse.axisBearingDeg * Math.PI) / 180;
+  // Unit vectors (east, north) along the downwind and crosswind axes
+  const ux = Math.sin(axis);
+  const uy = Math.cos(axis);
+  for (let i = 0; i < points; i++) {
+    const angle = (i / points) * 2 * Math.PI;
+    const a = ellipse.semiMajorMeters * Math.cos(angle);
+    const b = ellipse.semiMinorMeters * Math.sin(angle);
+    coords.push(
+      fromLocalMeters(ellipse.center, a * ux + b * uy, a * uy - b * ux)
+    );
+  }
+  coords.push(coords[0]!);
+  return coords;
+}
+
+export function createFalloutFeature(
+  ellipse: FalloutEllipse,
+  points = 64
+): Feature<Polygon> {
+  return {
+    type: "Feature",
+    geometry: { type: "Polygon", coordinates: [falloutRing(ellipse, points)] },
+    properties: {},
+  } as Feature<Polygon>;
+}
+
+const COMPASS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+function compassPoint(deg: number): string {
+  return COMPASS[Math.round(deg / 45) % 8]!;
+}
+
+/** e.g. "15° toward NE (45°)" or "vertical" */
+export function describeAim(aim?: Partial<MortarAim>): string {
+  if (!aim || !isAngled(aim)) return "vertical";
+  const dir = ((Math.round(aim.azimuthDeg ?? 0) % 360) + 360) % 360;
+  return `${aim.tiltDeg}° toward ${compassPoint(dir)} (${dir}°)`;
+}
+
+/** e.g. "12 mph from NW (315°)" or "calm" */
+export function describeWind(wind: WindSettings): string {
+  if (wind.speedMph <= 0) return "calm (no wind adjustment)";
+  const dir = ((Math.round(wind.directionDeg) % 360) + 360) % 360;
+  const compass = compassPoint(dir);
+  return `${wind.speedMph} mph from ${compass} (${dir}°), drift ${Math.round(
+    wind.driftPerMph * 100
+  )}%/mph, stretch ${Math.round(wind.stretchPerMph * 100)}%/mph`;
+}
+
+/**
+ * Validates untrusted (e.g. deserialized) wind settings. Stretch is raised to
+ * at least the drift, so the zone's upwind edge stays outside the radius.
+ */
+export function parseWindSettings(value: unknown): WindSettings | null {
+  if (!value || typeof value !== "object") return null;
+  const w = value as WindSettings;
+  const fields = [w.directionDeg, w.speedMph, w.driftPerMph, w.stretchPerMph];
+  if (!fields.every((f) => typeof f === "number" && Number.isFinite(f)))
+    return null;
+  const driftPerMph = Math.max(0, w.driftPerMph);
+  return {
+    directionDeg: w.directionDeg,
+    speedMph: Math.max(0, w.speedMph),
+    driftPerMph,
+    stretchPerMph: Math.max(driftPerMph, w.stretchPerMph),
+  };
+}
+
+/** Reads a tilt/azimuth pair from untrusted data; undefined when vertical. */
+export function parseMortarAim(value: unknown): MortarAim | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { tiltDeg, azimuthDeg } = value as Partial<MortarAim>;
+  if (typeof tiltDeg !== "number" || !(tiltDeg > 0)) return undefined;
+  const azimuth =
+    typeof azimuthDeg === "number" && Number.isFinite(azimuthDeg)
+      ? azimuthDeg
+      : 0;
+  return {
+    tiltDeg: Math.min(tiltDeg, MAX_TILT_DEG),
+    azimuthDeg: ((azimuth % 360) + 360) % 360,
+  };
+}
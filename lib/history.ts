@@ -0,0 +1,51 @@
+// Bounded undo/redo stack of immutable snapshots
+
+export const HISTORY_LIMIT = 100;
+
+export interface History<T> {
+  past: T[];
+  present: T | null;
+  future: T[];
+}
+
+export function createHistory<T>(present: T | null = null): History<T> {
+  return { past: [], present, future: [] };
+}
+
+/** Records a new present; unchanged snapshots are ignored. Clears redo. */
+export function pushHistory<T>(
+  history: History<T>,
+  next: T,
+  limit = HISTORY_LIMIT
+): History<T> {
+  if (next === history.present) return history;
+  const past =
+    history.present === null
+      ? history.past
+      : [...history.past, history.present];
+  return {
+    past: past.slice(Math.max(0, past.length - limit)),
+    present: next,
+    future: [],
+  };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> | null {
+  const previous = history.past[history.past.length - 1];
+  if (previous === undefined || history.present === null) return null;
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoHistory<T>(history: History<T>): History<T> | null {
+  const [next, ...future] = history.future;
+  if (next === undefined || history.present === null) return null;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+  };
+}
@@ -0,0 +1,27 @@
+// Local equirectangular projection (meters east and north of an origin),
+// shared by all the map geometry so every tool agrees on degree lengths
+
+import type { LngLat } from "./fallout";
+
+const METERS_PER_DEGREE_LNG = 111320; // at the equator; shrinks with cos(lat)
+const METERS_PER_DEGREE_LAT = 110540;
+
+function metersPerDegreeLng(origin: LngLat): number {
+  return METERS_PER_DEGREE_LNG * Math.cos((origin[1] * Math.PI) / 180);
+}
+
+/** Meters east and north of the origin. */
+export function toLocalMeters(origin: LngLat, point: LngLat): [number, number] {
+  return [
+    (point[0] - origin[0]) * metersPerDegreeLng(origin),
+    (point[1] - origin[1]) * METERS_PER_DEGREE_LAT,
+  ];
+}
+
+/** The point x meters east and y meters north of the origin. */
+export function fromLocalMeters(origin: LngLat, x: number, y: number): LngLat {
+  return [
+    origin[0] + x / metersPerDegreeLng(origin),
+    origin[1] + y / METERS_PER_DEGREE_LAT,
+  ];
+}
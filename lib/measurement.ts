@@ -0,0 +1,97 @@
+// Polyline measurements: segment lengths, running totals and vertex editing
+
+import type { LngLat } from "./fallout";
+
+export const MIN_MEASUREMENT_POINTS = 2;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/** Great-circle distance between two points in meters. */
+export function haversineMeters(a: LngLat, b: LngLat): number {
+  const lat1 = (a[1] * Math.PI) / 180;
+  const lat2 = (b[1] * Math.PI) / 180;
+  const deltaLat = ((b[1] - a[1]) * Math.PI) / 180;
+  const deltaLng = ((b[0] - a[0]) * Math.PI) / 180;
+  const h =
+    Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+    Math.cos(lat1) *
+      Math.cos(lat2) *
+      Math.sin(deltaLng / 2) *
+      Math.sin(deltaLng / 2);
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function segmentLengthsMeters(points: LngLat[]): number[] {
+  return points.slice(1).map((p, i) => haversineMeters(points[i]!, p));
+}
+
+/** Cumulative length at the end of each segment. */
+export function runningTotalsMeters(points: LngLat[]): number[] {
+  let total = 0;
+  return segmentLengthsMeters(points).map((len) => (total += len));
+}
+
+export function polylineLengthMeters(points: LngLat[]): number {
+  return segmentLengthsMeters(points).reduce((s, len) => s + len, 0);
+}
+
+export function segmentMidpoints(points: LngLat[]): LngLat[] {
+  return points
+    .slice(1)
+    .map((p, i) => [(points[i]![0] + p[0]) / 2, (points[i]![1] + p[1]) / 2]);
+}
+
+/** Point halfway along the line by length, used to place the main label. */
+export function polylineMidpoint(points: LngLat[]): LngLat {
+  const lengths = segmentLengthsMeters(points);
+  let remaining = lengths.reduce((s, len) => s + len, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    const len = lengths[i]!;
+    if (remaining <= len && len > 0) {
+      const t = remaining / len;
+      const [a, b] = [points[i]!, points[i + 1]!];
+      return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+    }
+    remaining -= len;
+  }
+  return points[0] ?? [0, 0];
+}
+
+/** Index of the segment closest to a point; a new vertex goes after it. */
+export function nearestSegmentIndex(points: LngLat[], point: LngLat): number {
+  const scale = Math.cos((point[1] * Math.PI) / 180);
+  const local = points.map(
+    (p) => [(p[0] - point[0]) * scale, p[1] - point[1]] as const
+  );
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < local.length - 1; i++) {
+    const [ax, ay] = local[i]!;
+    const [bx, by] = local[i + 1]!;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lenSq = dx * dx + dy * dy;
+    const t =
+      lenSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lenSq));
+    const d = Math.hypot(ax + t * dx, ay + t * dy);
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/** Validates untrusted (e.g. deserialized) measurement vertices. */
+export function parsePolyline(value: unknown): LngLat[] | null {
+  if (!Array.isArray(value)) return null;
+  const points: LngLat[] = [];
+  for (const c of value) {
+    if (!Array.isArray(c) || c.length < 2) return null;
+    const [lng, lat] = c as unknown[];
+    if (typeof lng !== "number" || typeof lat !== "number") return null;
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+    points.push([lng, lat]);
+  }
+  return points.length >= MIN_MEASUREMENT_POINTS ? points : null;
+}
@@ -0,0 +1,54 @@
+// Upgrades plans saved by older versions of the app, one version at a time.
+
+import type { SerializedState } from "@/lib/plan-state";
+import { ruleSetFromLegacyDistance } from "@/lib/safety-rules";
+
+export const CURRENT_PLAN_VERSION = 2;
+
+type PlanRecord = Record<string, unknown>;
+
+// MIGRATIONS[n] turns a version n plan into a version n + 1 plan. Each step
+// only touches the fields it is about, so unknown extras (file metadata)
+// pass through untouched.
+const MIGRATIONS: Record<number, (plan: PlanRecord) => PlanRecord> = {
+  // v2: legacy fields resolved once here instead of on every restore
+  1: ({ safetyDistance, ...plan }) => ({
+    ...plan,
+    areas: Array.isArray(plan.areas) ? plan.areas : [],
+    ...(plan.safetyRuleSet === undefined &&
+    (safetyDistance === 70 || safetyDistance === 100)
+      ? { safetyRuleSet: ruleSetFromLegacyDistance(safetyDistance) }
+      : {}),
+  }),
+};
+
+export type MigrationResult =
+  | { state: SerializedState; error: null }
+  | { state: null; error: string };
+
+/**
+ * Brings a stored plan up to the current version. `source` names where it
+ * came from ("link", "file", …) for the error shown when it cannot be read.
+ */
+export function migratePlanState(
+  value: unknown,
+  source = "plan"
+): MigrationResult {
+  if (!value || typeof value !== "object" || Array.isArray(value))
+    return { state: null, error: `This ${source} does not contain a plan.` };
+  let plan = value as PlanRecord;
+  const version = plan.v;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1)
+    return {
+      state: null,
+      error: `This ${source} has an unknown plan version (${String(version)}).`,
+    };
+  if (version > CURRENT_PLAN_VERSION)
+    return {
+      state: null,
+      error: `This ${source} was made with a newer Pyro Plot (plan version ${version}; this version reads up to ${CURRENT_PLAN_VERSION}). Reload the page to update, then try again.`,
+    };
+  for (let v = version; v < CURRENT_PLAN_VERSION; v++)
+    plan = { ...MIGRATIONS[v]!(plan), v: v + 1 };
+  return { state: plan as unknown as SerializedState, error: null };
+}
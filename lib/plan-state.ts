@@ -0,0 +1,88 @@
+// The plan as stored in share links, autosaves and saved projects
+
+import type { WindSettings } from "@/lib/fallout";
+import type { CURRENT_PLAN_VERSION } from "@/lib/plan-migrations";
+import type { AreaShape } from "@/lib/polygon";
+import type { DeviceKind, SafetyRuleSet } from "@/lib/safety-rules";
+import type { SnapAttachment } from "@/lib/snap";
+
+export interface SerializedFirework {
+  id: string;
+  number: number;
+  inches: number;
+  label: string;
+  color: string;
+  position: [number, number]; // [lng, lat]
+  deviceKind?: DeviceKind;
+  tiltDeg?: number;
+  azimuthDeg?: number;
+  notes?: string;
+  quantity?: number;
+  productId?: string;
+  falloutFeet?: number;
+}
+
+export interface SerializedCustom {
+  id: string;
+  number: number;
+  label: string;
+  color: string;
+  position: [number, number]; // [lng, lat]
+  emoji?: string;
+  description?: string;
+}
+
+export interface SerializedAudience {
+  id: string;
+  number: number;
+  label?: string;
+  corners: [number, number][]; // 4 corners, or N polygon vertices [lng, lat]
+  shape?: AreaShape; // absent means rectangle
+  rotationDeg?: number; // rectangles only, clockwise
+}
+
+export interface SerializedMeasurement {
+  id: string;
+  number: number;
+  label?: string;
+  points: [number, number][]; // 2+ polyline vertices [lng, lat]
+  snaps?: (SnapAttachment | null)[]; // parallel to points, when any snap
+}
+
+export interface SerializedAreaMeasurement {
+  id: string;
+  number: number;
+  label?: string;
+  vertices: [number, number][]; // 3+ polygon vertices [lng, lat]
+}
+
+export interface SerializedRestricted {
+  id: string;
+  number: number;
+  label?: string;
+  corners: [number, number][]; // 4 corners, or N polygon vertices [lng, lat]
+  shape?: AreaShape; // absent means rectangle
+  rotationDeg?: number; // rectangles only, clockwise
+}
+
+export interface SerializedState {
+  camera: {
+    center: [number, number];
+    zoom: number;
+    bearing: number;
+    pitch: number;
+  };
+  fireworks: SerializedFirework[];
+  custom: SerializedCustom[];
+  audiences: SerializedAudience[];
+  measurements: SerializedMeasurement[];
+  areas: SerializedAreaMeasurement[];
+  restricted: SerializedRestricted[];
+  showHeight: boolean;
+  autoDimensions?: boolean;
+  measurementUnit?: "feet" | "meters";
+  projectName?: string;
+  safetyRuleSet?: SafetyRuleSet;
+  wind?: WindSettings;
+  v: typeof CURRENT_PLAN_VERSION; // older plans go through migratePlanState
+}
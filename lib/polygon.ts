@@ -0,0 +1,193 @@
+// Planar helpers for free-form (N-vertex) and rotated rectangular areas
+
+import type { LngLat } from "./fallout";
+import { fromLocalMeters, toLocalMeters } from "./local-meters";
+
+export type AreaShape = "rectangle" | "polygon";
+
+export const MIN_POLYGON_VERTICES = 3;
+
+/** Shoelace area in square meters; the ring may be open or closed. */
+export function polygonAreaSqMeters(ring: LngLat[]): number {
+  if (ring.length < MIN_POLYGON_VERTICES) return 0;
+  const local = ring.map((c) => toLocalMeters(ring[0]!, c));
+  let twice = 0;
+  for (let i = 0; i < local.length; i++) {
+    const [x1, y1] = local[i]!;
+    const [x2, y2] = local[(i + 1) % local.length]!;
+    twice += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(twice) / 2;
+}
+
+/** Area-weighted centroid; falls back to the vertex average when degenerate. */
+export function polygonCentroid(ring: LngLat[]): LngLat {
+  const origin = ring[0] ?? [0, 0];
+  const local = ring.map((c) => toLocalMeters(origin, c));
+  let twice = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < local.length; i++) {
+    const [x1, y1] = local[i]!;
+    const [x2, y2] = local[(i + 1) % local.length]!;
+    const cross = x1 * y2 - x2 * y1;
+    twice += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  }
+  if (Math.abs(twice) < 1e-9) {
+    const n = Math.max(ring.length, 1);
+    return [
+      ring.reduce((s, c) => s + c[0], 0) / n,
+      ring.reduce((s, c) => s + c[1], 0) / n,
+    ];
+  }
+  return fromLocalMeters(origin, cx / (3 * twice), cy / (3 * twice));
+}
+
+export function edgeMidpoints(ring: LngLat[]): LngLat[] {
+  return ring.map((a, i) => {
+    const b = ring[(i + 1) % ring.length]!;
+    return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  });
+}
+
+// --- Rotated rectangles ---
+// Corners are kept in the rectangle's own frame as [bottom-left,
+// bottom-right, top-right, top-left], i.e. SW/SE/NE/NW when unrotated.
+
+export interface OrientedRect {
+  center: LngLat;
+  widthMeters: number;
+  heightMeters: number;
+  rotationDeg: number; // clockwise from axis-aligned
+}
+
+const CORNER_SIGNS: [number, number][] = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+];
+
+// Width (u) and height (v) axes as east/north unit vectors
+function rectAxes(rotationDeg: number) {
+  const rad = (rotationDeg * Math.PI) / 180;
+  return {
+    u: [Math.cos(rad), -Math.sin(rad)] as const,
+    v: [Math.sin(rad), Math.cos(rad)] as const,
+  };
+}
+
+function rectPoint(rect: OrientedRect, a: number, b: number): LngLat {
+  const { u, v } = rectAxes(rect.rotationDeg);
+  return fromLocalMeters(rect.center, a * u[0] + b * v[0], a * u[1] + b * v[1]);
+}
+
+export function rectangleCorners(rect: OrientedRect): LngLat[] {
+  return CORNER_SIGNS.map(([sx, sy]) =>
+    rectPoint(rect, (sx * rect.widthMeters) / 2, (sy * rect.heightMeters) / 2)
+  );
+}
+
+/** Edge lengths of a (possibly rotated) four-corner rectangle. */
+export function rectangleSizeMeters(corners: LngLat[]) {
+  const [bl, br, , tl] = corners;
+  const w = toLocalMeters(bl!, br!);
+  const h = toLocalMeters(bl!, tl!);
+  return {
+    widthMeters: Math.hypot(w[0], w[1]),
+    heightMeters: Math.hypot(h[0], h[1]),
+  };
+}
+
+export function rectangleFromCorners(
+  corners: LngLat[],
+  rotationDeg?: number
+): OrientedRect {
+  const center: LngLat = [
+    corners.reduce((s, c) => s + c[0], 0) / corners.length,
+    corners.reduce((s, c) => s + c[1], 0) / corners.length,
+  ];
+  const [dx, dy] = toLocalMeters(corners[0]!, corners[1]!);
+  return {
+    center,
+    ...rectangleSizeMeters(corners),
+    rotationDeg: rotationDeg ?? (Math.atan2(-dy, dx) * 180) / Math.PI,
+  };
+}
+
+/**
+ * Resize by dragging one corner while the opposite corner stays put. The
+ * drag is measured along the rectangle's own axes so rotation is kept, and
+ * the rectangle never inverts or shrinks below minMeters.
+ */
+export function resizeRectangleFromCorner(
+  rect: OrientedRect,
+  cornerIndex: number,
+  point: LngLat,
+  minMeters: number
+): OrientedRect {
+  const anchor = rectangleCorners(rect)[(cornerIndex + 2) % 4]!;
+  const [sx, sy] = CORNER_SIGNS[cornerIndex]!;
+  const { u, v } = rectAxes(rect.rotationDeg);
+  const [dx, dy] = toLocalMeters(anchor, point);
+  const widthMeters = Math.max(minMeters, sx * (dx * u[0] + dy * u[1]));
+  const heightMeters = Math.max(minMeters, sy * (dx * v[0] + dy * v[1]));
+  const a = (sx * widthMeters) / 2;
+  const b = (sy * heightMeters) / 2;
+  return {
+    center: fromLocalMeters(anchor, a * u[0] + b * v[0], a * u[1] + b * v[1]),
+    widthMeters,
+    heightMeters,
+    rotationDeg: rect.rotationDeg,
+  };
+}
+
+/** Point on the rectangle's "up" axis, offset from the top edge (+ outside). */
+export function rectangleTopPoint(
+  rect: OrientedRect,
+  offsetMeters: number
+): LngLat {
+  return rectPoint(rect, 0, rect.heightMeters / 2 + offsetMeters);
+}
+
+/** Clockwise bearing from one point to another, 0–360. */
+export function bearingDeg(from: LngLat, to: LngLat): number {
+  const [dx, dy] = toLocalMeters(from, to);
+  return ((((Math.atan2(dx, dy) * 180) / Math.PI) % 360) + 360) % 360;
+}
+
+/** e.g. "12,345 ft²" or "1,147 m²" */
+export function formatArea(sqMeters: number, unit: "feet" | "meters"): string {
+  const value = unit === "feet" ? sqMeters * 10.7639104 : sqMeters;
+  return `${Math.round(value).toLocaleString("en-US")} ${
+    unit === "feet" ? "ft²" : "m²"
+  }`;
+}
+
+/** Area plus acres (feet) or hectares (meters), e.g. "12,345 ft² · 0.28 ac" */
+export function formatLandArea(
+  sqMeters: number,
+  unit: "feet" | "meters"
+): string {
+  const large =
+    unit === "feet"
+      ? `${(sqMeters / 4046.8564224).toFixed(2)} ac`
+      : `${(sqMeters / 10000).toFixed(2)} ha`;
+  return `${formatArea(sqMeters, unit)} · ${large}`;
+}
+
+/** Validates untrusted (e.g. deserialized) polygon vertices. */
+export function parsePolygon(value: unknown): LngLat[] | null {
+  if (!Array.isArray(value)) return null;
+  const ring: LngLat[] = [];
+  for (const c of value) {
+    if (!Array.isArray(c) || c.length < 2) return null;
+    const [lng, lat] = c as unknown[];
+    if (typeof lng !== "number" || typeof lat !== "number") return null;
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+    ring.push([lng, lat]);
+  }
+  return ring.length >= MIN_POLYGON_VERTICES ? ring : null;
+}
@@ -0,0 +1,328 @@
+// .pyroplot project files: a readable JSON document for moving plans between machines
+
+import { parseProduct, type CatalogProduct } from "@/lib/catalog";
+import { parseWindSettings } from "@/lib/fallout";
+import { migratePlanState } from "@/lib/plan-migrations";
+import type { SerializedState } from "@/lib/plan-state";
+import { parseRuleSet } from "@/lib/safety-rules";
+
+export const PROJECT_FILE_EXTENSION = ".pyroplot";
+export const PROJECT_FILE_FORMAT = "pyroplot";
+export const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION ?? "dev";
+
+// Enough to fix a hand-edited file without flooding the dialog
+const MAX_REPORTED_ERRORS = 20;
+
+export interface ProjectFileMetadata {
+  name: string;
+  location?: string;
+  createdAt?: string; // ISO 8601
+  savedAt: string; // ISO 8601
+}
+
+/**
+ * A project document: the serialized plan plus what is needed to open it
+ * elsewhere. Any plan reader can also read the file as a SerializedState.
+ */
+export interface ProjectFile extends SerializedState {
+  format: typeof PROJECT_FILE_FORMAT;
+  appVersion: string;
+  metadata: ProjectFileMetadata;
+  catalog: CatalogProduct[]; // the catalog the plan was made with
+}
+
+export type ProjectFileResult =
+  | { file: ProjectFile; errors: [] }
+  | { file: null; errors: string[] };
+
+export function createProjectFile(
+  state: SerializedState,
+  metadata: Omit<ProjectFileMetadata, "savedAt">,
+  catalog: CatalogProduct[]
+): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    appVersion: APP_VERSION,
+    metadata: { ...metadata, savedAt: new Date().toISOString() },
+    ...state,
+    catalog,
+  };
+}
+
+export function formatProjectFile(file: ProjectFile): string {
+  return JSON.stringify(file, null, 2) + "\n";
+}
+
+/** "Smith Wedding 2025.pyroplot" style name that is safe on every OS. */
+export function projectFileName(name: string): string {
+  const safe = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 100);
+  return (safe || "plan") + PROJECT_FILE_EXTENSION;
+}
+
+// --- Validation ---
+
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const typeName = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const expected = (path: string, what: string, value: unknown) =>
+  `${path}: expected ${what}, found ${typeName(value)}`;
+
+const string: Check = (value, path, errors) => {
+  if (typeof value !== "string") errors.push(expected(path, "text", value));
+};
+
+const boolean: Check = (value, path, errors) => {
+  if (typeof value !== "boolean")
+    errors.push(expected(path, "true or false", value));
+};
+
+const number: Check = (value, path, errors) => {
+  if (typeof value !== "number" || !Number.isFinite(value))
+    errors.push(expected(path, "a number", value));
+};
+
+const positive: Check = (value, path, errors) => {
+  if (typeof value !== "number" || !(value > 0))
+    errors.push(expected(path, "a number above zero", value));
+};
+
+function oneOf(...options: string[]): Check {
+  return (value, path, errors) => {
+    if (typeof value !== "string" || !options.includes(value))
+      errors.push(
+        `${path}: expected ${options.map((o) => `"${o}"`).join(" or ")}`
+      );
+  };
+}
+
+const lngLat: Check = (value, path, errors) => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 2 ||
+    typeof value[0] !== "number" ||
+    typeof value[1] !== "number" ||
+    Math.abs(value[0]) > 180 ||
+    Math.abs(value[1]) > 90
+  )
+    errors.push(`${path}: expected [longitude, latitude]`);
+};
+
+function listOf(item: Check, minLength = 0): Check {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(expected(path, "a list", value));
+      return;
+    }
+    if (value.length < minLength)
+      errors.push(`${path}: expected at least ${minLength} entries`);
+    value.forEach((v, i) => item(v, `${path}[${i}]`, errors));
+  };
+}
+
+// Fields marked optional may be absent; unknown fields are ignored
+function object(
+  fields: Record<string, Check>,
+  optional: Record<string, Check> = {}
+): Check {
+  return (value, path, errors) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      errors.push(expected(path, "an object", value));
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+    for (const [key, check] of Object.entries(fields)) {
+      if (record[key] === undefined) errors.push(`${at(key)}: missing`);
+      else check(record[key], at(key), errors);
+    }
+    for (const [key, check] of Object.entries(optional))
+      if (record[key] !== undefined) check(record[key], at(key), errors);
+  };
+}
+
+function parsedBy(parse: (value: unknown) => unknown, what: string): Check {
+  return (value, path, errors) => {
+    if (parse(value) === null) errors.push(`${path}: not a valid ${what}`);
+  };
+}
+
+const numbered = { id: string, number: number };
+
+const areaFields = object(
+  { ...numbered, corners: listOf(lngLat, 3) },
+  {
+    label: string,
+    shape: oneOf("rectangle", "polygon"),
+    rotationDeg: number,
+  }
+);
+
+// Anything but a free-form polygon is drawn from exactly four corners
+const area: Check = (value, path, errors) => {
+  areaFields(value, path, errors);
+  const { shape, corners } = (value ?? {}) as Record<string, unknown>;
+  if (shape !== "polygon" && Array.isArray(corners) && corners.length !== 4)
+    errors.push(`${path}.corners: expected 4 corners for a rectangle`);
+};
+
+export type AnnotationCollection =
+  | "fireworks"
+  | "custom"
+  | "audiences"
+  | "measurements"
+  | "areas"
+  | "restricted";
+
+const ANNOTATION_CHECKS: Record<AnnotationCollection, Check> = {
+  fireworks: object(
+    {
+      ...numbered,
+      inches: positive,
+      label: string,
+      color: string,
+      position: lngLat,
+    },
+    {
+      deviceKind: oneOf("aerial", "ground"),
+      tiltDeg: number,
+      azimuthDeg: number,
+      notes: string,
+      quantity: positive,
+      productId: string,
+      falloutFeet: positive,
+    }
+  ),
+  custom: object(
+    { ...numbered, label: string, color: string, position: lngLat },
+    { emoji: string, description: string }
+  ),
+  audiences: area,
+  measurements: object(
+    { ...numbered, points: listOf(lngLat, 2) },
+    {
+      label: string,
+      snaps: listOf((value, path, errors) => {
+        if (value !== null)
+          object(
+            {
+              kind: oneOf("firework", "fallout", "corner", "edge"),
+              id: string,
+            },
+            { index: number, t: number }
+          )(value, path, errors);
+      }),
+    }
+  ),
+  areas: object(
+    { ...numbered, vertices: listOf(lngLat, 3) },
+    { label: string }
+  ),
+  restricted: area,
+};
+
+/**
+ * Whether one annotation passes the checks a project file's annotations get;
+ * used for plans pasted from the clipboard.
+ */
+export function isValidAnnotation(
+  collection: AnnotationCollection,
+  value: unknown
+): boolean {
+  const errors: string[] = [];
+  ANNOTATION_CHECKS[collection](value, collection, errors);
+  return errors.length === 0;
+}
+
+const projectFileSchema = object(
+  {
+    format: oneOf(PROJECT_FILE_FORMAT),
+    appVersion: string,
+    metadata: object(
+      { name: string, savedAt: string },
+      {
+        location: string,
+        createdAt: string,
+      }
+    ),
+    v: number,
+    camera: object({
+      center: lngLat,
+      zoom: number,
+      bearing: number,
+      pitch: number,
+    }),
+    fireworks: listOf(ANNOTATION_CHECKS.fireworks),
+    custom: listOf(ANNOTATION_CHECKS.custom),
+    audiences: listOf(ANNOTATION_CHECKS.audiences),
+    measurements: listOf(ANNOTATION_CHECKS.measurements),
+    restricted: listOf(ANNOTATION_CHECKS.restricted),
+    showHeight: boolean,
+    areas: listOf(ANNOTATION_CHECKS.areas),
+    catalog: listOf(parsedBy(parseProduct, "product")),
+  },
+  {
+    autoDimensions: boolean,
+    measurementUnit: oneOf("feet", "meters"),
+    projectName: string,
+    safetyRuleSet: parsedBy(parseRuleSet, "safety rule set"),
+    wind: parsedBy(parseWindSettings, "wind setting"),
+  }
+);
+
+/**
+ * Reads a project document, listing every problem found rather than
+ * rejecting the file without a reason.
+ */
+export function parseProjectFile(text: string): ProjectFileResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return {
+      file: null,
+      errors: [
+        `The file is not valid JSON${
+          err instanceof Error ? `: ${err.message}` : "."
+        }`,
+      ],
+    };
+  }
+  const record =
+    value && typeof value === "object"
+      ? (value as Record<string, unknown>)
+      : {};
+  if (record.format !== PROJECT_FILE_FORMAT)
+    return { file: null, errors: ["This is not a Pyro Plot project file."] };
+  // Older files are upgraded first, so the schema only describes the newest
+  const migrated = migratePlanState(value, "file");
+  if (!migrated.state) return { file: null, errors: [migrated.error] };
+
+  const errors: string[] = [];
+  projectFileSchema(migrated.state, "", errors);
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      file: null,
+      errors:
+        extra > 0
+          ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${extra} more`]
+          : errors,
+    };
+  }
+  const file = migrated.state as ProjectFile;
+  return {
+    file: {
+      ...file,
+      catalog: file.catalog
+        .map(parseProduct)
+        .filter((p): p is CatalogProduct => p !== null),
+    },
+    errors: [],
+  };
+}
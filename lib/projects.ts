@@ -0,0 +1,177 @@
+// Saved projects in this browser: a summary list plus each project's plan
+
+const INDEX_KEY = "pyroplot:projects";
+const STATE_KEY_PREFIX = "pyroplot:project:";
+
+export const UNTITLED_PROJECT = "Untitled plan";
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  location?: string; // place name near the plan, when it could be looked up
+  center: [number, number]; // [lng, lat]
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  archived?: boolean;
+  thumbnail?: string; // JPEG data URL of the map view
+}
+
+export function createProjectId(): string {
+  return crypto.randomUUID();
+}
+
+/** Validates one stored summary; null when it is unusable. */
+export function parseProjectSummary(value: unknown): ProjectSummary | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Partial<ProjectSummary>;
+  if (typeof v.id !== "string" || !v.id) return null;
+  if (
+    !Array.isArray(v.center) ||
+    v.center.length !== 2 ||
+    !v.center.every((c) => typeof c === "number" && Number.isFinite(c))
+  )
+    return null;
+  if (typeof v.updatedAt !== "number") return null;
+  return {
+    id: v.id,
+    name: typeof v.name === "string" && v.name ? v.name : UNTITLED_PROJECT,
+    ...(typeof v.location === "string" && v.location
+      ? { location: v.location }
+      : {}),
+    center: [v.center[0]!, v.center[1]!],
+    createdAt: typeof v.createdAt === "number" ? v.createdAt : v.updatedAt,
+    updatedAt: v.updatedAt,
+    ...(v.archived === true ? { archived: true } : {}),
+    ...(typeof v.thumbnail === "string" ? { thumbnail: v.thumbnail } : {}),
+  };
+}
+
+/** Saved projects, most recently edited first. */
+export function loadProjects(): ProjectSummary[] {
+  try {
+    const raw = window.localStorage.getItem(INDEX_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map(parseProjectSummary)
+      .filter((p): p is ProjectSummary => p !== null)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch {
+    return [];
+  }
+}
+
+function saveProjects(projects: ProjectSummary[]): boolean {
+  try {
+    window.localStorage.setItem(INDEX_KEY, JSON.stringify(projects));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A project's serialized plan; the caller validates it before restoring. */
+export function loadProjectState(id: string): unknown {
+  try {
+    const raw = window.localStorage.getItem(STATE_KEY_PREFIX + id);
+    return raw ? (JSON.parse(raw) as unknown) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes a project's plan and adds or replaces its summary. False when the
+ * browser's storage is full, in which case nothing is changed.
+ */
+export function saveProject(summary: ProjectSummary, state: unknown): boolean {
+  const key = STATE_KEY_PREFIX + summary.id;
+  let previous: string | null = null;
+  try {
+    previous = window.localStorage.getItem(key);
+    window.localStorage.setItem(key, JSON.stringify(state));
+  } catch {
+    return false;
+  }
+  const others = loadProjects().filter((p) => p.id !== summary.id);
+  if (saveProjects([summary, ...others])) return true;
+  // Keep the plan and the index in step
+  try {
+    if (previous === null) window.localStorage.removeItem(key);
+    else window.localStorage.setItem(key, previous);
+  } catch {}
+  return false;
+}
+
+/** Renames a project, including the name stored in its plan. */
+export function renameProject(id: string, name: string): boolean {
+  const project = loadProjects().find((p) => p.id === id);
+  if (!project) return false;
+  const state = loadProjectState(id);
+  return saveProject(
+    { ...project, name },
+    state && typeof state === "object" ? { ...state, projectName: name } : state
+  );
+}
+
+/** Changes a project's summary without touching its plan. */
+export function updateProject(
+  id: string,
+  patch: Partial<Pick<ProjectSummary, "location" | "archived">>
+): boolean {
+  return saveProjects(
+    loadProjects().map((p) => (p.id === id ? { ...p, ...patch } : p))
+  );
+}
+
+/** Copies a project under a new name; null when it is gone or storage is full. */
+export function duplicateProject(id: string): ProjectSummary | null {
+  const projects = loadProjects();
+  const project = projects.find((p) => p.id === id);
+  if (!project) return null;
+  const name = copyName(
+    project.name,
+    projects.map((p) => p.name)
+  );
+  const state = loadProjectState(id);
+  const now = Date.now();
+  const copy: ProjectSummary = {
+    ...project,
+    id: createProjectId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+  delete copy.archived;
+  return saveProject(
+    copy,
+    state && typeof state === "object" ? { ...state, projectName: name } : state
+  )
+    ? copy
+    : null;
+}
+
+export function deleteProject(id: string): void {
+  saveProjects(loadProjects().filter((p) => p.id !== id));
+  try {
+    window.localStorage.removeItem(STATE_KEY_PREFIX + id);
+  } catch {}
+}
+
+/** "Show (copy)", then "Show (copy 2)" and so on, avoiding taken names. */
+export function copyName(name: string, taken: string[]): string {
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, "");
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${base} (copy)` : `${base} (copy ${n})`;
+    if (!taken.includes(candidate)) return candidate;
+  }
+}
+
+/** Whether two map centres are close enough to share a looked-up place name. */
+export function isSameArea(a: [number, number], b: [number, number]): boolean {
+  // Two decimal places is roughly a kilometre
+  return (
+    a[0].toFixed(2) === b[0].toFixed(2) && a[1].toFixed(2) === b[1].toFixed(2)
+  );
+}
@@ -0,0 +1,215 @@
+// Safety-distance rule sets: how a device's caliber maps to a fallout radius
+
+export type CaliberUnit = "inch" | "cm";
+export type DistanceUnit = "feet" | "meters";
+export type DeviceKind = "aerial" | "ground";
+
+export interface CaliberDistance {
+  caliber: number; // in the rule set's caliber unit
+  distance: number; // in the rule set's distance unit
+}
+
+export interface SafetyRule {
+  perCaliber: number; // distance per unit of caliber when no table entry applies
+  table?: CaliberDistance[];
+  minimum?: number; // floor, e.g. "never less than 300 ft"
+}
+
+export interface SafetyRuleSet {
+  id: string;
+  name: string;
+  caliberUnit: CaliberUnit;
+  distanceUnit: DistanceUnit;
+  aerial: SafetyRule;
+  ground: SafetyRule;
+}
+
+export const CUSTOM_RULE_SET_ID = "custom";
+
+// Share links store a preset by its position here, so new ones go at the end.
+// The presets are starting points; confirm the figures with the edition your
+// AHJ enforces and use a custom rule set where they differ.
+export const BUILT_IN_RULE_SETS: SafetyRuleSet[] = [
+  {
+    id: "nfpa-1123-70",
+    name: "NFPA 1123 (70 ft per inch)",
+    caliberUnit: "inch",
+    distanceUnit: "feet",
+    aerial: { perCaliber: 70 },
+    ground: { perCaliber: 70 },
+  },
+  {
+    id: "ft-per-inch-100",
+    name: "100 ft per inch",
+    caliberUnit: "inch",
+    distanceUnit: "feet",
+    aerial: { perCaliber: 100 },
+    ground: { perCaliber: 100 },
+  },
+  {
+    id: "nfpa-1123-table",
+    name: "NFPA 1123 aerial table, 75 ft ground floor",
+    caliberUnit: "inch",
+    distanceUnit: "feet",
+    aerial: {
+      perCaliber: 70,
+      table: [
+        { caliber: 1, distance: 70 },
+        { caliber: 2, distance: 140 },
+        { caliber: 3, distance: 210 },
+        { caliber: 4, distance: 280 },
+        { caliber: 5, distance: 350 },
+        { caliber: 6, distance: 420 },
+        { caliber: 8, distance: 560 },
+        { caliber: 10, distance: 700 },
+        { caliber: 12, distance: 840 },
+      ],
+    },
+    ground: { perCaliber: 70, minimum: 75 },
+  },
+  {
+    id: "nfpa-1126-proximate",
+    name: "NFPA 1126 proximate (15 ft floor)",
+    caliberUnit: "inch",
+    distanceUnit: "feet",
+    aerial: { perCaliber: 10, minimum: 15 },
+    ground: { perCaliber: 10, minimum: 15 },
+  },
+  {
+    id: "metric-10-m-per-cm",
+    name: "Metric 10 m per cm",
+    caliberUnit: "cm",
+    distanceUnit: "meters",
+    aerial: { perCaliber: 10 },
+    ground: { perCaliber: 10, minimum: 8 },
+  },
+  {
+    id: "ahj-300-ft-floor",
+    name: "70 ft per inch, never less than 300 ft",
+    caliberUnit: "inch",
+    distanceUnit: "feet",
+    aerial: { perCaliber: 70, minimum: 300 },
+    ground: { perCaliber: 70, minimum: 300 },
+  },
+];
+
+export const DEFAULT_RULE_SET = BUILT_IN_RULE_SETS[0]!;
+
+// Starting point when a user switches to a custom rule set
+export function createCustomRuleSet(base: SafetyRuleSet): SafetyRuleSet {
+  return {
+    ...base,
+    id: CUSTOM_RULE_SET_ID,
+    name: "Custom AHJ rules",
+    aerial: { ...base.aerial, table: [...(base.aerial.table ?? [])] },
+    ground: { ...base.ground, table: [...(base.ground.table ?? [])] },
+  };
+}
+
+// Share links made before rule sets stored a bare ft-per-inch number
+export function ruleSetFromLegacyDistance(distance: 70 | 100): SafetyRuleSet {
+  return distance === 100 ? BUILT_IN_RULE_SETS[1]! : BUILT_IN_RULE_SETS[0]!;
+}
+
+function ruleDistance(rule: SafetyRule, caliber: number): number {
+  // Use the smallest table entry that covers the caliber, else the linear rule
+  const entry = [...(rule.table ?? [])]
+    .sort((a, b) => a.caliber - b.caliber)
+    .find((e) => caliber <= e.caliber);
+  const distance = entry ? entry.distance : rule.perCaliber * caliber;
+  return Math.max(distance, rule.minimum ?? 0);
+}
+
+/** Required fallout radius in feet for a device of the given size (inches). */
+export function getFalloutRadiusFeet(
+  ruleSet: SafetyRuleSet,
+  inches: number,
+  kind: DeviceKind = "aerial"
+): number {
+  const caliber = ruleSet.caliberUnit === "cm" ? inches * 2.54 : inches;
+  const rule = kind === "ground" ? ruleSet.ground : ruleSet.aerial;
+  const distance = ruleDistance(rule, caliber);
+  return ruleSet.distanceUnit === "meters" ? distance / 0.3048 : distance;
+}
+
+function describeRule(ruleSet: SafetyRuleSet, rule: SafetyRule): string {
+  const dist = ruleSet.distanceUnit === "feet" ? "ft" : "m";
+  const cal = ruleSet.caliberUnit === "inch" ? "inch" : "cm";
+  const parts = [`${rule.perCaliber} ${dist} per ${cal}`];
+  if (rule.table && rule.table.length > 0) {
+    parts.push(
+      `table ${rule.table
+        .map(
+          (e) =>
+            `${e.caliber}${cal === "inch" ? '"' : " cm"}=${e.distance} ${dist}`
+        )
+        .join(", ")}`
+    );
+  }
+  if (rule.minimum) parts.push(`minimum ${rule.minimum} ${dist}`);
+  return parts.join("; ");
+}
+
+/** One-line human description used in the PDF and settings. */
+export function describeRuleSet(ruleSet: SafetyRuleSet): string {
+  const aerial = describeRule(ruleSet, ruleSet.aerial);
+  const ground = describeRule(ruleSet, ruleSet.ground);
+  return aerial === ground ? aerial : `aerial: ${aerial} | ground: ${ground}`;
+}
+
+const isValidEntry = (e: CaliberDistance) =>
+  e.caliber > 0 &&
+  e.distance > 0 &&
+  Number.isFinite(e.caliber) &&
+  Number.isFinite(e.distance);
+
+function isValidRule(value: unknown): value is SafetyRule {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as SafetyRule;
+  if (typeof rule.perCaliber !== "number" || !(rule.perCaliber >= 0))
+    return false;
+  if (rule.minimum !== undefined && typeof rule.minimum !== "number")
+    return false;
+  if (rule.table !== undefined) {
+    if (!Array.isArray(rule.table)) return false;
+    for (const e of rule.table) {
+      if (typeof e?.caliber !== "number" || typeof e?.distance !== "number")
+        return false;
+    }
+  }
+  return true;
+}
+
+/** Validates an untrusted (e.g. deserialized) rule set. */
+export function parseRuleSet(value: unknown): SafetyRuleSet | null {
+  if (!value || typeof value !== "object") return null;
+  const rs = value as SafetyRuleSet;
+  if (typeof rs.id !== "string" || typeof rs.name !== "string") return null;
+  if (rs.caliberUnit !== "inch" && rs.caliberUnit !== "cm") return null;
+  if (rs.distanceUnit !== "feet" && rs.distanceUnit !== "meters") return null;
+  if (!isValidRule(rs.aerial) || !isValidRule(rs.ground)) return null;
+  // Entries saved before zero distances were refused would zero the radius
+  const clean = (rule: SafetyRule): SafetyRule =>
+    rule.table ? { ...rule, table: rule.table.filter(isValidEntry) } : rule;
+  return { ...rs, aerial: clean(rs.aerial), ground: clean(rs.ground) };
+}
+
+/** Formats a lookup table as "3=210, 4=280" for editing. */
+export function formatRuleTable(table: CaliberDistance[] | undefined): string {
+  return (table ?? []).map((e) => `${e.caliber}=${e.distance}`).join(", ");
+}
+
+/**
+ * Parses "3=210, 4=280"; incomplete pairs (such as "3=" while typing) and
+ * sizes or distances that are not above zero are skipped.
+ */
+export function parseRuleTable(text: string): CaliberDistance[] {
+  const entries: CaliberDistance[] = [];
+  for (const part of text.split(/[,;\n]/)) {
+    const values = part.split("=").map((v) => v.trim());
+    if (values.length !== 2 || values.some((v) => v === "")) continue;
+    const entry = { caliber: Number(values[0]), distance: Number(values[1]) };
+    if (isValidEntry(entry)) entries.push(entry);
+  }
+  return entries.sort((a, b) => a.caliber - b.caliber);
+}
@@ -0,0 +1,69 @@
+// Group edits on a multi-selection: move together, rotate about the centroid
+
+import type { LngLat } from "./fallout";
+import { fromLocalMeters, toLocalMeters } from "./local-meters";
+
+/** Editable geometry of one selected annotation. */
+export interface SelectionGeometry {
+  id: string;
+  points: LngLat[]; // launch position, area corners or measurement points
+  rotationDeg?: number; // rotated rectangles
+  azimuthDeg?: number; // angled mortars
+}
+
+function normalizeDeg(deg: number): number {
+  return ((deg % 360) + 360) % 360;
+}
+
+/** Average of the item centres, so a long measurement counts once. */
+export function selectionCentroid(items: SelectionGeometry[]): LngLat {
+  const centres = items
+    .filter((item) => item.points.length > 0)
+    .map((item): LngLat => {
+      const n = item.points.length;
+      return [
+        item.points.reduce((s, p) => s + p[0], 0) / n,
+        item.points.reduce((s, p) => s + p[1], 0) / n,
+      ];
+    });
+  const n = Math.max(centres.length, 1);
+  return [
+    centres.reduce((s, c) => s + c[0], 0) / n,
+    centres.reduce((s, c) => s + c[1], 0) / n,
+  ];
+}
+
+export function translateGeometry(
+  item: SelectionGeometry,
+  dLng: number,
+  dLat: number
+): SelectionGeometry {
+  return {
+    ...item,
+    points: item.points.map(([lng, lat]) => [lng + dLng, lat + dLat]),
+  };
+}
+
+/** Rotates clockwise about a centre; headings turn with the geometry. */
+export function rotateGeometry(
+  item: SelectionGeometry,
+  center: LngLat,
+  deg: number
+): SelectionGeometry {
+  const rad = (deg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return {
+    ...item,
+    points: item.points.map((p) => {
+      const [x, y] = toLocalMeters(center, p);
+      return fromLocalMeters(center, x * cos + y * sin, -x * sin + y * cos);
+    }),
+    ...(item.rotationDeg !== undefined
+      ? { rotationDeg: normalizeDeg(item.rotationDeg + deg) }
+      : {}),
+    ...(item.azimuthDeg !== undefined
+      ? { azimuthDeg: normalizeDeg(item.azimuthDeg + deg) }
+      : {}),
+  };
+}
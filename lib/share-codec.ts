@@ -0,0 +1,503 @@
+// Compact binary form of a plan for share links: positions as ~1 cm steps
+// from the camera centre, varints, a string table and no annotation ids.
+// The layout belongs to a plan version; changing it means bumping
+// CURRENT_PLAN_VERSION (and keeping a reader for the old layout).
+
+import { fromLocalMeters, toLocalMeters } from "@/lib/local-meters";
+import { CURRENT_PLAN_VERSION } from "@/lib/plan-migrations";
+import type {
+  SerializedAreaMeasurement,
+  SerializedAudience,
+  SerializedCustom,
+  SerializedFirework,
+  SerializedMeasurement,
+  SerializedRestricted,
+  SerializedState,
+} from "@/lib/plan-state";
+import { BUILT_IN_RULE_SETS, parseRuleSet } from "@/lib/safety-rules";
+import type { SnapAttachment, SnapKind } from "@/lib/snap";
+
+// First plan version written in this layout
+const FIRST_BINARY_VERSION = 2;
+
+const CENTER_SCALE = 1e7; // degrees → integer, about 1 cm at the equator
+const POSITION_SCALE = 100; // meters → centimeters
+
+const SNAP_KINDS: SnapKind[] = ["firework", "fallout", "corner", "edge"];
+
+// Annotation collections, in the order they are written. Decoded ids are
+// rebuilt from the collection's id prefix and the position in the list.
+const COLLECTIONS = [
+  { key: "fireworks", idPrefix: "circle" },
+  { key: "custom", idPrefix: "custom" },
+  { key: "audiences", idPrefix: "aud" },
+  { key: "measurements", idPrefix: "meas" },
+  { key: "areas", idPrefix: "area" },
+  { key: "restricted", idPrefix: "rest" },
+] as const;
+
+// Bits of the plan-wide flags
+const PLAN_SHOW_HEIGHT = 1;
+const PLAN_AUTO_DIMENSIONS = 2;
+const PLAN_METERS = 4;
+const PLAN_PROJECT_NAME = 8;
+const PLAN_WIND = 16;
+
+// Bits of the per-annotation flags; meanings depend on the collection
+const HAS_LABEL = 1;
+// Fireworks always have a label; with neither kind bit the plan predates kinds
+const FW_AERIAL = 1;
+const FW_GROUND = 2;
+const FW_ANGLED = 4;
+const FW_NOTES = 8;
+const FW_QUANTITY = 16;
+const FW_PRODUCT = 32;
+const FW_FALLOUT = 64;
+const CUSTOM_EMOJI = 2;
+const CUSTOM_DESCRIPTION = 4;
+const AREA_POLYGON = 2;
+const AREA_ROTATION = 4;
+const MEAS_SNAPS = 2;
+const SNAP_INDEX = 1;
+const SNAP_T = 2;
+
+// Rule set tags
+const RULES_NONE = 0;
+const RULES_BUILT_IN = 1;
+const RULES_CUSTOM = 2;
+
+// --- Writing ---
+
+function createWriter() {
+  const bytes: number[] = [];
+  // Unsigned LEB128; arithmetic rather than bit operators so values past
+  // 2^31 survive
+  const uint = (value: number) => {
+    let v = Math.max(0, Math.round(value));
+    while (v >= 0x80) {
+      bytes.push(v % 0x80 | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    bytes.push(v);
+  };
+  // Zigzag keeps small negative numbers small
+  const int = (value: number) => {
+    const v = Math.round(value);
+    uint(v >= 0 ? v * 2 : -v * 2 - 1);
+  };
+  const raw = (data: Uint8Array) => {
+    for (const b of data) bytes.push(b);
+  };
+  return { bytes, uint, int, raw };
+}
+
+/** Packs a plan into the share-link form. */
+export function encodePlanBinary(state: SerializedState): Uint8Array {
+  const body = createWriter();
+  const strings: string[] = [];
+  const stringIndex = new Map<string, number>();
+  const str = (value: string) => {
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndex.set(value, index);
+    }
+    body.uint(index);
+  };
+
+  const center: [number, number] = [
+    Math.round(state.camera.center[0] * CENTER_SCALE) / CENTER_SCALE,
+    Math.round(state.camera.center[1] * CENTER_SCALE) / CENTER_SCALE,
+  ];
+  let cursor: [number, number] = [0, 0];
+  const position = (p: [number, number]) => {
+    const [x, y] = toLocalMeters(center, p);
+    const next: [number, number] = [
+      Math.round(x * POSITION_SCALE),
+      Math.round(y * POSITION_SCALE),
+    ];
+    body.int(next[0] - cursor[0]);
+    body.int(next[1] - cursor[1]);
+    cursor = next;
+  };
+  const positions = (points: [number, number][]) => {
+    body.uint(points.length);
+    points.forEach(position);
+  };
+
+  // Snap targets are written as collection and index instead of ids
+  const refs = new Map<string, number>();
+  COLLECTIONS.forEach(({ key }, c) =>
+    (state[key] ?? []).forEach((item, i) =>
+      refs.set(item.id, i * COLLECTIONS.length + c)
+    )
+  );
+
+  body.int(center[0] * CENTER_SCALE);
+  body.int(center[1] * CENTER_SCALE);
+  body.uint(state.camera.zoom * 100);
+  body.int(state.camera.bearing * 10);
+  body.int(state.camera.pitch * 10);
+
+  body.uint(
+    (state.showHeight ? PLAN_SHOW_HEIGHT : 0) |
+      (state.autoDimensions ? PLAN_AUTO_DIMENSIONS : 0) |
+      (state.measurementUnit === "meters" ? PLAN_METERS : 0) |
+      (state.projectName ? PLAN_PROJECT_NAME : 0) |
+      (state.wind ? PLAN_WIND : 0)
+  );
+  if (state.projectName) str(state.projectName);
+  const ruleSet = state.safetyRuleSet;
+  const builtIn = ruleSet
+    ? BUILT_IN_RULE_SETS.findIndex(
+        (rs) => JSON.stringify(rs) === JSON.stringify(ruleSet)
+      )
+    : -1;
+  if (!ruleSet) body.uint(RULES_NONE);
+  else if (builtIn >= 0) {
+    body.uint(RULES_BUILT_IN);
+    body.uint(builtIn);
+  } else {
+    body.uint(RULES_CUSTOM);
+    str(JSON.stringify(ruleSet));
+  }
+  if (state.wind) {
+    body.int(state.wind.directionDeg * 10);
+    body.int(state.wind.speedMph * 10);
+    body.int(state.wind.driftPerMph * 1000);
+    body.int(state.wind.stretchPerMph * 1000);
+  }
+
+  body.uint(state.fireworks.length);
+  for (const fw of state.fireworks) {
+    const angled = fw.tiltDeg !== undefined && fw.tiltDeg > 0;
+    body.uint(
+      (fw.deviceKind === "aerial" ? FW_AERIAL : 0) |
+        (fw.deviceKind === "ground" ? FW_GROUND : 0) |
+        (angled ? FW_ANGLED : 0) |
+        (fw.notes ? FW_NOTES : 0) |
+        (fw.quantity ? FW_QUANTITY : 0) |
+        (fw.productId ? FW_PRODUCT : 0) |
+        (fw.falloutFeet ? FW_FALLOUT : 0)
+    );
+    body.uint(fw.number);
+    body.uint(fw.inches * 100);
+    str(fw.label);
+    str(fw.color);
+    position(fw.position);
+    if (angled) {
+      body.int(fw.tiltDeg! * 10);
+      body.int((fw.azimuthDeg ?? 0) * 10);
+    }
+    if (fw.notes) str(fw.notes);
+    if (fw.quantity) body.uint(fw.quantity);
+    if (fw.productId) str(fw.productId);
+    if (fw.falloutFeet) body.uint(fw.falloutFeet * 10);
+  }
+
+  body.uint(state.custom.length);
+  for (const c of state.custom) {
+    body.uint(
+      (c.emoji ? CUSTOM_EMOJI : 0) | (c.description ? CUSTOM_DESCRIPTION : 0)
+    );
+    body.uint(c.number);
+    str(c.label);
+    str(c.color);
+    position(c.position);
+    if (c.emoji) str(c.emoji);
+    if (c.description) str(c.description);
+  }
+
+  const writeArea = (a: SerializedAudience | SerializedRestricted) => {
+    body.uint(
+      (a.label ? HAS_LABEL : 0) |
+        (a.shape === "polygon" ? AREA_POLYGON : 0) |
+        (a.rotationDeg ? AREA_ROTATION : 0)
+    );
+    body.uint(a.number);
+    if (a.label) str(a.label);
+    positions(a.corners);
+    if (a.rotationDeg) body.int(a.rotationDeg * 100);
+  };
+  body.uint(state.audiences.length);
+  state.audiences.forEach(writeArea);
+
+  body.uint(state.measurements.length);
+  for (const m of state.measurements) {
+    const snaps = m.snaps?.some(Boolean) ? m.snaps : undefined;
+    body.uint((m.label ? HAS_LABEL : 0) | (snaps ? MEAS_SNAPS : 0));
+    body.uint(m.number);
+    if (m.label) str(m.label);
+    positions(m.points);
+    if (!snaps) continue;
+    for (let i = 0; i < m.points.length; i++) {
+      const snap = snaps[i];
+      const ref = snap ? refs.get(snap.id) : undefined;
+      // 0 is "not snapped"; snaps to missing targets are dropped
+      if (!snap || ref === undefined) {
+        body.uint(0);
+        continue;
+      }
+      body.uint(ref + 1);
+      body.uint(
+        SNAP_KINDS.indexOf(snap.kind) * 4 +
+          (snap.index !== undefined ? SNAP_INDEX : 0) +
+          (snap.t !== undefined ? SNAP_T : 0)
+      );
+      if (snap.index !== undefined) body.uint(snap.index);
+      if (snap.t !== undefined) body.uint(snap.t * 10000);
+    }
+  }
+
+  body.uint(state.areas.length);
+  for (const a of state.areas) {
+    body.uint(a.label ? HAS_LABEL : 0);
+    body.uint(a.number);
+    if (a.label) str(a.label);
+    positions(a.vertices);
+  }
+
+  body.uint(state.restricted.length);
+  state.restricted.forEach(writeArea);
+
+  const out = createWriter();
+  out.uint(CURRENT_PLAN_VERSION);
+  const encoder = new TextEncoder();
+  out.uint(strings.length);
+  for (const s of strings) {
+    const utf8 = encoder.encode(s);
+    out.uint(utf8.length);
+    out.raw(utf8);
+  }
+  return Uint8Array.from([...out.bytes, ...body.bytes]);
+}
+
+// --- Reading ---
+
+function createReader(bytes: Uint8Array) {
+  let pos = 0;
+  const byte = () => {
+    if (pos >= bytes.length) throw new Error("Share data ends early");
+    return bytes[pos++]!;
+  };
+  const uint = () => {
+    let value = 0;
+    let scale = 1;
+    let b: number;
+    do {
+      b = byte();
+      value += (b & 0x7f) * scale;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) throw new Error("Bad varint");
+    } while (b & 0x80);
+    return value;
+  };
+  const int = () => {
+    const z = uint();
+    return z % 2 === 0 ? z / 2 : -(z + 1) / 2;
+  };
+  const raw = (length: number) => {
+    if (pos + length > bytes.length) throw new Error("Share data ends early");
+    pos += length;
+    return bytes.subarray(pos - length, pos);
+  };
+  const atEnd = () => pos === bytes.length;
+  return { uint, int, raw, atEnd };
+}
+
+/**
+ * Unpacks a plan; throws when the data is damaged. Plans from a newer app
+ * come back as just their version, for migratePlanState to report.
+ */
+export function decodePlanBinary(bytes: Uint8Array): unknown {
+  const r = createReader(bytes);
+  const version = r.uint();
+  if (version > CURRENT_PLAN_VERSION) return { v: version };
+  if (version < FIRST_BINARY_VERSION)
+    throw new Error(`No binary layout for plan version ${version}`);
+
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  const strings: string[] = [];
+  const stringCount = r.uint();
+  for (let i = 0; i < stringCount; i++)
+    strings.push(decoder.decode(r.raw(r.uint())));
+  const str = () => {
+    const s = strings[r.uint()];
+    if (s === undefined) throw new Error("Bad string index");
+    return s;
+  };
+  const count = () => {
+    const n = r.uint();
+    // Every entry takes at least a byte, so longer counts are damage
+    if (n > bytes.length) throw new Error("Bad count");
+    return n;
+  };
+
+  const center: [number, number] = [
+    r.int() / CENTER_SCALE,
+    r.int() / CENTER_SCALE,
+  ];
+  let cursor: [number, number] = [0, 0];
+  const position = (): [number, number] => {
+    cursor = [cursor[0] + r.int(), cursor[1] + r.int()];
+    return fromLocalMeters(
+      center,
+      cursor[0] / POSITION_SCALE,
+      cursor[1] / POSITION_SCALE
+    );
+  };
+  const positions = () => Array.from({ length: count() }, position);
+  const id = (collection: number, index: number) =>
+    `${COLLECTIONS[collection]!.idPrefix}-${index + 1}`;
+
+  const camera = {
+    center,
+    zoom: r.uint() / 100,
+    bearing: r.int() / 10,
+    pitch: r.int() / 10,
+  };
+
+  const planFlags = r.uint();
+  const projectName = planFlags & PLAN_PROJECT_NAME ? str() : undefined;
+  const rulesTag = r.uint();
+  const safetyRuleSet =
+    rulesTag === RULES_BUILT_IN
+      ? BUILT_IN_RULE_SETS[r.uint()]
+      : rulesTag === RULES_CUSTOM
+      ? parseRuleSet(JSON.parse(str())) ?? undefined
+      : undefined;
+  const wind =
+    planFlags & PLAN_WIND
+      ? {
+          directionDeg: r.int() / 10,
+          speedMph: r.int() / 10,
+          driftPerMph: r.int() / 1000,
+          stretchPerMph: r.int() / 1000,
+        }
+      : undefined;
+
+  const fireworks: SerializedFirework[] = Array.from(
+    { length: count() },
+    (_, i) => {
+      const flags = r.uint();
+      const fw: SerializedFirework = {
+        id: id(0, i),
+        number: r.uint(),
+        inches: r.uint() / 100,
+        label: str(),
+        color: str(),
+        position: position(),
+      };
+      if (flags & FW_AERIAL) fw.deviceKind = "aerial";
+      if (flags & FW_GROUND) fw.deviceKind = "ground";
+      if (flags & FW_ANGLED) {
+        fw.tiltDeg = r.int() / 10;
+        fw.azimuthDeg = r.int() / 10;
+      }
+      if (flags & FW_NOTES) fw.notes = str();
+      if (flags & FW_QUANTITY) fw.quantity = r.uint();
+      if (flags & FW_PRODUCT) fw.productId = str();
+      if (flags & FW_FALLOUT) fw.falloutFeet = r.uint() / 10;
+      return fw;
+    }
+  );
+
+  const custom: SerializedCustom[] = Array.from({ length: count() }, (_, i) => {
+    const flags = r.uint();
+    const c: SerializedCustom = {
+      id: id(1, i),
+      number: r.uint(),
+      label: str(),
+      color: str(),
+      position: position(),
+    };
+    if (flags & CUSTOM_EMOJI) c.emoji = str();
+    if (flags & CUSTOM_DESCRIPTION) c.description = str();
+    return c;
+  });
+
+  // Fields are read in the order they were written
+  const readArea = (collection: number, index: number): SerializedAudience => {
+    const flags = r.uint();
+    return {
+      id: id(collection, index),
+      number: r.uint(),
+      ...(flags & HAS_LABEL ? { label: str() } : {}),
+      corners: positions(),
+      ...(flags & AREA_POLYGON ? { shape: "polygon" as const } : {}),
+      ...(flags & AREA_ROTATION ? { rotationDeg: r.int() / 100 } : {}),
+    };
+  };
+  const audiences = Array.from({ length: count() }, (_, i) => readArea(2, i));
+
+  const measurements: SerializedMeasurement[] = Array.from(
+    { length: count() },
+    (_, i) => {
+      const flags = r.uint();
+      const m: SerializedMeasurement = {
+        id: id(3, i),
+        number: r.uint(),
+        ...(flags & HAS_LABEL ? { label: str() } : {}),
+        points: positions(),
+      };
+      if (flags & MEAS_SNAPS)
+        m.snaps = m.points.map(() => {
+          const ref = r.uint();
+          if (ref === 0) return null;
+          const bits = r.uint();
+          const kind = SNAP_KINDS[Math.floor(bits / 4)];
+          if (!kind) throw new Error("Bad snap kind");
+          const snap: SnapAttachment = {
+            kind,
+            id: id(
+              (ref - 1) % COLLECTIONS.length,
+              Math.floor((ref - 1) / COLLECTIONS.length)
+            ),
+          };
+          if (bits & SNAP_INDEX) snap.index = r.uint();
+          if (bits & SNAP_T) snap.t = r.uint() / 10000;
+          return snap;
+        });
+      return m;
+    }
+  );
+
+  const areas: SerializedAreaMeasurement[] = Array.from(
+    { length: count() },
+    (_, i) => {
+      const flags = r.uint();
+      return {
+        id: id(4, i),
+        number: r.uint(),
+        ...(flags & HAS_LABEL ? { label: str() } : {}),
+        vertices: positions(),
+      };
+    }
+  );
+
+  const restricted: SerializedRestricted[] = Array.from(
+    { length: count() },
+    (_, i) => readArea(5, i)
+  );
+
+  if (!r.atEnd()) throw new Error("Unexpected data after the plan");
+
+  const state: SerializedState = {
+    camera,
+    fireworks,
+    custom,
+    audiences,
+    measurements,
+    areas,
+    restricted,
+    showHeight: (planFlags & PLAN_SHOW_HEIGHT) !== 0,
+    ...(planFlags & PLAN_AUTO_DIMENSIONS ? { autoDimensions: true } : {}),
+    measurementUnit: planFlags & PLAN_METERS ? "meters" : "feet",
+    ...(projectName ? { projectName } : {}),
+    ...(safetyRuleSet ? { safetyRuleSet } : {}),
+    ...(wind ? { wind } : {}),
+    v: CURRENT_PLAN_VERSION,
+  };
+  return state;
+}
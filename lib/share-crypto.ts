@@ -0,0 +1,78 @@
+// Passphrase protection for share links: PBKDF2 derives an AES-GCM key, and
+// the link carries the salt and nonce ahead of the encrypted plan
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Slow enough to make guessing costly, quick enough to open a link
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Whether this page can lock and unlock links. Browsers only offer
+ * crypto.subtle over HTTPS and on localhost.
+ */
+export function shareCryptoAvailable(): boolean {
+  return typeof crypto !== "undefined" && crypto.subtle !== undefined;
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** Encrypts share data as salt, then nonce, then ciphertext. */
+export async function encryptShareData(
+  data: Uint8Array,
+  passphrase: string
+): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data.slice())
+  );
+  const out = new Uint8Array(SALT_BYTES + IV_BYTES + ciphertext.length);
+  out.set(salt, 0);
+  out.set(iv, SALT_BYTES);
+  out.set(ciphertext, SALT_BYTES + IV_BYTES);
+  return out;
+}
+
+/**
+ * Reverses encryptShareData. Null when the passphrase is wrong; AES-GCM
+ * cannot tell that apart from a link damaged in transit.
+ */
+export async function decryptShareData(
+  data: Uint8Array,
+  passphrase: string
+): Promise<Uint8Array | null> {
+  if (data.length <= SALT_BYTES + IV_BYTES) return null;
+  const salt = data.slice(0, SALT_BYTES);
+  const iv = data.slice(SALT_BYTES, SALT_BYTES + IV_BYTES);
+  const key = await deriveKey(passphrase, salt);
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv },
+        key,
+        data.slice(SALT_BYTES + IV_BYTES)
+      )
+    );
+  } catch {
+    return null;
+  }
+}
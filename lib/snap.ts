@@ -0,0 +1,193 @@
+// Snapping measurement points onto firework and area geometry
+
+import type { LngLat } from "./fallout";
+import { toLocalMeters } from "./local-meters";
+
+export type SnapKind = "firework" | "fallout" | "corner" | "edge";
+
+/** Where a measurement point is attached, so it can follow its target. */
+export interface SnapAttachment {
+  kind: SnapKind;
+  id: string; // target annotation id
+  index?: number; // corner, or first vertex of the edge / fallout segment
+  t?: number; // position along that segment, 0–1
+}
+
+export interface SnapTarget {
+  id: string;
+  center?: LngLat; // firework launch position
+  ring?: LngLat[]; // closed fallout outline (last point repeats the first)
+  corners?: LngLat[]; // area vertices, implicitly closed
+}
+
+export interface SnapResult {
+  point: LngLat;
+  attachment: SnapAttachment;
+}
+
+function lerp(a: LngLat, b: LngLat, t: number): LngLat {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+// Closest point on segment ab to the origin, as a fraction along ab
+function closestT(a: [number, number], b: [number, number]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return 0;
+  return Math.max(0, Math.min(1, -(a[0] * dx + a[1] * dy) / lenSq));
+}
+
+/**
+ * Nearest snap within the tolerance. Firework centres and corners win over
+ * fallout and area edges, so a corner is easy to hit where two edges meet.
+ */
+export function findSnap(
+  point: LngLat,
+  targets: SnapTarget[],
+  toleranceMeters: number
+): SnapResult | null {
+  const nearest = (candidates: SnapResult[]) => {
+    let best: SnapResult | null = null;
+    let bestDist = toleranceMeters;
+    for (const c of candidates) {
+      const [x, y] = toLocalMeters(point, c.point);
+      const d = Math.hypot(x, y);
+      if (d <= bestDist) {
+        best = c;
+        bestDist = d;
+      }
+    }
+    return best;
+  };
+
+  const points: SnapResult[] = [];
+  for (const target of targets) {
+    if (target.center)
+      points.push({
+        point: target.center,
+        attachment: { kind: "firework", id: target.id },
+      });
+    target.corners?.forEach((c, index) =>
+      points.push({
+        point: c,
+        attachment: { kind: "corner", id: target.id, index },
+      })
+    );
+  }
+  const pointSnap = nearest(points);
+  if (pointSnap) return pointSnap;
+
+  const edges: SnapResult[] = [];
+  const addEdges = (
+    vertices: LngLat[],
+    closed: boolean,
+    kind: SnapKind,
+    id: string
+  ) => {
+    const count = closed ? vertices.length : vertices.length - 1;
+    for (let index = 0; index < count; index++) {
+      const a = vertices[index]!;
+      const b = vertices[(index + 1) % vertices.length]!;
+      const t = closestT(toLocalMeters(point, a), toLocalMeters(point, b));
+      edges.push({ point: lerp(a, b, t), attachment: { kind, id, index, t } });
+    }
+  };
+  for (const target of targets) {
+    if (target.ring) addEdges(target.ring, false, "fallout", target.id);
+    if (target.corners) addEdges(target.corners, true, "edge", target.id);
+  }
+  return nearest(edges);
+}
+
+/** Current position of an attachment; null when its target has gone. */
+export function resolveSnap(
+  attachment: SnapAttachment,
+  targets: Record<string, SnapTarget>
+): LngLat | null {
+  const target = targets[attachment.id];
+  if (!target) return null;
+  const index = attachment.index ?? 0;
+  const t = attachment.t ?? 0;
+  switch (attachment.kind) {
+    case "firework":
+      return target.center ?? null;
+    case "corner":
+      return target.corners?.[index] ?? null;
+    case "edge": {
+      const c = target.corners;
+      if (!c || index >= c.length) return null;
+      return lerp(c[index]!, c[(index + 1) % c.length]!, t);
+    }
+    case "fallout": {
+      const r = target.ring;
+      if (!r || index >= r.length - 1) return null;
+      return lerp(r[index]!, r[index + 1]!, t);
+    }
+  }
+}
+
+/** A vertex added to or removed from a closed area outline. */
+export type VertexChange =
+  | { inserted: number } // index the new vertex now has
+  | { removed: number };
+
+/**
+ * Keeps a corner or edge attachment on the same corner or edge after a change
+ * to an area of `count` vertices (counted before the change). Null when its
+ * corner was removed, or its edge was split or merged with a neighbour.
+ */
+export function reindexSnap(
+  attachment: SnapAttachment,
+  count: number,
+  change: VertexChange
+): SnapAttachment | null {
+  if (attachment.kind !== "corner" && attachment.kind !== "edge")
+    return attachment;
+  const index = attachment.index ?? 0;
+  const isEdge = attachment.kind === "edge";
+  if ("inserted" in change) {
+    const at = change.inserted;
+    // The new vertex splits the edge that used to end at `at`
+    if (isEdge && index === (at - 1 + count) % count) return null;
+    return index >= at ? { ...attachment, index: index + 1 } : attachment;
+  }
+  const at = change.removed;
+  // Removing a vertex merges the edges on either side of it
+  if (index === at || (isEdge && index === (at - 1 + count) % count))
+    return null;
+  return index > at ? { ...attachment, index: index - 1 } : attachment;
+}
+
+export function describeSnap(attachment: SnapAttachment): string {
+  switch (attachment.kind) {
+    case "firework":
+      return "firework position";
+    case "fallout":
+      return "fallout edge";
+    case "corner":
+      return "area corner";
+    case "edge":
+      return "area edge";
+  }
+}
+
+/** Validates untrusted (e.g. deserialized) attachments, one per point. */
+export function parseSnapAttachments(
+  value: unknown,
+  count: number
+): (SnapAttachment | null)[] {
+  const snaps: (SnapAttachment | null)[] = new Array(count).fill(null);
+  if (!Array.isArray(value)) return snaps;
+  value.slice(0, count).forEach((v, i) => {
+    if (!v || typeof v !== "object") return;
+    const { kind, id, index, t } = v as Partial<SnapAttachment>;
+    if (!["firework", "fallout", "corner", "edge"].includes(kind as string))
+      return;
+    if (typeof id !== "string") return;
+    if (index !== undefined && !(Number.isInteger(index) && index >= 0)) return;
+    if (t !== undefined && !(typeof t === "number" && t >= 0 && t <= 1)) return;
+    snaps[i] = { kind: kind as SnapKind, id, index, t };
+  });
+  return snaps;
+}
@@ -0,0 +1,36 @@
+// Small JPEG snapshots of the map canvas for previews
+
+/**
+ * Scales and centre-crops the canvas to the given size. Returns undefined
+ * when the canvas cannot be read (e.g. a lost WebGL context).
+ */
+export function captureThumbnail(
+  source: HTMLCanvasElement,
+  width = 240,
+  height = 150
+): string | undefined {
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx || source.width === 0 || source.height === 0) return undefined;
+    const scale = Math.max(width / source.width, height / source.height);
+    const sw = width / scale;
+    const sh = height / scale;
+    ctx.drawImage(
+      source,
+      (source.width - sw) / 2,
+      (source.height - sh) / 2,
+      sw,
+      sh,
+      0,
+      0,
+      width,
+      height
+    );
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch {
+    return undefined;
+  }
+}
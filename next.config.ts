@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
+import { version } from "./package.json";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Written into saved project files
+  env: { NEXT_PUBLIC_APP_VERSION: version },
 };
 
 export default nextConfig;